@@ -6,9 +6,15 @@ import { MultiServerMCPClient } from '@langchain/mcp-adapters';
 import { BaseMessage, HumanMessage, SystemMessage } from '@langchain/core/messages';
 import { BaseChatModel } from '@langchain/core/language_models/chat_models';
 import { createLogger } from '@aspri/logger';
-import { WhatsAppMessage } from '@aspri/types';
+import { WhatsAppMessage, JobRunOutcome, PendingApproval, UserProfile } from '@aspri/types';
+import { approvalStore, initializeValidators, mediaStore, userRegistry, validatorRegistry } from '@aspri/utils';
 import { getSystemPrompt } from './prompts.js';
 import { SessionManager } from './session-manager.js';
+import { parseApprovalReply } from './approval-reply.js';
+import { parseGroupTrigger } from './group-trigger.js';
+import { ImageInput, prepareMessage } from './media.js';
+import { SpeechToText, createSpeechToText } from './speech-to-text.js';
+import { isRetryableError } from './errors.js';
 import path from 'path';
 import { fileURLToPath } from 'url';
 
@@ -18,13 +24,23 @@ const __dirname = path.dirname(__filename);
 
 type LLMProvider = 'ollama' | 'openai' | 'anthropic';
 
+/**
+ * Where an incoming message came from and where the reply goes
+ */
+interface Conversation {
+  userId: string;            // Who wrote the message (the author in a group)
+  chatId: string;            // Session and reply target: the sender, or the group
+  quotedMessageId?: string;  // Message to quote in the reply (groups only)
+}
+
 export class AgentOrchestrator {
   private mcpClient: MultiServerMCPClient | null = null;
   private agent: any = null;
   private llm: BaseChatModel | null = null;
   private sessionManager: SessionManager | null = null;
   private tools: any[] = [];
-  private currentUserId: string | null = null;
+  private vision: boolean = false;
+  private speechToText: SpeechToText | null = null;
 
   async initialize() {
     logger.info('Initializing AI Agent...');
@@ -93,6 +109,15 @@ export class AgentOrchestrator {
       throw new Error(`Unsupported LLM provider: ${llmProvider}`);
     }
 
+    // Local Ollama models are mostly text-only; hosted models accept images
+    this.vision = process.env.LLM_VISION !== undefined
+      ? process.env.LLM_VISION === 'true'
+      : llmProvider !== 'ollama';
+    logger.info({ vision: this.vision }, 'LLM image input configured');
+
+    // Voice notes are transcribed before they reach the LLM
+    this.speechToText = createSpeechToText();
+
     logger.info('Getting MCP tools...');
 
     // Get tools from MCP server
@@ -134,33 +159,63 @@ export class AgentOrchestrator {
     // Initialize Session Manager
     logger.info('Initializing Session Manager...');
     this.sessionManager = new SessionManager();
+    await this.sessionManager.initialize();
+
+    // Validators resolve YES/NO replies to pending approvals
+    await initializeValidators();
+
+    // Media sent by users is read from the blob store the WhatsApp Service writes to
+    await mediaStore.initialize();
 
     logger.info('Agent orchestrator initialized');
   }
 
-  async processMessage(message: string, chatId: string): Promise<string> {
+  /**
+   * Run one conversation turn
+   * userId is scoped to this call, so concurrent turns never see each other's identity
+   * images are sent with this turn only; the session keeps the text
+   */
+  async processMessage(
+    message: string,
+    chatId: string,
+    userId?: string,
+    profile?: UserProfile | null,
+    images: ImageInput[] = []
+  ): Promise<string> {
     if (!this.agent || !this.sessionManager) {
       throw new Error('Agent not initialized');
     }
 
     logger.debug({
       messageLength: message.length,
+      imageCount: images.length,
       chatId,
       llmProvider: process.env.LLM_PROVIDER || 'ollama'
     }, 'Processing message with AI');
 
     try {
-      // Add user message to session
-      this.sessionManager.addUserMessage(chatId, message);
-
-      // Get conversation history
-      const sessionMessages = this.sessionManager.getMessages(chatId);
+      // Get conversation history; the user message is saved with the turn, so a failed turn can be retried
+      const sessionMessages = await this.sessionManager.getMessages(chatId);
+
+      // Images are attached to this turn's message only
+      const userMessage = images.length > 0
+        ? new HumanMessage({
+            content: [
+              { type: 'text', text: message },
+              ...images.map((image) => ({
+                type: 'image_url',
+                image_url: { url: `data:${image.mimetype};base64,${image.data}` },
+              })),
+            ],
+          })
+        : new HumanMessage(message);
 
       // Inject fresh system prompt with current timestamp and userId
-      const systemPrompt = getSystemPrompt(this.currentUserId || undefined);
+      const systemPrompt = getSystemPrompt(userId, profile?.timezone || undefined, profile);
       const messagesWithSystem = [
         new SystemMessage(systemPrompt),
-        ...sessionMessages
+        ...sessionMessages,
+        userMessage,
       ];
 
       const response = await this.agent.invoke({
@@ -187,8 +242,14 @@ export class AgentOrchestrator {
       const lastMessage = response.messages[response.messages.length - 1];
       const responseText = lastMessage.content;
 
-      // Save AI response to session
-      this.sessionManager.addAIMessage(chatId, responseText);
+      // Save the whole turn (user message, tool calls, tool results, final reply) to session
+      await this.sessionManager.addUserMessage(chatId, message);
+      const turnMessages = response.messages.slice(messagesWithSystem.length);
+      if (turnMessages.length > 0) {
+        await this.sessionManager.addMessages(chatId, turnMessages);
+      } else {
+        await this.sessionManager.addAIMessage(chatId, responseText);
+      }
 
       logger.debug({ responseLength: responseText.length, chatId }, 'AI response generated');
       return responseText;
@@ -199,48 +260,267 @@ export class AgentOrchestrator {
     }
   }
 
+  /**
+   * Handle an incoming WhatsApp message
+   * Throws when handling failed, so the event is retried (see isRetryableError)
+   */
   async handleWhatsAppMessage(message: WhatsAppMessage): Promise<void> {
     try {
+      // In groups, only messages addressed to the assistant are handled
+      const body = message.groupId
+        ? parseGroupTrigger(message, process.env.GROUP_TRIGGER_PREFIX ?? '!ai')
+        : message.body;
+      if (body === null) {
+        logger.debug({ groupId: message.groupId, author: message.author }, 'Group message not addressed to the assistant, ignoring');
+        return;
+      }
+
+      // Sender is the user for validation context; a group has one shared session and gets the replies
+      const conversation: Conversation = {
+        userId: message.author || message.from,
+        chatId: message.groupId || message.from,
+        quotedMessageId: message.groupId ? message.serializedId : undefined,
+      };
+
       logger.info({
         from: message.from,
-        userMessage: message.body
+        author: message.author,
+        groupId: message.groupId,
+        userMessage: body
       }, 'Processing incoming WhatsApp message');
 
-      // Set current user ID for validation context
-      this.currentUserId = message.from;
+      // Only registered users reach the LLM
+      const profile = await this.resolveSender(conversation);
+      if (!profile) {
+        return;
+      }
+
+      // YES/NO replies to a pending approval are resolved without the LLM
+      if (await this.handleApprovalReply(body, conversation)) {
+        return;
+      }
+
+      // Media is read from the blob store: images for the LLM, voice notes and documents as text
+      const prepared = await prepareMessage(message, body, {
+        vision: this.vision,
+        speechToText: this.speechToText,
+      });
+
+      // In a shared group session, say who is talking
+      const text = message.groupId
+        ? `${profile.displayName || profile.userId}: ${prepared.text}`
+        : prepared.text;
+
+      // A voice note that was hard to understand is read back before anything is done with it
+      if (prepared.unclearTranscript) {
+        const confirmation = `🎙️ Saya kurang yakin menangkap pesan suara Anda. Yang saya dengar:\n"${prepared.unclearTranscript}"\n\nBalas *benar* untuk melanjutkan, atau ketik pesan Anda.`;
+
+        // Keep the exchange in the conversation so the AI can act on the confirmation
+        if (this.sessionManager) {
+          await this.sessionManager.addUserMessage(conversation.chatId, text);
+          await this.sessionManager.addAIMessage(conversation.chatId, confirmation);
+        }
+
+        logger.info({ chatId: conversation.chatId }, 'Low-confidence voice note transcript sent back for confirmation');
+        await this.sendReply(conversation, confirmation);
+        return;
+      }
 
       // Process message with AI
-      const chatId = message.from;
-      const response = await this.processMessage(message.body, chatId);
+      const response = await this.processMessage(text, conversation.chatId, conversation.userId, profile, prepared.images);
 
       logger.info({
-        from: message.from,
+        chatId: conversation.chatId,
         aiResponse: response
       }, 'AI response generated');
 
-      // Send reply via MCP tool (userId will be injected by AI based on system prompt)
-      const sendMessageTool = this.tools.find((tool: any) => tool.name === 'whatsapp_send_message');
-      if (!sendMessageTool) {
-        throw new Error('whatsapp_send_message tool not found');
+      // The turn is saved and its tools have run; retrying the event would run them again
+      try {
+        await this.sendReply(conversation, response);
+      } catch (error) {
+        logger.error({ error, chatId: conversation.chatId }, 'Failed to send AI response');
       }
 
+    } catch (error) {
+      logger.error({ error, from: message.from }, 'Error handling WhatsApp message');
+      throw error;
+    }
+  }
+
+  /**
+   * Look up the sender in the user registry
+   * Blocked users are ignored. Unknown senders are either registered as guests (UNKNOWN_SENDER_POLICY=guest)
+   * or rejected; both get a configurable reply, at most once per UNKNOWN_SENDER_REPLY_INTERVAL_HOURS.
+   * Returns null when the message must not be processed.
+   */
+  private async resolveSender(conversation: Conversation): Promise<UserProfile | null> {
+    const { userId } = conversation;
+    const profile = await userRegistry.get(userId);
+
+    if (profile?.role === 'blocked') {
+      logger.info({ userId }, 'Ignoring message from blocked user');
+      return null;
+    }
+    if (profile) {
+      return profile;
+    }
+
+    const policy = process.env.UNKNOWN_SENDER_POLICY || 'reject';
+    const notify = await userRegistry.markNotified(userId);
+
+    if (policy === 'guest') {
+      const guest = await userRegistry.upsert(userId, { role: 'guest' });
+      const onboarding = process.env.UNKNOWN_SENDER_ONBOARDING_REPLY ??
+        '👋 Halo! Nomor Anda terdaftar sebagai tamu. Beberapa fitur mungkin dibatasi.';
+      if (notify && onboarding) {
+        await this.sendReply(conversation, onboarding);
+      }
+      logger.info({ userId }, 'Unknown sender registered as guest');
+      return guest;
+    }
+
+    const rejection = process.env.UNKNOWN_SENDER_REJECTION_REPLY ??
+      'Maaf, nomor Anda belum terdaftar untuk menggunakan asisten ini. Silakan hubungi pemilik.';
+    if (notify && rejection) {
+      await this.sendReply(conversation, rejection);
+    }
+    logger.info({ userId, notified: notify }, 'Rejected message from unknown sender');
+    return null;
+  }
+
+  /**
+   * Send a reply via MCP tool, into the direct chat or the group the message came from
+   */
+  private async sendReply(conversation: Conversation, text: string): Promise<void> {
+    const { userId, chatId: to, quotedMessageId } = conversation;
+    const sendMessageTool = this.tools.find((tool: any) => tool.name === 'whatsapp_send_message');
+    if (!sendMessageTool) {
+      throw new Error('whatsapp_send_message tool not found');
+    }
+
+    // Answering in a group is allowed for this reply only, without whitelisting the group.
+    // The reply grant also exempts it from the send policies (quiet hours, quota, rate limits), like a direct reply.
+    const isGroup = to.endsWith('@g.us');
+    if (isGroup) {
+      await approvalStore.grantOnce(userId, 'whatsapp_send_message', to, 'reply');
+    }
+
+    try {
+      // A tool result with isError is thrown by the MCP adapter as a ToolException
       await sendMessageTool.invoke({
-        phoneNumber: message.from,
-        message: response,
-        userId: this.currentUserId, // Explicit injection for reply
+        phoneNumber: to,
+        message: text,
+        quotedMessageId,
+        userId, // Explicit injection for reply
       });
+    } catch (error) {
+      logger.error({ error, to, userId }, 'Reply was not sent');
+      throw error;
+    } finally {
+      // Drop the grant if the send was rejected, so it can't be used by a later message
+      if (isGroup) {
+        await approvalStore.consumeGrant(userId, 'whatsapp_send_message', to);
+      }
+    }
 
-      logger.info({
-        from: message.from,
-        responseLength: response.length
-      }, 'Reply sent successfully via MCP tool');
+    logger.info({
+      to,
+      responseLength: text.length
+    }, 'Reply sent successfully via MCP tool');
+  }
 
-    } catch (error) {
-      logger.error({ error, from: message.from }, 'Error handling WhatsApp message');
+  /**
+   * Resolve a YES/NO reply to a pending approval
+   * Approving whitelists the target (or grants a single use) and re-runs the blocked action.
+   * Returns false when the message is not an approval reply, so it is handled as a normal message.
+   */
+  private async handleApprovalReply(body: string, conversation: Conversation): Promise<boolean> {
+    const reply = parseApprovalReply(body);
+    if (!reply) {
+      return false;
+    }
+
+    const { userId, chatId } = conversation;
+    const approval = await approvalStore.take(userId, reply.approvalId);
+
+    if (!approval) {
+      if (reply.approvalId === undefined) {
+        // A plain "yes" with nothing pending is regular conversation
+        return false;
+      }
+      await this.sendReply(conversation, `❌ Persetujuan #${reply.approvalId} tidak ditemukan atau sudah kedaluwarsa.`);
+      return true;
+    }
+
+    logger.info({
+      userId,
+      approvalId: approval.id,
+      decision: reply.decision,
+      once: reply.once,
+      resource: approval.resource,
+      action: approval.action.tool
+    }, 'Approval reply received');
+
+    let response: string;
+
+    if (reply.decision === 'reject') {
+      response = `❌ Dibatalkan. Tidak ada pesan yang dikirim ke ${approval.resource}.`;
+    } else {
+      // The approval is already taken, so a failure is answered rather than retried
+      try {
+        response = await this.runApprovedAction(approval, reply.once, userId);
+      } catch (error: any) {
+        logger.error({ error, userId, approvalId: approval.id }, 'Failed to run approved action');
+        response = `❌ Persetujuan #${approval.id} gagal dijalankan: ${error?.message || String(error)}`;
+      }
     }
+
+    // Keep the exchange in the conversation so the AI knows what happened
+    if (this.sessionManager) {
+      await this.sessionManager.addUserMessage(chatId, body);
+      await this.sessionManager.addAIMessage(chatId, response);
+    }
+
+    await this.sendReply(conversation, response);
+    return true;
   }
 
-  async handleCronjobTrigger(jobData: any): Promise<void> {
+  /**
+   * Whitelist the approved target (or grant a single use) and re-run the blocked action
+   * A one-shot grant is only usable while the action runs; a reminder keeps it for its job (see reminder_create).
+   */
+  private async runApprovedAction(approval: PendingApproval, once: boolean, userId: string): Promise<string> {
+    const tool = this.tools.find((t: any) => t.name === approval.action.tool);
+    if (!tool) {
+      throw new Error(`${approval.action.tool} tool not found`);
+    }
+
+    if (once) {
+      await approvalStore.grantOnce(userId, approval.toolName, approval.resource);
+    } else {
+      await validatorRegistry.addToWhitelist(approval.toolName, userId, [{ resource: approval.resource }], userId);
+    }
+
+    try {
+      const result = await tool.invoke({ ...approval.action.args, userId });
+      const resultText = typeof result === 'string' ? result : JSON.stringify(result);
+
+      return once
+        ? `✅ ${approval.resource} diizinkan sekali.\n${resultText}`
+        : `✅ ${approval.resource} disimpan ke whitelist.\n${resultText}`;
+    } finally {
+      // Drop the grant if the action did not use it, so it can't be used by a later message
+      if (once) {
+        await approvalStore.consumeGrant(userId, approval.toolName, approval.resource);
+      }
+    }
+  }
+
+  /**
+   * Process a cronjob trigger and report what happened, so the cronjob service can record the run outcome
+   * Retryable errors are thrown instead, so the trigger is retried
+   */
+  async handleCronjobTrigger(jobData: any): Promise<{ outcome: JobRunOutcome; detail?: string }> {
     try {
       logger.info({
         jobId: jobData.jobId,
@@ -256,11 +536,15 @@ export class AgentOrchestrator {
         const requestedBy = payload.context?.requestedBy;
         if (!requestedBy) {
           logger.error({ jobData }, 'Missing requestedBy in cronjob context - aborting');
-          return;
+          return { outcome: 'failed', detail: 'Missing requestedBy in cronjob context' };
         }
 
-        // Set current user ID for validation context
-        this.currentUserId = requestedBy;
+        // Jobs of users who were blocked or removed since scheduling them are not run
+        const profile = await userRegistry.get(requestedBy);
+        if (!profile || profile.role === 'blocked') {
+          logger.warn({ jobId: jobData.jobId, requestedBy }, 'Job owner is not an active user - skipping');
+          return { outcome: 'skipped', detail: `Job owner ${requestedBy} is not an active user` };
+        }
 
         logger.info({
           prompt: payload.prompt,
@@ -268,27 +552,44 @@ export class AgentOrchestrator {
           requestedBy
         }, 'Processing scheduled prompt from cronjob');
 
+        // A recipient approved once for this job (a plain "YES") may be sent to during each of its runs
+        const jobGrant = await approvalStore.getJobGrant(jobData.jobId);
+        if (jobGrant) {
+          await approvalStore.grantOnce(requestedBy, jobGrant.toolName, jobGrant.resource);
+        }
+
         try {
           // Use session ID from context or create system session
           const sessionId = payload.context?.sessionId || `system:cronjob:${jobData.jobId}`;
 
           // Process the prompt through the AI agent
-          const response = await this.processMessage(payload.prompt, sessionId);
+          const response = await this.processMessage(payload.prompt, sessionId, requestedBy, profile);
+          const responsePreview = response.substring(0, 100) + (response.length > 100 ? '...' : '');
 
           logger.info({
             jobId: jobData.jobId,
             jobName: jobData.jobName,
             requestedBy,
-            responsePreview: response.substring(0, 100) + (response.length > 100 ? '...' : ''),
+            responsePreview,
             responseLength: response.length
           }, 'Scheduled task executed successfully');
 
-        } catch (error) {
+          return { outcome: 'succeeded', detail: responsePreview };
+        } catch (error: any) {
           logger.error({
             error,
             jobId: jobData.jobId,
             prompt: payload.prompt
           }, 'Error processing scheduled prompt');
+          if (isRetryableError(error)) {
+            throw error;
+          }
+          return { outcome: 'failed', detail: error?.message || String(error) };
+        } finally {
+          // Drop the run's grant if it was not used, so it can't be used outside this job
+          if (jobGrant) {
+            await approvalStore.consumeGrant(requestedBy, jobGrant.toolName, jobGrant.resource);
+          }
         }
       } else {
         // No prompt in payload - just log the trigger
@@ -297,10 +598,15 @@ export class AgentOrchestrator {
           jobName: jobData.jobName,
           payload
         }, 'Cronjob triggered without prompt - no action taken');
+        return { outcome: 'skipped', detail: 'No prompt in payload' };
       }
 
-    } catch (error) {
+    } catch (error: any) {
       logger.error({ error, jobData }, 'Error handling cronjob trigger');
+      if (isRetryableError(error)) {
+        throw error;
+      }
+      return { outcome: 'failed', detail: error?.message || String(error) };
     }
   }
 
@@ -308,9 +614,13 @@ export class AgentOrchestrator {
     logger.info('Shutting down agent orchestrator...');
 
     if (this.sessionManager) {
-      const stats = this.sessionManager.getStatistics();
+      const stats = await this.sessionManager.getStatistics();
       logger.info({ stats }, 'Session statistics at shutdown');
-      this.sessionManager.clearAllSessions();
+
+      // Persistent sessions must outlive this worker
+      if (!this.sessionManager.isPersistent()) {
+        await this.sessionManager.clearAllSessions();
+      }
     }
 
     this.mcpClient = null;
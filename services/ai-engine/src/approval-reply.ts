@@ -0,0 +1,49 @@
+export interface ApprovalReply {
+  decision: 'approve' | 'reject';
+  once: boolean; // Allow this action only, without whitelisting (anything but an explicit "YES <id>")
+  approvalId?: number; // Specific approval; defaults to the most recent one
+}
+
+const APPROVE_WORDS = ['yes', 'y', 'ya', 'iya', 'ok', 'oke', 'boleh'];
+const REJECT_WORDS = ['no', 'n', 'tidak', 'tdk', 'jangan', 'batal'];
+const ONCE_WORDS = ['once', 'sekali'];
+// Only these, followed by the approval ID, whitelist the target permanently
+const WHITELIST_WORDS = ['yes', 'ya'];
+
+/**
+ * Parse a WhatsApp reply to a pending approval prompt
+ * Accepted forms: "YES", "YA", "OK", "YES SEKALI", "YES ONCE", "NO", "TIDAK", optionally followed by an approval ID ("YES 3", "NO #3")
+ * Approving allows the action once, unless the reply is an explicit "YES <id>" / "YA <id>" without "SEKALI"
+ */
+export function parseApprovalReply(body: string): ApprovalReply | null {
+  const words = body.toLowerCase().replace(/[.!,]/g, ' ').trim().split(/\s+/);
+  if (words.length === 0 || words.length > 3) {
+    return null;
+  }
+
+  const [first, ...rest] = words;
+  const approve = APPROVE_WORDS.includes(first);
+  if (!approve && !REJECT_WORDS.includes(first)) {
+    return null;
+  }
+
+  let once = !WHITELIST_WORDS.includes(first);
+  let approvalId: number | undefined;
+
+  for (const word of rest) {
+    if (ONCE_WORDS.includes(word) && approve) {
+      once = true;
+    } else if (/^#?\d+$/.test(word)) {
+      approvalId = parseInt(word.replace('#', ''), 10);
+    } else {
+      // Anything else is a normal sentence, not an approval reply
+      return null;
+    }
+  }
+
+  if (approvalId === undefined) {
+    once = true;
+  }
+
+  return { decision: approve ? 'approve' : 'reject', once, approvalId };
+}
@@ -0,0 +1,12 @@
+/**
+ * Whether an event that failed with this error is worth retrying
+ * Client errors from the LLM provider (bad request, auth, context too long) fail the same way again;
+ * timeouts, rate limits, server errors and Redis or network failures usually pass on a later attempt.
+ */
+export function isRetryableError(error: any): boolean {
+  const status = error?.status ?? error?.statusCode ?? error?.response?.status;
+  if (typeof status === 'number' && status >= 400 && status < 500) {
+    return status === 408 || status === 409 || status === 429;
+  }
+  return true;
+}
@@ -0,0 +1,26 @@
+import { WhatsAppMessage } from '@aspri/types';
+
+/**
+ * Decide whether a group message is addressed to the assistant
+ * It is when it mentions the assistant's account or starts with the trigger prefix (e.g. "!ai").
+ * Returns the text without the mention and prefix, or null when the message is not for the assistant.
+ */
+export function parseGroupTrigger(message: WhatsAppMessage, prefix: string): string | null {
+  // For incoming messages, "to" is the assistant's own account
+  const ownNumber = message.to.replace(/@.*$/, '');
+  let body = message.body.trim();
+  let triggered = false;
+
+  if (message.mentionsMe) {
+    triggered = true;
+    body = body.split(`@${ownNumber}`).join(' ').replace(/[ \t]+/g, ' ').trim();
+  }
+
+  if (prefix && body.toLowerCase().startsWith(prefix.toLowerCase())) {
+    triggered = true;
+    body = body.slice(prefix.length).trim();
+  }
+
+  // A bare mention or prefix has nothing to answer
+  return triggered && body ? body : null;
+}
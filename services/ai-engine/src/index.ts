@@ -2,23 +2,36 @@
 
 import 'dotenv/config';
 import { createLogger } from '@aspri/logger';
-import { EventConsumer } from '@aspri/utils';
-import { WhatsAppMessageEvent, CronjobEvent } from '@aspri/types';
+import { EventConsumer, EventPublisher } from '@aspri/utils';
+import { WhatsAppMessageEvent, CronjobEvent, CronjobResultEvent } from '@aspri/types';
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
 import { AgentOrchestrator } from './agent.js';
+import { isRetryableError } from './errors.js';
 
 const logger = createLogger('ai-engine');
 
+// Unique per process so several workers can share the 'ai-engine' consumer group
+const WORKER_ID = process.env.AI_WORKER_ID || `ai-worker-${hostname()}-${process.pid}`;
+const WORKER_CONCURRENCY = parseInt(process.env.AI_WORKER_CONCURRENCY || '4');
+
 async function main() {
   try {
-    logger.info('Starting AI Engine...');
+    logger.info({ workerId: WORKER_ID, concurrency: WORKER_CONCURRENCY }, 'Starting AI Engine...');
 
     // Initialize Agent Orchestrator
     const agent = new AgentOrchestrator();
     await agent.initialize();
 
+    // Publisher used to report cronjob run outcomes back to the cronjob service
+    const eventPublisher = new EventPublisher();
+    await eventPublisher.initialize();
+    const resultStreamName = process.env.CRONJOB_RESULT_STREAM_NAME || 'cronjob:results';
+
     logger.info('Starting event consumption...');
 
     // Consume WhatsApp events
+    // A handler that throws leaves the event pending: it is retried with backoff, then dead-lettered
     const whatsappConsumer = new EventConsumer();
     await whatsappConsumer.initialize();
     whatsappConsumer.on('whatsapp:message', async (event) => {
@@ -26,7 +39,10 @@ async function main() {
       try {
         await agent.handleWhatsAppMessage(whatsappEvent.data);
       } catch (error) {
-        logger.error({ error }, 'Error handling WhatsApp message');
+        if (isRetryableError(error)) {
+          throw error;
+        }
+        logger.error({ error, eventId: event.eventId }, 'WhatsApp message failed permanently, not retrying');
       }
     });
 
@@ -35,10 +51,26 @@ async function main() {
     await cronjobConsumer.initialize();
     cronjobConsumer.on('cronjob:trigger', async (event) => {
       const cronjobEvent = event as CronjobEvent;
+      const result = await agent.handleCronjobTrigger(cronjobEvent.data);
+
+      // Reporting is best-effort: retrying would run the job again
       try {
-        await agent.handleCronjobTrigger(cronjobEvent.data);
+        const resultEvent: CronjobResultEvent = {
+          eventId: randomUUID(),
+          type: 'cronjob:result',
+          source: 'ai-engine',
+          timestamp: Date.now(),
+          data: {
+            jobId: cronjobEvent.data.jobId,
+            eventId: cronjobEvent.eventId,
+            outcome: result.outcome,
+            detail: result.detail,
+            completedAt: Date.now(),
+          },
+        };
+        await eventPublisher.publish(resultStreamName, resultEvent);
       } catch (error) {
-        logger.error({ error }, 'Error handling cronjob trigger');
+        logger.error({ error, jobId: cronjobEvent.data.jobId }, 'Failed to report cronjob outcome');
       }
     });
 
@@ -47,12 +79,17 @@ async function main() {
       whatsappConsumer.start({
         streamName: process.env.WHATSAPP_STREAM_NAME || 'whatsapp:messages',
         groupName: 'ai-engine',
-        consumerName: 'ai-worker-1',
+        consumerName: WORKER_ID,
+        concurrency: WORKER_CONCURRENCY,
+        // Messages from the same chat are handled in order, different chats in parallel
+        partitionKey: (event) => (event as WhatsAppMessageEvent).data?.from,
       }),
       cronjobConsumer.start({
         streamName: process.env.CRONJOB_STREAM_NAME || 'cronjob:events',
         groupName: 'ai-engine',
-        consumerName: 'ai-worker-1',
+        consumerName: WORKER_ID,
+        concurrency: WORKER_CONCURRENCY,
+        partitionKey: (event) => (event as CronjobEvent).data?.jobId,
       }),
     ]).catch((error) => {
       logger.error({ error }, 'Error in event consumption');
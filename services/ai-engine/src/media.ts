@@ -0,0 +1,195 @@
+import { PDFParse } from 'pdf-parse';
+import { createLogger } from '@aspri/logger';
+import { MediaTranscript, WhatsAppMedia, WhatsAppMessage } from '@aspri/types';
+import { mediaStore } from '@aspri/utils';
+import { SpeechToText } from './speech-to-text.js';
+
+const logger = createLogger('media');
+
+// Image formats accepted by the multimodal LLM providers
+const IMAGE_MIMETYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
+
+// Documents read as plain text
+const TEXT_MIMETYPES = ['application/json', 'application/xml', 'application/csv'];
+
+/**
+ * Image passed to a multimodal LLM for the current turn
+ */
+export interface ImageInput {
+  mimetype: string;
+  data: string; // Base64
+}
+
+/**
+ * A message turned into LLM input
+ * text is what the session keeps; images are only sent with the current turn
+ */
+export interface PreparedMessage {
+  text: string;
+  images: ImageInput[];
+  unclearTranscript?: string; // Voice note transcribed below STT_MIN_CONFIDENCE; confirm with the user first
+}
+
+export interface PrepareOptions {
+  vision: boolean;                    // LLM accepts images
+  speechToText: SpeechToText | null;  // null = transcription off
+}
+
+/**
+ * Turn a media message into LLM input
+ * Images are passed to the LLM when it supports vision, voice notes are transcribed,
+ * PDFs and text documents are inlined as text, and other media is described so the AI can tell the user what it cannot read.
+ */
+export async function prepareMessage(
+  message: WhatsAppMessage,
+  body: string,
+  options: PrepareOptions
+): Promise<PreparedMessage> {
+  if (!message.hasMedia) {
+    return { text: body, images: [] };
+  }
+
+  const kind = describeKind(message);
+  const stored = message.media ? await mediaStore.get(message.media.blobId) : null;
+  if (!stored) {
+    return { text: withCaption(`[${kind} attached, but it could not be downloaded]`, body), images: [] };
+  }
+
+  const { media, data } = stored;
+  // The blob ID lets the AI forward the media with whatsapp_send_media
+  const label = `${media.filename ? `${kind}: ${media.filename}` : kind}, blobId ${media.blobId}`;
+
+  if (IMAGE_MIMETYPES.includes(media.mimetype)) {
+    if (!options.vision) {
+      return { text: withCaption(`[${label} attached; this model cannot view images]`, body), images: [] };
+    }
+    return {
+      text: withCaption(`[${label}]`, body),
+      images: [{ mimetype: media.mimetype, data: data.toString('base64') }],
+    };
+  }
+
+  if (media.mimetype.startsWith('audio/')) {
+    return prepareAudio(media, data, label, body, options.speechToText);
+  }
+
+  let documentText: string | null;
+  try {
+    documentText = await extractText(media, data);
+  } catch (error) {
+    // A damaged or encrypted file, unlike a scanned one that parses but has no text
+    logger.warn({ error, blobId: media.blobId, mimetype: media.mimetype }, 'Failed to extract text from document');
+    return { text: withCaption(`[${label} attached, but it could not be read]`, body), images: [] };
+  }
+  if (documentText !== null) {
+    return { text: withCaption(`[${label}]\n${formatDocument(documentText)}`, body), images: [] };
+  }
+
+  return { text: withCaption(`[${label} (${media.mimetype}) attached; its content cannot be read]`, body), images: [] };
+}
+
+/**
+ * Transcribe a voice note or audio message
+ * The transcript is stored next to the blob, so a redelivered message is not transcribed again
+ */
+async function prepareAudio(
+  media: WhatsAppMedia,
+  data: Buffer,
+  label: string,
+  body: string,
+  speechToText: SpeechToText | null
+): Promise<PreparedMessage> {
+  if (!speechToText) {
+    return { text: withCaption(`[${label} attached; transcription is not enabled]`, body), images: [] };
+  }
+
+  let transcript = await mediaStore.getTranscript(media.blobId);
+  if (!transcript) {
+    try {
+      const result = await speechToText.transcribe(data, media.mimetype);
+      transcript = { ...result, engine: speechToText.name, createdAt: Date.now() };
+      await mediaStore.putTranscript(media.blobId, transcript);
+    } catch (error) {
+      logger.error({ error, blobId: media.blobId, engine: speechToText.name }, 'Failed to transcribe audio');
+      return { text: withCaption(`[${label} attached, but it could not be transcribed]`, body), images: [] };
+    }
+  }
+
+  if (!transcript.text) {
+    return { text: withCaption(`[${label} attached, but no speech was recognized]`, body), images: [] };
+  }
+
+  return {
+    text: withCaption(`[${label}, transcribed]: ${transcript.text}`, body),
+    images: [],
+    unclearTranscript: isUnclear(transcript) ? transcript.text : undefined,
+  };
+}
+
+function isUnclear(transcript: MediaTranscript): boolean {
+  const minConfidence = parseFloat(process.env.STT_MIN_CONFIDENCE || '0.6');
+  return transcript.confidence !== undefined && transcript.confidence < minConfidence;
+}
+
+/**
+ * Text of a PDF or text document, or null for other media
+ * Throws when the document cannot be parsed
+ */
+async function extractText(media: WhatsAppMedia, data: Buffer): Promise<string | null> {
+  if (media.mimetype === 'application/pdf') {
+    const parser = new PDFParse({ data });
+    try {
+      const result = await parser.getText();
+      return result.text;
+    } finally {
+      await parser.destroy();
+    }
+  }
+
+  if (media.mimetype.startsWith('text/') || TEXT_MIMETYPES.includes(media.mimetype)) {
+    return data.toString('utf-8');
+  }
+
+  return null;
+}
+
+/**
+ * Wrap document text in markers, truncated to MEDIA_MAX_DOCUMENT_CHARS
+ */
+function formatDocument(text: string): string {
+  const maxChars = parseInt(process.env.MEDIA_MAX_DOCUMENT_CHARS || '20000');
+  const trimmed = text.trim();
+
+  if (!trimmed) {
+    return '(no readable text, e.g. a scanned document)';
+  }
+
+  const content = trimmed.length > maxChars
+    ? `${trimmed.slice(0, maxChars)}\n[... truncated, ${trimmed.length - maxChars} more characters]`
+    : trimmed;
+
+  return `--- document start ---\n${content}\n--- document end ---`;
+}
+
+function describeKind(message: WhatsAppMessage): string {
+  switch (message.type) {
+    case 'image':
+      return 'Image';
+    case 'sticker':
+      return 'Sticker';
+    case 'ptt':
+      return 'Voice note';
+    case 'audio':
+      return 'Audio';
+    case 'video':
+      return 'Video';
+    case 'document':
+      return 'Document';
+    default:
+      return 'File';
+  }
+}
+
+function withCaption(text: string, caption: string): string {
+  return caption ? `${text}\n${caption}` : text;
+}
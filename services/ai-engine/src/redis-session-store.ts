@@ -0,0 +1,187 @@
+import { RedisClientType } from 'redis';
+import {
+  BaseMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+  StoredMessage,
+} from '@langchain/core/messages';
+import { createLogger } from '@aspri/logger';
+import { getRedisClient } from '@aspri/utils';
+import { ChatSession, SessionConfig, SessionStore, dropOrphanToolMessages } from './session-store.js';
+
+const logger = createLogger('redis-session-store');
+
+/**
+ * Redis-backed session store shared by all ai-engine workers
+ *
+ * Key layout (per chat):
+ * - {prefix}:{chatId}:messages  LIST of serialized BaseMessage (oldest first)
+ * - {prefix}:{chatId}:meta      HASH with chatId, userName, startTime, lastActivity, messageCount
+ *
+ * historyLimit is enforced with LTRIM, timeoutMinutes with a sliding TTL on both keys.
+ */
+export class RedisSessionStore implements SessionStore {
+  private redis: RedisClientType | null = null;
+  private readonly prefix: string;
+
+  constructor(private config: SessionConfig, prefix?: string) {
+    this.prefix = prefix || process.env.SESSION_KEY_PREFIX || 'session';
+  }
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+    logger.info({ prefix: this.prefix }, 'RedisSessionStore initialized');
+  }
+
+  async getSession(chatId: string): Promise<ChatSession | null> {
+    const redis = this.getClient();
+    const [meta, rawMessages] = await Promise.all([
+      redis.hGetAll(this.metaKey(chatId)),
+      redis.lRange(this.messagesKey(chatId), 0, -1),
+    ]);
+
+    if (!meta || Object.keys(meta).length === 0) {
+      return null;
+    }
+
+    return {
+      chatId,
+      messages: dropOrphanToolMessages(this.deserialize(chatId, rawMessages)),
+      lastActivity: new Date(parseInt(meta.lastActivity)),
+      metadata: {
+        userName: meta.userName || undefined,
+        startTime: new Date(parseInt(meta.startTime)),
+        messageCount: parseInt(meta.messageCount) || 0,
+      },
+    };
+  }
+
+  async createSession(chatId: string, userName?: string): Promise<ChatSession> {
+    const redis = this.getClient();
+    const now = Date.now();
+    const meta: Record<string, string> = {
+      chatId,
+      startTime: now.toString(),
+      lastActivity: now.toString(),
+      messageCount: '0',
+    };
+    if (userName) {
+      meta.userName = userName;
+    }
+
+    await redis
+      .multi()
+      .del(this.messagesKey(chatId))
+      .del(this.metaKey(chatId))
+      .hSet(this.metaKey(chatId), meta)
+      .expire(this.metaKey(chatId), this.ttlSeconds())
+      .exec();
+
+    return {
+      chatId,
+      messages: [],
+      lastActivity: new Date(now),
+      metadata: {
+        userName,
+        startTime: new Date(now),
+        messageCount: 0,
+      },
+    };
+  }
+
+  async appendMessages(chatId: string, messages: BaseMessage[]): Promise<number> {
+    const redis = this.getClient();
+    const now = Date.now().toString();
+    const serialized = mapChatMessagesToStoredMessages(messages).map((m) => JSON.stringify(m));
+    const ttl = this.ttlSeconds();
+
+    // Single transaction so concurrent workers never observe a half-written turn
+    const multi = redis.multi();
+    if (serialized.length > 0) {
+      multi.rPush(this.messagesKey(chatId), serialized);
+    }
+    const results = await multi
+      .lTrim(this.messagesKey(chatId), -this.config.historyLimit, -1)
+      .hSetNX(this.metaKey(chatId), 'chatId', chatId)
+      .hSetNX(this.metaKey(chatId), 'startTime', now)
+      .hSet(this.metaKey(chatId), 'lastActivity', now)
+      .hIncrBy(this.metaKey(chatId), 'messageCount', messages.length)
+      .expire(this.messagesKey(chatId), ttl)
+      .expire(this.metaKey(chatId), ttl)
+      .lLen(this.messagesKey(chatId))
+      .exec();
+
+    return Number(results[results.length - 1]);
+  }
+
+  async deleteSession(chatId: string): Promise<boolean> {
+    const redis = this.getClient();
+    const deleted = await redis.del([this.messagesKey(chatId), this.metaKey(chatId)]);
+    return deleted > 0;
+  }
+
+  async deleteAllSessions(): Promise<number> {
+    const chatIds = await this.listChatIds();
+    for (const chatId of chatIds) {
+      await this.deleteSession(chatId);
+    }
+    return chatIds.length;
+  }
+
+  async listSessions(): Promise<ChatSession[]> {
+    const chatIds = await this.listChatIds();
+    const sessions = await Promise.all(chatIds.map((chatId) => this.getSession(chatId)));
+    return sessions.filter((s): s is ChatSession => s !== null);
+  }
+
+  async cleanupExpiredSessions(): Promise<number> {
+    // Redis expires inactive sessions on its own via TTL
+    return 0;
+  }
+
+  private async listChatIds(): Promise<string[]> {
+    const redis = this.getClient();
+    const chatIds: string[] = [];
+
+    for await (const key of redis.scanIterator({ MATCH: `${this.prefix}:*:meta`, COUNT: 100 })) {
+      // chatId may itself contain ':' so read it from the hash instead of parsing the key
+      const chatId = await redis.hGet(key, 'chatId');
+      if (chatId) {
+        chatIds.push(chatId);
+      }
+    }
+
+    return chatIds;
+  }
+
+  private deserialize(chatId: string, rawMessages: string[]): BaseMessage[] {
+    const stored: StoredMessage[] = [];
+    for (const raw of rawMessages) {
+      try {
+        stored.push(JSON.parse(raw));
+      } catch (error) {
+        logger.error({ error, chatId }, 'Failed to parse stored message, skipping');
+      }
+    }
+    return mapStoredMessagesToChatMessages(stored);
+  }
+
+  private ttlSeconds(): number {
+    return this.config.timeoutMinutes * 60;
+  }
+
+  private messagesKey(chatId: string): string {
+    return `${this.prefix}:${chatId}:messages`;
+  }
+
+  private metaKey(chatId: string): string {
+    return `${this.prefix}:${chatId}:meta`;
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('RedisSessionStore not initialized');
+    }
+    return this.redis;
+  }
+}
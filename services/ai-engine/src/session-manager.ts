@@ -1,175 +1,147 @@
 import { BaseMessage, HumanMessage, AIMessage } from '@langchain/core/messages';
 import { createLogger } from '@aspri/logger';
+import { ChatSession, SessionConfig, SessionStore, InMemorySessionStore } from './session-store.js';
+import { RedisSessionStore } from './redis-session-store.js';
 
 const logger = createLogger('session-manager');
 
-export interface ChatSession {
-  chatId: string;
-  messages: BaseMessage[];
-  lastActivity: Date;
-  metadata: {
-    userName?: string;
-    startTime: Date;
-    messageCount: number;
-  };
-}
+export type { ChatSession, SessionConfig } from './session-store.js';
 
-export interface SessionConfig {
-  historyLimit: number;
-  timeoutMinutes: number;
-}
+type SessionStoreType = 'memory' | 'redis';
 
 export class SessionManager {
-  private sessions: Map<string, ChatSession> = new Map();
+  private store: SessionStore | null;
   private config: SessionConfig;
+  private storeType: SessionStoreType;
 
-  constructor(config?: Partial<SessionConfig>) {
+  constructor(config?: Partial<SessionConfig>, store?: SessionStore) {
     this.config = {
       historyLimit: config?.historyLimit ?? parseInt(process.env.SESSION_HISTORY_LIMIT || '50'),
       timeoutMinutes: config?.timeoutMinutes ?? parseInt(process.env.SESSION_TIMEOUT_MINUTES || '60'),
     };
-
-    logger.info({ config: this.config }, 'SessionManager initialized');
+    this.storeType = (process.env.SESSION_STORE || 'redis').toLowerCase() as SessionStoreType;
+    this.store = store ?? null;
   }
 
-  getOrCreateSession(chatId: string, userName?: string): ChatSession {
-    let session = this.sessions.get(chatId);
-
-    if (!session) {
-      logger.info({ chatId, userName }, 'Creating new session');
-      session = {
-        chatId,
-        messages: [],
-        lastActivity: new Date(),
-        metadata: {
-          userName,
-          startTime: new Date(),
-          messageCount: 0,
-        },
-      };
-      this.sessions.set(chatId, session);
-    } else {
-      session.lastActivity = new Date();
-
-      if (this.isSessionExpired(session)) {
-        logger.info({ chatId }, 'Session expired, creating new session');
-        session = {
-          chatId,
-          messages: [],
-          lastActivity: new Date(),
-          metadata: {
-            userName,
-            startTime: new Date(),
-            messageCount: 0,
-          },
-        };
-        this.sessions.set(chatId, session);
+  /**
+   * Connect the configured session store
+   * Must be called before any other method
+   */
+  async initialize(): Promise<void> {
+    if (!this.store) {
+      if (this.storeType === 'memory') {
+        this.store = new InMemorySessionStore(this.config);
+      } else if (this.storeType === 'redis') {
+        const redisStore = new RedisSessionStore(this.config);
+        await redisStore.initialize();
+        this.store = redisStore;
+      } else {
+        throw new Error(`Unsupported session store: ${this.storeType}`);
       }
     }
 
-    return session;
+    logger.info({ config: this.config, store: this.store.constructor.name }, 'SessionManager initialized');
   }
 
-  addUserMessage(chatId: string, message: string): void {
-    const session = this.getOrCreateSession(chatId);
+  /**
+   * Whether sessions survive a restart and are shared between workers
+   */
+  isPersistent(): boolean {
+    return !(this.getStore() instanceof InMemorySessionStore);
+  }
 
-    session.messages.push(new HumanMessage(message));
-    session.metadata.messageCount++;
-    session.lastActivity = new Date();
+  async getOrCreateSession(chatId: string, userName?: string): Promise<ChatSession> {
+    const store = this.getStore();
+    const session = await store.getSession(chatId);
 
-    this.trimSessionHistory(session);
+    if (session) {
+      return session;
+    }
 
-    logger.debug({ chatId, messageCount: session.messages.length }, 'User message added');
+    logger.info({ chatId, userName }, 'Creating new session');
+    return await store.createSession(chatId, userName);
   }
 
-  addAIMessage(chatId: string, message: string): void {
-    const session = this.sessions.get(chatId);
+  async addUserMessage(chatId: string, message: string): Promise<void> {
+    await this.getOrCreateSession(chatId);
+    const messageCount = await this.getStore().appendMessages(chatId, [new HumanMessage(message)]);
+
+    logger.debug({ chatId, messageCount }, 'User message added');
+  }
+
+  async addAIMessage(chatId: string, message: string): Promise<void> {
+    await this.addMessages(chatId, [new AIMessage(message)]);
+  }
+
+  /**
+   * Append the messages produced by one agent turn
+   * (AI messages with tool calls, tool results, and the final AI reply)
+   */
+  async addMessages(chatId: string, messages: BaseMessage[]): Promise<void> {
+    const store = this.getStore();
+    const session = await store.getSession(chatId);
     if (!session) {
       logger.warn({ chatId }, 'Attempted to add AI message to non-existent session');
       return;
     }
 
-    session.messages.push(new AIMessage(message));
-    session.metadata.messageCount++;
-    session.lastActivity = new Date();
-
-    this.trimSessionHistory(session);
+    const messageCount = await store.appendMessages(chatId, messages);
 
-    logger.debug({ chatId, messageCount: session.messages.length }, 'AI message added');
+    logger.debug({ chatId, added: messages.length, messageCount }, 'AI messages added');
   }
 
-  getMessages(chatId: string): BaseMessage[] {
-    const session = this.sessions.get(chatId);
+  async getMessages(chatId: string): Promise<BaseMessage[]> {
+    const session = await this.getStore().getSession(chatId);
     return session ? [...session.messages] : [];
   }
 
-  clearSession(chatId: string): void {
-    const deleted = this.sessions.delete(chatId);
+  async clearSession(chatId: string): Promise<void> {
+    const deleted = await this.getStore().deleteSession(chatId);
     if (deleted) {
       logger.info({ chatId }, 'Session cleared');
     }
   }
 
-  clearAllSessions(): void {
-    const count = this.sessions.size;
-    this.sessions.clear();
+  async clearAllSessions(): Promise<void> {
+    const count = await this.getStore().deleteAllSessions();
     logger.info({ count }, 'All sessions cleared');
   }
 
-  getSessionInfo(chatId: string): ChatSession | null {
-    return this.sessions.get(chatId) || null;
+  async getSessionInfo(chatId: string): Promise<ChatSession | null> {
+    return await this.getStore().getSession(chatId);
   }
 
-  getAllSessions(): ChatSession[] {
-    return Array.from(this.sessions.values());
+  async getAllSessions(): Promise<ChatSession[]> {
+    return await this.getStore().listSessions();
   }
 
-  cleanupInactiveSessions(): number {
-    const now = new Date();
-    let cleaned = 0;
-
-    for (const [chatId, session] of this.sessions.entries()) {
-      if (this.isSessionExpired(session, now)) {
-        this.sessions.delete(chatId);
-        cleaned++;
-        logger.info({ chatId, lastActivity: session.lastActivity }, 'Session expired and cleaned');
-      }
-    }
+  async cleanupInactiveSessions(): Promise<number> {
+    const cleaned = await this.getStore().cleanupExpiredSessions();
 
     if (cleaned > 0) {
-      logger.info({ cleaned, remaining: this.sessions.size }, 'Inactive sessions cleaned up');
+      logger.info({ cleaned }, 'Inactive sessions cleaned up');
     }
 
     return cleaned;
   }
 
-  private isSessionExpired(session: ChatSession, now: Date = new Date()): boolean {
-    const timeoutMs = this.config.timeoutMinutes * 60 * 1000;
-    const inactiveMs = now.getTime() - session.lastActivity.getTime();
-    return inactiveMs > timeoutMs;
-  }
-
-  private trimSessionHistory(session: ChatSession): void {
-    if (session.messages.length > this.config.historyLimit) {
-      const toRemove = session.messages.length - this.config.historyLimit;
-      session.messages.splice(0, toRemove);
-
-      logger.debug(
-        { chatId: session.chatId, removed: toRemove, remaining: session.messages.length },
-        'Session history trimmed'
-      );
-    }
-  }
-
-  getStatistics() {
-    const sessions = Array.from(this.sessions.values());
+  async getStatistics() {
+    const sessions = await this.getAllSessions();
     return {
       totalSessions: sessions.length,
       totalMessages: sessions.reduce((sum, s) => sum + s.messages.length, 0),
       oldestSession: sessions.reduce((oldest, s) =>
         !oldest || s.metadata.startTime < oldest.metadata.startTime ? s : oldest
       , null as ChatSession | null),
+      store: this.getStore().constructor.name,
       config: this.config,
     };
   }
+
+  private getStore(): SessionStore {
+    if (!this.store) {
+      throw new Error('SessionManager not initialized');
+    }
+    return this.store;
+  }
 }
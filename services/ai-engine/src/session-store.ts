@@ -0,0 +1,159 @@
+import { BaseMessage, ToolMessage } from '@langchain/core/messages';
+import { createLogger } from '@aspri/logger';
+
+const logger = createLogger('session-store');
+
+export interface ChatSession {
+  chatId: string;
+  messages: BaseMessage[];
+  lastActivity: Date;
+  metadata: {
+    userName?: string;
+    startTime: Date;
+    messageCount: number;
+  };
+}
+
+export interface SessionConfig {
+  historyLimit: number;
+  timeoutMinutes: number;
+}
+
+/**
+ * Storage backend for chat sessions
+ * Implementations are responsible for enforcing historyLimit and timeoutMinutes
+ */
+export interface SessionStore {
+  /**
+   * Get a session, or null if it does not exist or has expired
+   */
+  getSession(chatId: string): Promise<ChatSession | null>;
+
+  /**
+   * Create an empty session, replacing any existing one
+   */
+  createSession(chatId: string, userName?: string): Promise<ChatSession>;
+
+  /**
+   * Append messages to a session and refresh its activity timestamp
+   * Returns the number of messages kept in history
+   */
+  appendMessages(chatId: string, messages: BaseMessage[]): Promise<number>;
+
+  deleteSession(chatId: string): Promise<boolean>;
+
+  deleteAllSessions(): Promise<number>;
+
+  listSessions(): Promise<ChatSession[]>;
+
+  /**
+   * Remove expired sessions, returns number of sessions removed
+   */
+  cleanupExpiredSessions(): Promise<number>;
+}
+
+/**
+ * Drop tool results at the start of history whose originating tool call was trimmed away
+ * LLM providers reject a ToolMessage that does not follow its AI tool call
+ */
+export function dropOrphanToolMessages(messages: BaseMessage[]): BaseMessage[] {
+  let start = 0;
+  while (start < messages.length && ToolMessage.isInstance(messages[start])) {
+    start++;
+  }
+  return start > 0 ? messages.slice(start) : messages;
+}
+
+/**
+ * Process-local session store
+ * Sessions are lost on restart and are not shared between workers
+ */
+export class InMemorySessionStore implements SessionStore {
+  private sessions: Map<string, ChatSession> = new Map();
+
+  constructor(private config: SessionConfig) {}
+
+  async getSession(chatId: string): Promise<ChatSession | null> {
+    const session = this.sessions.get(chatId);
+    if (!session) {
+      return null;
+    }
+
+    if (this.isSessionExpired(session)) {
+      this.sessions.delete(chatId);
+      return null;
+    }
+
+    return session;
+  }
+
+  async createSession(chatId: string, userName?: string): Promise<ChatSession> {
+    const session: ChatSession = {
+      chatId,
+      messages: [],
+      lastActivity: new Date(),
+      metadata: {
+        userName,
+        startTime: new Date(),
+        messageCount: 0,
+      },
+    };
+    this.sessions.set(chatId, session);
+    return session;
+  }
+
+  async appendMessages(chatId: string, messages: BaseMessage[]): Promise<number> {
+    const session = (await this.getSession(chatId)) ?? (await this.createSession(chatId));
+
+    session.messages.push(...messages);
+    session.metadata.messageCount += messages.length;
+    session.lastActivity = new Date();
+
+    if (session.messages.length > this.config.historyLimit) {
+      const toRemove = session.messages.length - this.config.historyLimit;
+      session.messages = dropOrphanToolMessages(session.messages.slice(toRemove));
+
+      logger.debug(
+        { chatId, removed: toRemove, remaining: session.messages.length },
+        'Session history trimmed'
+      );
+    }
+
+    return session.messages.length;
+  }
+
+  async deleteSession(chatId: string): Promise<boolean> {
+    return this.sessions.delete(chatId);
+  }
+
+  async deleteAllSessions(): Promise<number> {
+    const count = this.sessions.size;
+    this.sessions.clear();
+    return count;
+  }
+
+  async listSessions(): Promise<ChatSession[]> {
+    return Array.from(this.sessions.values());
+  }
+
+  async cleanupExpiredSessions(): Promise<number> {
+    const now = new Date();
+    let cleaned = 0;
+
+    for (const [chatId, session] of this.sessions.entries()) {
+      if (this.isSessionExpired(session, now)) {
+        this.sessions.delete(chatId);
+        cleaned++;
+        logger.info({ chatId, lastActivity: session.lastActivity }, 'Session expired and cleaned');
+      }
+    }
+
+    return cleaned;
+  }
+
+  private isSessionExpired(session: ChatSession, now: Date = new Date()): boolean {
+    const timeoutMs = this.config.timeoutMinutes * 60 * 1000;
+    const inactiveMs = now.getTime() - session.lastActivity.getTime();
+    return inactiveMs > timeoutMs;
+  }
+}
@@ -0,0 +1,61 @@
+import { createLogger } from '@aspri/logger';
+import { WhisperCppSpeechToText } from './whisper-cpp-speech-to-text.js';
+
+const logger = createLogger('speech-to-text');
+
+export interface Transcription {
+  text: string;
+  confidence?: number;  // 0..1, if the backend reports one
+  language?: string;    // Detected or configured language
+}
+
+/**
+ * Speech-to-text backend for voice notes and audio messages
+ */
+export interface SpeechToText {
+  readonly name: string;
+
+  /**
+   * Transcribe audio as received from WhatsApp (e.g. "audio/ogg; codecs=opus")
+   */
+  transcribe(audio: Buffer, mimetype: string): Promise<Transcription>;
+}
+
+type SpeechToTextBackend = 'none' | 'whisper-cpp' | 'stub';
+
+/**
+ * Fixed transcription, for tests and local development without a model
+ */
+export class StubSpeechToText implements SpeechToText {
+  readonly name = 'stub';
+
+  constructor(private result: Transcription = {
+    text: process.env.STT_STUB_TEXT || 'Halo, ini pesan suara percobaan.',
+    confidence: parseFloat(process.env.STT_STUB_CONFIDENCE || '1'),
+  }) {}
+
+  async transcribe(audio: Buffer, mimetype: string): Promise<Transcription> {
+    return { ...this.result };
+  }
+}
+
+/**
+ * Create the backend configured by STT_BACKEND, or null when transcription is off
+ */
+export function createSpeechToText(backend: string = process.env.STT_BACKEND || 'none'): SpeechToText | null {
+  const type = backend.toLowerCase() as SpeechToTextBackend;
+  let speechToText: SpeechToText | null;
+
+  if (type === 'none') {
+    speechToText = null;
+  } else if (type === 'whisper-cpp') {
+    speechToText = new WhisperCppSpeechToText();
+  } else if (type === 'stub') {
+    speechToText = new StubSpeechToText();
+  } else {
+    throw new Error(`Unsupported speech-to-text backend: ${backend}`);
+  }
+
+  logger.info({ backend: speechToText?.name ?? 'none' }, 'Speech-to-text configured');
+  return speechToText;
+}
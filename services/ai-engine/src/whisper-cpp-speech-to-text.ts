@@ -0,0 +1,110 @@
+import { execFile } from 'child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import { createLogger } from '@aspri/logger';
+import type { SpeechToText, Transcription } from './speech-to-text.js';
+
+const logger = createLogger('whisper-cpp');
+const execFileAsync = promisify(execFile);
+
+export interface WhisperCppConfig {
+  binary: string;       // whisper.cpp CLI (whisper-cli, or main in older builds)
+  model: string;        // Path to a ggml model, e.g. ggml-base.bin
+  language: string;     // Spoken language, or "auto"
+  threads: number;
+  ffmpeg: string;       // Used to convert WhatsApp audio (ogg/opus) to 16 kHz WAV
+  timeoutMs: number;
+}
+
+/**
+ * Local CPU transcription with whisper.cpp
+ * Audio is converted with ffmpeg, then transcribed by the whisper.cpp CLI.
+ * Confidence is the mean probability of the transcribed tokens.
+ */
+export class WhisperCppSpeechToText implements SpeechToText {
+  readonly name = 'whisper-cpp';
+  private readonly config: WhisperCppConfig;
+
+  constructor(config?: Partial<WhisperCppConfig>) {
+    this.config = {
+      binary: config?.binary ?? process.env.WHISPER_CPP_BINARY ?? 'whisper-cli',
+      model: config?.model ?? process.env.WHISPER_CPP_MODEL ?? '',
+      language: config?.language ?? process.env.WHISPER_CPP_LANGUAGE ?? 'auto',
+      threads: config?.threads ?? parseInt(process.env.WHISPER_CPP_THREADS || '4'),
+      ffmpeg: config?.ffmpeg ?? process.env.FFMPEG_BINARY ?? 'ffmpeg',
+      timeoutMs: config?.timeoutMs ?? parseInt(process.env.STT_TIMEOUT_SECONDS || '120') * 1000,
+    };
+
+    if (!this.config.model) {
+      throw new Error('WHISPER_CPP_MODEL must be set to a ggml model file when STT_BACKEND=whisper-cpp');
+    }
+  }
+
+  async transcribe(audio: Buffer, mimetype: string): Promise<Transcription> {
+    const workDir = await mkdtemp(path.join(tmpdir(), 'aspri-stt-'));
+    const input = path.join(workDir, 'input');
+    const wav = path.join(workDir, 'audio.wav');
+    const output = path.join(workDir, 'transcript');
+    const startTime = Date.now();
+
+    try {
+      await writeFile(input, audio);
+
+      await execFileAsync(this.config.ffmpeg, [
+        '-nostdin', '-loglevel', 'error', '-y',
+        '-i', input,
+        '-ar', '16000', '-ac', '1', '-c:a', 'pcm_s16le',
+        wav,
+      ], { timeout: this.config.timeoutMs });
+
+      await execFileAsync(this.config.binary, [
+        '-m', this.config.model,
+        '-f', wav,
+        '-l', this.config.language,
+        '-t', String(this.config.threads),
+        '-np',
+        '-ojf',
+        '-of', output,
+      ], { timeout: this.config.timeoutMs, maxBuffer: 10 * 1024 * 1024 });
+
+      const result = parseWhisperOutput(JSON.parse(await readFile(`${output}.json`, 'utf-8')));
+
+      logger.info({
+        mimetype,
+        audioBytes: audio.length,
+        textLength: result.text.length,
+        confidence: result.confidence,
+        language: result.language,
+        durationMs: Date.now() - startTime
+      }, 'Audio transcribed');
+
+      return result;
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Read the transcript, language and mean token probability from whisper.cpp full JSON output
+ */
+function parseWhisperOutput(output: any): Transcription {
+  const segments: any[] = output.transcription || [];
+  const text = segments.map((segment) => segment.text).join('').replace(/\s+/g, ' ').trim();
+
+  // Special tokens ([_BEG_], [_TT_123], ...) carry no speech
+  const probabilities = segments
+    .flatMap((segment) => segment.tokens || [])
+    .filter((token: any) => typeof token.p === 'number' && !String(token.text).startsWith('[_'))
+    .map((token: any) => token.p as number);
+
+  return {
+    text,
+    confidence: probabilities.length > 0
+      ? probabilities.reduce((sum, p) => sum + p, 0) / probabilities.length
+      : undefined,
+    language: output.result?.language,
+  };
+}
@@ -1,37 +1,68 @@
-import { Router } from 'express';
-import { CronScheduler } from './cron-scheduler.js';
+import { Router, Request, Response } from 'express';
+import { CronScheduler, Requester } from './cron-scheduler.js';
 import { createLogger } from '@aspri/logger';
-import { ApiResponse, JobType, CronjobDefinition } from '@aspri/types';
-import { parseDateTime, formatDateTime, isDateTimeFormat } from './datetime-utils.js';
+import { ApiResponse, JobType, CronjobDefinition, JobRun } from '@aspri/types';
+import {
+  validatorRegistry,
+  userRegistry,
+  safeEqual,
+  isValidTimezone,
+  CronjobValidationInput,
+  ValidationResult,
+} from '@aspri/utils';
+import {
+  parseDateTime,
+  formatDateTime,
+  isDateTimeFormat,
+  parseIsoDateTime,
+  isIsoDateTimeFormat,
+  resolveTimezone,
+  DEFAULT_TIMEZONE,
+} from './datetime-utils.js';
 import { parseDuration, isDurationFormat, getFutureTimestamp } from './duration-utils.js';
+import { parseScheduledExpression } from './time-expression.js';
 
 const logger = createLogger('cronjob-api');
 
 /**
  * Convert job definition from internal format to API response format
- * Converts scheduledTime from milliseconds timestamp to yyyyMMddHHmmss string
+ * Converts scheduledTime from milliseconds timestamp to yyyyMMddHHmmss string in the job's timezone
  */
 function toApiFormat(job: CronjobDefinition): any {
-  const apiJob: any = { ...job };
+  const timezone = job.timezone || DEFAULT_TIMEZONE;
+  const apiJob: any = { ...job, timezone };
 
   // Convert scheduledTime to yyyyMMddHHmmss format for one-time jobs
   if (job.type === 'one-time' && job.scheduledTime) {
-    apiJob.scheduledTime = formatDateTime(job.scheduledTime);
+    apiJob.scheduledTime = formatDateTime(job.scheduledTime, timezone);
   }
 
   // Convert executedAt to yyyyMMddHHmmss format if exists
   if (job.executedAt) {
-    apiJob.executedAt = formatDateTime(job.executedAt);
+    apiJob.executedAt = formatDateTime(job.executedAt, timezone);
   }
 
   return apiJob;
 }
 
+/**
+ * Convert a job run to API response format
+ * Converts firedAt/completedAt to yyyyMMddHHmmss strings in the job's timezone
+ */
+function toRunApiFormat(run: JobRun, timezone: string): any {
+  return {
+    ...run,
+    firedAt: formatDateTime(run.firedAt, timezone),
+    completedAt: run.completedAt ? formatDateTime(run.completedAt, timezone) : undefined,
+  };
+}
+
 /**
  * Convert scheduledTime from API request format to internal format
- * Converts from yyyyMMddHHmmss string to milliseconds timestamp
+ * Converts from yyyyMMddHHmmss or ISO-8601 string to milliseconds timestamp
+ * Values without an explicit offset are interpreted in the given timezone
  */
-function parseScheduledTime(scheduledTime: any): number {
+function parseScheduledTime(scheduledTime: any, timezone: string): number {
   if (typeof scheduledTime === 'number') {
     // Already in milliseconds format (backward compatibility)
     return scheduledTime;
@@ -39,22 +70,106 @@ function parseScheduledTime(scheduledTime: any): number {
 
   if (isDateTimeFormat(scheduledTime)) {
     // Parse yyyyMMddHHmmss format
-    return parseDateTime(scheduledTime);
+    return parseDateTime(scheduledTime, timezone);
+  }
+
+  if (isIsoDateTimeFormat(scheduledTime)) {
+    // Parse ISO-8601 format (e.g., "2025-10-21T05:33:21+07:00")
+    return parseIsoDateTime(scheduledTime, timezone);
   }
 
   throw new Error(
-    `Invalid scheduledTime format. Expected "yyyyMMddHHmmss" format (e.g., "20251021053321"), ` +
-    `received: "${scheduledTime}"`
+    `Invalid scheduledTime format. Expected "yyyyMMddHHmmss" format (e.g., "20251021053321") ` +
+    `or ISO-8601 (e.g., "2025-10-21T05:33:21+07:00"), received: "${scheduledTime}"`
   );
 }
 
-export function createApiRouter(cronScheduler: CronScheduler): Router {
+// Fields a PATCH may change; the ID, owner, type, run state and timestamps are kept by the scheduler
+const UPDATABLE_FIELDS = ['name', 'schedule', 'scheduledTime', 'scheduledExpression', 'enabled', 'payload', 'timezone'];
+
+/**
+ * Get the requester of a request
+ * Every request must carry Authorization: Bearer <CRONJOB_API_TOKEN>. A token-holding service (MCP) names
+ * the user it acts for with X-User-Id; without it the request is internal. Anything else is rejected.
+ */
+function getRequester(req: Request, apiToken: string): Requester | null {
+  const provided = req.header('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!provided || !safeEqual(provided, apiToken)) {
+    return null;
+  }
+
+  const userId = req.header('x-user-id')?.trim();
+  return userId ? { type: 'user', userId } : { type: 'internal' };
+}
+
+/**
+ * Requester resolved by the router's authentication middleware
+ */
+function requesterOf(res: Response): Requester {
+  return res.locals.requester as Requester;
+}
+
+/**
+ * Check a job against the cron job validator of the requesting user
+ * Admins and internal services are not limited
+ * The active job limit only applies when the job becomes active
+ */
+async function validateJob(
+  cronScheduler: CronScheduler,
+  toolName: 'cronjob_create' | 'cronjob_update',
+  requester: Requester,
+  job: Pick<CronjobDefinition, 'name' | 'type' | 'schedule' | 'scheduledTime' | 'payload'> & { id?: string },
+  becomesActive: boolean
+): Promise<ValidationResult> {
+  if (requester.type === 'internal' || cronScheduler.isAdmin(requester.userId)) {
+    return { valid: true };
+  }
+
+  const input: CronjobValidationInput = {
+    type: job.type,
+    schedule: job.schedule,
+    scheduledTime: job.scheduledTime,
+    payload: job.payload,
+    activeJobCount: becomesActive ? cronScheduler.countActiveJobs(requester.userId, job.id) : 0,
+  };
+
+  return validatorRegistry.validate(toolName, job.name, { userId: requester.userId, additionalContext: input });
+}
+
+export function createApiRouter(cronScheduler: CronScheduler, apiToken: string): Router {
   const router = Router();
 
+  // Every request comes from an authenticated service, acting for a user or internally
+  router.use((req, res, next) => {
+    const requester = getRequester(req, apiToken);
+    if (!requester) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Invalid or missing service token', code: 'UNAUTHORIZED' },
+      } as ApiResponse);
+    }
+    res.locals.requester = requester;
+    next();
+  });
+
   // Create new job (recurring, one-time, or one-time-relative)
-  router.post('/jobs', (req, res) => {
+  router.post('/jobs', async (req, res) => {
     try {
-      const { name, type, schedule, scheduledTime, delayTime, enabled = true, payload } = req.body;
+      const { name, schedule, scheduledTime, delayTime, scheduledExpression, enabled = true, payload } = req.body;
+
+      // scheduledExpression alone implies a one-time job
+      const type = req.body.type || (scheduledExpression ? 'one-time' : undefined);
+      const requester = requesterOf(res);
+      const requesterId = requester.type === 'user' ? requester.userId : undefined;
+
+      // Regular users always own the jobs they create; admins and internal services may assign an owner
+      const ownerId = cronScheduler.isPrivileged(requester)
+        ? (req.body.ownerId || requesterId)
+        : requesterId;
+
+      // Explicit timezone, otherwise the owner's profile or configured timezone, otherwise the global default
+      const ownerProfile = ownerId ? await userRegistry.get(ownerId) : null;
+      const timezone: string = req.body.timezone || ownerProfile?.timezone || resolveTimezone(ownerId);
 
       logger.info({
         name,
@@ -62,7 +177,10 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
         schedule: schedule || null,
         scheduledTime: scheduledTime || null,
         delayTime: delayTime || null,
+        scheduledExpression: scheduledExpression || null,
+        timezone,
         enabled,
+        ownerId: ownerId || null,
         hasPayload: !!payload
       }, 'Received create job request');
 
@@ -83,6 +201,14 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
         } as ApiResponse);
       }
 
+      if (!isValidTimezone(timezone)) {
+        logger.warn({ requestBody: req.body, timezone }, 'Validation failed: invalid timezone');
+        return res.status(400).json({
+          success: false,
+          error: { message: `Invalid timezone: "${timezone}". Expected an IANA timezone such as "Asia/Jakarta"` },
+        } as ApiResponse);
+      }
+
       // Validate type-specific fields
       if (type === 'recurring' && !schedule) {
         logger.warn({ requestBody: req.body }, 'Validation failed: schedule required for recurring job');
@@ -92,11 +218,11 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
         } as ApiResponse);
       }
 
-      if (type === 'one-time' && !scheduledTime) {
+      if (type === 'one-time' && !scheduledTime && !scheduledExpression) {
         logger.warn({ requestBody: req.body }, 'Validation failed: scheduledTime required for one-time job');
         return res.status(400).json({
           success: false,
-          error: { message: 'scheduledTime (yyyyMMddHHmmss format) is required for one-time jobs' },
+          error: { message: 'scheduledTime (yyyyMMddHHmmss format) or scheduledExpression is required for one-time jobs' },
         } as ApiResponse);
       }
 
@@ -112,10 +238,29 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
       let parsedScheduledTime = scheduledTime;
       let actualJobType: JobType = type as JobType;
 
-      if (type === 'one-time' && scheduledTime) {
+      if (type === 'one-time' && scheduledExpression && !scheduledTime) {
+        // Resolve free-form expression (ISO-8601, duration, or natural language)
+        try {
+          const resolved = parseScheduledExpression(scheduledExpression, { timezone });
+          parsedScheduledTime = resolved.timestamp;
+          logger.info({
+            scheduledExpression,
+            kind: resolved.kind,
+            timezone,
+            calculatedTimestamp: parsedScheduledTime,
+            calculatedISO: new Date(parsedScheduledTime).toISOString(),
+          }, 'Resolved scheduledExpression to absolute timestamp');
+        } catch (error: any) {
+          logger.warn({ scheduledExpression, error: error.message }, 'Invalid scheduledExpression');
+          return res.status(400).json({
+            success: false,
+            error: { message: error.message },
+          } as ApiResponse);
+        }
+      } else if (type === 'one-time' && scheduledTime) {
         // Parse absolute time format
         try {
-          parsedScheduledTime = parseScheduledTime(scheduledTime);
+          parsedScheduledTime = parseScheduledTime(scheduledTime, timezone);
         } catch (error: any) {
           logger.warn({ scheduledTime, error: error.message }, 'Invalid scheduledTime format');
           return res.status(400).json({
@@ -138,11 +283,29 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
         }
       }
 
-      const job = cronScheduler.createJob({
+      const validation = await validateJob(cronScheduler, 'cronjob_create', requester, {
         name,
         type: actualJobType,
         schedule,
         scheduledTime: parsedScheduledTime,
+        payload,
+      }, enabled !== false);
+
+      if (!validation.valid) {
+        logger.warn({ name, ownerId, code: validation.details?.code }, 'Job rejected by validator');
+        return res.status(403).json({
+          success: false,
+          error: { message: validation.error, code: validation.details?.code },
+        } as ApiResponse);
+      }
+
+      const job = await cronScheduler.createJob({
+        name,
+        type: actualJobType,
+        ownerId,
+        timezone,
+        schedule,
+        scheduledTime: parsedScheduledTime,
         enabled,
         payload,
       });
@@ -174,7 +337,8 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
   // Get all jobs
   router.get('/jobs', (req, res) => {
     try {
-      const jobs = cronScheduler.getAllJobs();
+      const ownerId = typeof req.query.ownerId === 'string' ? req.query.ownerId : undefined;
+      const jobs = cronScheduler.getAllJobs({ requester: requesterOf(res), ownerId });
 
       res.json({
         success: true,
@@ -221,7 +385,7 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
   router.get('/jobs/:jobId', (req, res) => {
     try {
       const { jobId } = req.params;
-      const job = cronScheduler.getJob(jobId);
+      const job = cronScheduler.getJob(jobId, requesterOf(res));
 
       if (!job) {
         logger.warn({ jobId }, 'Job not found');
@@ -250,16 +414,68 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
     }
   });
 
+  // Get job execution history
+  router.get('/jobs/:jobId/runs', async (req, res) => {
+    try {
+      const { jobId } = req.params;
+      const requester = requesterOf(res);
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+
+      if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+        return res.status(400).json({
+          success: false,
+          error: { message: `Invalid limit: "${req.query.limit}". Must be a positive integer` },
+        } as ApiResponse);
+      }
+
+      const job = cronScheduler.getJob(jobId, requester);
+      const runs = await cronScheduler.getJobRuns(jobId, requester, limit);
+
+      if (!job || !runs) {
+        logger.warn({ jobId }, 'Job not found');
+        return res.status(404).json({
+          success: false,
+          error: { message: 'Job not found' },
+        } as ApiResponse);
+      }
+
+      const timezone = job.timezone || DEFAULT_TIMEZONE;
+      res.json({
+        success: true,
+        data: runs.map((run) => toRunApiFormat(run, timezone)),
+      } as ApiResponse);
+    } catch (error: any) {
+      const errorDetails = {
+        message: error?.message || 'Unknown error',
+        name: error?.name || 'Error',
+        stack: error?.stack,
+        jobId: req.params.jobId,
+      };
+      logger.error(errorDetails, 'Error getting job runs');
+      res.status(500).json({
+        success: false,
+        error: { message: error?.message || 'Failed to get job runs' },
+      } as ApiResponse);
+    }
+  });
+
   // Update job
-  router.patch('/jobs/:jobId', (req, res) => {
+  router.patch('/jobs/:jobId', async (req, res) => {
     try {
       const { jobId } = req.params;
       const updates = req.body;
 
       logger.debug({ jobId, updates }, 'Update job request received');
 
+      if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Request body must be a JSON object' },
+        } as ApiResponse);
+      }
+
       // Don't allow updating 'type' field
-      if (updates.type) {
+      if (updates.type !== undefined) {
         logger.warn({ jobId, updates }, 'Validation failed: cannot change job type');
         return res.status(400).json({
           success: false,
@@ -267,13 +483,45 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
         } as ApiResponse);
       }
 
-      // Parse scheduledTime if it's being updated
-      const parsedUpdates = { ...updates };
-      if (updates.scheduledTime) {
+      // Don't allow transferring ownership
+      if (updates.ownerId !== undefined) {
+        logger.warn({ jobId, updates }, 'Validation failed: cannot change job owner');
+        return res.status(400).json({
+          success: false,
+          error: { message: 'Cannot change job owner after creation' },
+        } as ApiResponse);
+      }
+
+      const unknownFields = Object.keys(updates).filter((field) => !UPDATABLE_FIELDS.includes(field));
+      if (unknownFields.length > 0) {
+        logger.warn({ jobId, unknownFields }, 'Validation failed: fields cannot be updated');
+        return res.status(400).json({
+          success: false,
+          error: { message: `Cannot update field(s): ${unknownFields.join(', ')}. Allowed: ${UPDATABLE_FIELDS.join(', ')}` },
+        } as ApiResponse);
+      }
+
+      if (updates.timezone && !isValidTimezone(updates.timezone)) {
+        logger.warn({ jobId, updates }, 'Validation failed: invalid timezone');
+        return res.status(400).json({
+          success: false,
+          error: { message: `Invalid timezone: "${updates.timezone}". Expected an IANA timezone such as "Asia/Jakarta"` },
+        } as ApiResponse);
+      }
+
+      const { scheduledExpression, ...fields } = updates;
+      const parsedUpdates: Partial<Pick<CronjobDefinition, 'name' | 'schedule' | 'scheduledTime' | 'enabled' | 'payload' | 'timezone'>> = fields;
+
+      // Parse scheduledTime or scheduledExpression if it's being updated (in the new timezone if that changes too)
+      if (updates.scheduledTime || scheduledExpression) {
+        const existingJob = cronScheduler.getJob(jobId, requesterOf(res));
+        const timezone = updates.timezone || existingJob?.timezone || DEFAULT_TIMEZONE;
         try {
-          parsedUpdates.scheduledTime = parseScheduledTime(updates.scheduledTime);
+          parsedUpdates.scheduledTime = updates.scheduledTime
+            ? parseScheduledTime(updates.scheduledTime, timezone)
+            : parseScheduledExpression(scheduledExpression, { timezone }).timestamp;
         } catch (error: any) {
-          logger.warn({ scheduledTime: updates.scheduledTime, error: error.message }, 'Invalid scheduledTime format');
+          logger.warn({ scheduledTime: updates.scheduledTime, scheduledExpression, error: error.message }, 'Invalid scheduledTime format');
           return res.status(400).json({
             success: false,
             error: { message: error.message },
@@ -281,7 +529,27 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
         }
       }
 
-      const job = cronScheduler.updateJob(jobId, parsedUpdates);
+      const existingJob = cronScheduler.getJob(jobId, requesterOf(res));
+      if (existingJob) {
+        const wasActive = existingJob.enabled && !existingJob.executed;
+        const validation = await validateJob(
+          cronScheduler,
+          'cronjob_update',
+          requesterOf(res),
+          { ...existingJob, ...parsedUpdates },
+          !wasActive && (parsedUpdates.enabled ?? existingJob.enabled)
+        );
+
+        if (!validation.valid) {
+          logger.warn({ jobId, code: validation.details?.code }, 'Job update rejected by validator');
+          return res.status(403).json({
+            success: false,
+            error: { message: validation.error, code: validation.details?.code },
+          } as ApiResponse);
+        }
+      }
+
+      const job = await cronScheduler.updateJob(jobId, parsedUpdates, requesterOf(res));
 
       logger.info({ jobId, updates }, 'Job updated successfully');
 
@@ -306,12 +574,12 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
   });
 
   // Delete job
-  router.delete('/jobs/:jobId', (req, res) => {
+  router.delete('/jobs/:jobId', async (req, res) => {
     try {
       const { jobId } = req.params;
       logger.debug({ jobId }, 'Delete job request received');
 
-      const deleted = cronScheduler.deleteJob(jobId);
+      const deleted = await cronScheduler.deleteJob(jobId, requesterOf(res));
 
       if (!deleted) {
         logger.warn({ jobId }, 'Job not found');
@@ -343,12 +611,24 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
   });
 
   // Start job
-  router.post('/jobs/:jobId/start', (req, res) => {
+  router.post('/jobs/:jobId/start', async (req, res) => {
     try {
       const { jobId } = req.params;
       logger.debug({ jobId }, 'Start job request received');
 
-      cronScheduler.startJob(jobId);
+      const existingJob = cronScheduler.getJob(jobId, requesterOf(res));
+      if (existingJob && !existingJob.enabled) {
+        const validation = await validateJob(cronScheduler, 'cronjob_update', requesterOf(res), existingJob, true);
+        if (!validation.valid) {
+          logger.warn({ jobId, code: validation.details?.code }, 'Job start rejected by validator');
+          return res.status(403).json({
+            success: false,
+            error: { message: validation.error, code: validation.details?.code },
+          } as ApiResponse);
+        }
+      }
+
+      await cronScheduler.startJob(jobId, requesterOf(res));
 
       logger.info({ jobId }, 'Job started successfully');
 
@@ -372,12 +652,12 @@ export function createApiRouter(cronScheduler: CronScheduler): Router {
   });
 
   // Stop job
-  router.post('/jobs/:jobId/stop', (req, res) => {
+  router.post('/jobs/:jobId/stop', async (req, res) => {
     try {
       const { jobId } = req.params;
       logger.debug({ jobId }, 'Stop job request received');
 
-      cronScheduler.stopJob(jobId);
+      await cronScheduler.stopJob(jobId, requesterOf(res));
 
       logger.info({ jobId }, 'Job stopped successfully');
 
@@ -1,11 +1,17 @@
 import cron from 'node-cron';
 import { createLogger } from '@aspri/logger';
-import { EventPublisher } from '@aspri/utils';
-import { CronjobDefinition, CronjobEvent, JobType } from '@aspri/types';
+import { EventPublisher, isValidTimezone, normalizeUserId } from '@aspri/utils';
+import { CronjobDefinition, CronjobEvent, CronjobResultEvent, JobRun, JobType } from '@aspri/types';
 import { randomUUID } from 'crypto';
+import { JobStore } from './job-store.js';
+import { RunStore } from './run-store.js';
+import { resolveTimezone } from './datetime-utils.js';
 
 const logger = createLogger('cron-scheduler');
 
+// setTimeout fires at once for delays above 2^31-1 ms (~24.8 days), so longer waits are split into chunks
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 interface RecurringJob {
   type: 'recurring';
   definition: CronjobDefinition;
@@ -16,29 +22,194 @@ interface OneTimeJob {
   type: 'one-time';
   definition: CronjobDefinition;
   timeout: NodeJS.Timeout | null;
+  publishAttempts: number; // Failed publishes of the current firing
 }
 
 type JobEntry = RecurringJob | OneTimeJob;
 
+/**
+ * Who a job operation is made for: a user, or an internal service authenticated with the API token
+ */
+export type Requester = { type: 'user'; userId: string } | { type: 'internal' };
+
+/**
+ * What to do with one-time jobs whose scheduledTime passed while the service was down
+ * - fire:  execute immediately on restore
+ * - skip:  disable the job without executing it
+ * - grace: execute only if it is late by no more than misfireGraceMs, otherwise skip
+ */
+export type MisfirePolicy = 'fire' | 'skip' | 'grace';
+
+export interface SchedulerConfig {
+  misfirePolicy: MisfirePolicy;
+  misfireGraceMs: number;
+  adminIds: string[]; // Users allowed to see and manage every job
+  publishMaxAttempts: number; // One-time jobs are marked failed after this many failed publishes
+  publishRetryBaseMs: number; // Delay before retrying a failed publish, doubled per attempt
+}
+
 export class CronScheduler {
   private jobs: Map<string, JobEntry> = new Map();
   private eventPublisher: EventPublisher;
-
-  constructor(eventPublisher: EventPublisher) {
+  private jobStore: JobStore;
+  private runStore: RunStore;
+  private config: SchedulerConfig;
+
+  constructor(
+    eventPublisher: EventPublisher,
+    jobStore: JobStore,
+    runStore: RunStore,
+    config?: Partial<SchedulerConfig>
+  ) {
     this.eventPublisher = eventPublisher;
+    this.jobStore = jobStore;
+    this.runStore = runStore;
+
+    const misfirePolicy = (config?.misfirePolicy ?? process.env.CRONJOB_MISFIRE_POLICY ?? 'grace') as MisfirePolicy;
+    if (!['fire', 'skip', 'grace'].includes(misfirePolicy)) {
+      throw new Error(`Invalid misfire policy: ${misfirePolicy}. Must be "fire", "skip", or "grace"`);
+    }
+
+    this.config = {
+      misfirePolicy,
+      misfireGraceMs: config?.misfireGraceMs ?? parseInt(process.env.CRONJOB_MISFIRE_GRACE_SECONDS || '300') * 1000,
+      adminIds: (config?.adminIds ?? (process.env.ADMIN_USER_IDS || '').split(','))
+        .map(normalizeUserId)
+        .filter(Boolean),
+      publishMaxAttempts: config?.publishMaxAttempts ?? parseInt(process.env.CRONJOB_PUBLISH_MAX_ATTEMPTS || '5'),
+      publishRetryBaseMs: config?.publishRetryBaseMs ?? parseInt(process.env.CRONJOB_PUBLISH_RETRY_BASE_SECONDS || '30') * 1000,
+    };
+
+    logger.info({ config: this.config }, 'CronScheduler initialized');
+  }
+
+  /**
+   * Check whether a user is configured as admin
+   */
+  isAdmin(userId: string): boolean {
+    return this.config.adminIds.includes(normalizeUserId(userId));
+  }
+
+  /**
+   * Check whether a requester is not limited to their own jobs (internal services and admins)
+   */
+  isPrivileged(requester: Requester): boolean {
+    return requester.type === 'internal' || this.isAdmin(requester.userId);
+  }
+
+  /**
+   * Check whether a requester may access a job
+   */
+  private canAccess(definition: CronjobDefinition, requester: Requester): boolean {
+    if (this.isPrivileged(requester)) {
+      return true;
+    }
+    return requester.type === 'user' &&
+      !!definition.ownerId &&
+      normalizeUserId(definition.ownerId) === normalizeUserId(requester.userId);
+  }
+
+  /**
+   * Get a job entry the requester is allowed to access
+   * Jobs owned by someone else are reported as not found so their existence is not leaked
+   */
+  private getAccessibleEntry(jobId: string, requester: Requester): JobEntry | undefined {
+    const jobEntry = this.jobs.get(jobId);
+    if (!jobEntry || !this.canAccess(jobEntry.definition, requester)) {
+      return undefined;
+    }
+    return jobEntry;
+  }
+
+  /**
+   * Restore persisted jobs after a restart
+   * Recurring jobs are re-registered with node-cron, future one-time jobs are re-armed,
+   * and overdue one-time jobs are handled according to the misfire policy
+   */
+  async restoreJobs(): Promise<void> {
+    const definitions = await this.jobStore.loadAll();
+    const now = Date.now();
+    const misfired: CronjobDefinition[] = [];
+
+    for (const definition of definitions) {
+      try {
+        if (definition.type === 'recurring') {
+          if (!definition.schedule || !cron.validate(definition.schedule)) {
+            logger.error({ jobId: definition.id, schedule: definition.schedule }, 'Stored recurring job has invalid schedule, skipping');
+            continue;
+          }
+          this.createRecurringJob(definition);
+        } else if (definition.type === 'one-time') {
+          if (!definition.enabled || definition.executed || definition.scheduledTime! > now) {
+            this.createOneTimeJob(definition);
+          } else {
+            // Register without a timeout; misfire policy decides what happens next
+            this.jobs.set(definition.id, { type: 'one-time', definition, timeout: null, publishAttempts: 0 });
+            misfired.push(definition);
+          }
+        } else {
+          logger.error({ jobId: definition.id, type: definition.type }, 'Stored job has invalid type, skipping');
+        }
+      } catch (error) {
+        logger.error({ error, jobId: definition.id }, 'Failed to restore job');
+      }
+    }
+
+    for (const definition of misfired) {
+      await this.handleMisfire(definition, now);
+    }
+
+    logger.info({
+      restored: this.jobs.size,
+      misfired: misfired.length,
+      misfirePolicy: this.config.misfirePolicy,
+    }, 'Jobs restored from store');
+  }
+
+  /**
+   * Apply the misfire policy to an overdue one-time job
+   */
+  private async handleMisfire(definition: CronjobDefinition, now: number): Promise<void> {
+    const lateMs = now - definition.scheduledTime!;
+    const shouldFire =
+      this.config.misfirePolicy === 'fire' ||
+      (this.config.misfirePolicy === 'grace' && lateMs <= this.config.misfireGraceMs);
+
+    logger.warn({
+      jobId: definition.id,
+      name: definition.name,
+      scheduledTimeISO: new Date(definition.scheduledTime!).toISOString(),
+      lateMs,
+      misfirePolicy: this.config.misfirePolicy,
+      action: shouldFire ? 'fire' : 'skip',
+    }, 'One-time job misfired while service was down');
+
+    if (shouldFire) {
+      await this.executeJob(definition.id);
+      return;
+    }
+
+    definition.enabled = false;
+    definition.updatedAt = new Date();
+    await this.jobStore.save(definition);
   }
 
   /**
    * Create and start a new job (recurring or one-time)
    */
-  createJob(jobData: Omit<CronjobDefinition, 'id' | 'createdAt' | 'updatedAt'>): CronjobDefinition {
+  async createJob(jobData: Omit<CronjobDefinition, 'id' | 'createdAt' | 'updatedAt'>): Promise<CronjobDefinition> {
     const definition: CronjobDefinition = {
       id: randomUUID(),
       ...jobData,
+      timezone: jobData.timezone || resolveTimezone(jobData.ownerId),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
+    if (!isValidTimezone(definition.timezone)) {
+      throw new Error(`Invalid timezone: ${definition.timezone}`);
+    }
+
     // Validate based on job type
     if (definition.type === 'recurring') {
       if (!definition.schedule) {
@@ -47,6 +218,7 @@ export class CronScheduler {
       if (!cron.validate(definition.schedule)) {
         throw new Error(`Invalid cron expression: ${definition.schedule}`);
       }
+      await this.jobStore.save(definition);
       this.createRecurringJob(definition);
     } else if (definition.type === 'one-time') {
       if (!definition.scheduledTime) {
@@ -63,6 +235,7 @@ export class CronScheduler {
           `Current: ${now}ms (${currentDate})`
         );
       }
+      await this.jobStore.save(definition);
       this.createOneTimeJob(definition);
     } else {
       throw new Error(`Invalid job type: ${definition.type}`);
@@ -94,6 +267,7 @@ export class CronScheduler {
       },
       {
         scheduled: definition.enabled,
+        timezone: definition.timezone || resolveTimezone(definition.ownerId),
       }
     );
 
@@ -108,7 +282,12 @@ export class CronScheduler {
    * Create a one-time scheduled job (setTimeout-based)
    */
   private createOneTimeJob(definition: CronjobDefinition): void {
-    let timeout: NodeJS.Timeout | null = null;
+    const jobEntry: OneTimeJob = {
+      type: 'one-time',
+      definition,
+      timeout: null,
+      publishAttempts: 0,
+    };
 
     if (definition.enabled) {
       const now = Date.now();
@@ -126,19 +305,31 @@ export class CronScheduler {
         willFireAt: new Date(now + delay).toISOString()
       }, 'Creating setTimeout for one-time job');
 
-      timeout = setTimeout(async () => {
-        logger.info({ jobId: definition.id, name: definition.name }, 'setTimeout callback triggered - about to execute job');
-        await this.executeJob(definition.id);
-      }, delay);
+      this.armOneTimeJob(jobEntry);
 
-      logger.info({ jobId: definition.id, hasTimeout: !!timeout }, 'setTimeout created successfully');
+      logger.info({ jobId: definition.id, hasTimeout: !!jobEntry.timeout }, 'setTimeout created successfully');
     }
 
-    this.jobs.set(definition.id, {
-      type: 'one-time',
-      definition,
-      timeout,
-    });
+    this.jobs.set(definition.id, jobEntry);
+  }
+
+  /**
+   * Set the timeout of a one-time job for its scheduledTime
+   * Delays over MAX_TIMEOUT_MS wait in chunks; each chunk re-arms until the job is due
+   */
+  private armOneTimeJob(jobEntry: OneTimeJob): void {
+    const { definition } = jobEntry;
+    const delay = Math.max(definition.scheduledTime! - Date.now(), 0);
+
+    jobEntry.timeout = setTimeout(async () => {
+      if (definition.scheduledTime! > Date.now()) {
+        this.armOneTimeJob(jobEntry);
+        return;
+      }
+
+      logger.info({ jobId: definition.id, name: definition.name }, 'setTimeout callback triggered - about to execute job');
+      await this.executeJob(definition.id);
+    }, Math.min(delay, MAX_TIMEOUT_MS));
   }
 
   /**
@@ -160,22 +351,23 @@ export class CronScheduler {
       payload: definition.payload
     }, 'Firing job');
 
-    try {
-      const event: CronjobEvent = {
-        eventId: randomUUID(),
-        type: 'cronjob:trigger',
-        source: 'cronjob',
-        timestamp: Date.now(),
-        data: {
-          jobId: definition.id,
-          jobName: definition.name,
-          scheduledTime: definition.type === 'one-time' ? definition.scheduledTime! : Date.now(),
-          payload: definition.payload,
-        },
-      };
+    const firedAt = Date.now();
+    const event: CronjobEvent = {
+      eventId: randomUUID(),
+      type: 'cronjob:trigger',
+      source: 'cronjob',
+      timestamp: firedAt,
+      data: {
+        jobId: definition.id,
+        jobName: definition.name,
+        scheduledTime: definition.type === 'one-time' ? definition.scheduledTime! : firedAt,
+        payload: definition.payload,
+      },
+    };
 
+    try {
       const streamName = process.env.CRONJOB_STREAM_NAME || 'cronjob:events';
-      await this.eventPublisher.publish(streamName, event);
+      const messageId = await this.eventPublisher.publish(streamName, event);
 
       logger.info({
         jobId: definition.id,
@@ -183,6 +375,14 @@ export class CronScheduler {
         streamName
       }, 'Event published to Redis Stream');
 
+      await this.recordRun({
+        eventId: event.eventId,
+        jobId: definition.id,
+        firedAt,
+        status: 'pending',
+        messageId,
+      });
+
       // Mark one-time jobs as executed
       if (definition.type === 'one-time') {
         definition.executed = true;
@@ -195,33 +395,149 @@ export class CronScheduler {
           jobEntry.timeout = null;
         }
 
+        await this.jobStore.save(definition);
+
         logger.info({ jobId: definition.id }, 'One-time job executed and disabled');
       }
-    } catch (error) {
+    } catch (error: any) {
       logger.error({ error, jobId: definition.id }, 'Failed to publish job event');
+      await this.recordRun({
+        eventId: event.eventId,
+        jobId: definition.id,
+        firedAt,
+        status: 'publish_failed',
+        detail: error?.message || String(error),
+      });
+
+      // A recurring job fires again on its schedule; a one-time job would never fire again
+      // (unless the event was published and only saving the job failed)
+      if (jobEntry.type === 'one-time' && !definition.executed) {
+        await this.retryOneTimeJob(jobEntry);
+      }
+    }
+  }
+
+  /**
+   * Retry a one-time job whose event could not be published, with exponential backoff
+   * After publishMaxAttempts the job is disabled and marked failed
+   */
+  private async retryOneTimeJob(jobEntry: OneTimeJob): Promise<void> {
+    const { definition } = jobEntry;
+    jobEntry.publishAttempts++;
+
+    if (jobEntry.publishAttempts < this.config.publishMaxAttempts) {
+      const delay = this.config.publishRetryBaseMs * 2 ** (jobEntry.publishAttempts - 1);
+      logger.warn({
+        jobId: definition.id,
+        attempts: jobEntry.publishAttempts,
+        retryInMs: delay,
+      }, 'Retrying one-time job after failed publish');
+
+      jobEntry.timeout = setTimeout(async () => {
+        await this.executeJob(definition.id);
+      }, delay);
+      return;
+    }
+
+    logger.error({ jobId: definition.id, attempts: jobEntry.publishAttempts }, 'One-time job failed, giving up');
+
+    jobEntry.timeout = null;
+    definition.enabled = false;
+    definition.failed = true;
+    definition.updatedAt = new Date();
+
+    try {
+      await this.jobStore.save(definition);
+    } catch (error) {
+      logger.error({ error, jobId: definition.id }, 'Failed to save failed one-time job');
+    }
+  }
+
+  /**
+   * Record a run in the execution history
+   * History is best-effort: failures are logged and never affect job execution
+   */
+  private async recordRun(run: JobRun): Promise<void> {
+    try {
+      await this.runStore.record(run);
+    } catch (error) {
+      logger.error({ error, jobId: run.jobId, eventId: run.eventId }, 'Failed to record job run');
     }
   }
 
+  /**
+   * Apply an outcome reported by ai-engine to the matching run
+   */
+  async recordRunOutcome(result: CronjobResultEvent['data']): Promise<void> {
+    const run = await this.runStore.recordOutcome(
+      result.jobId,
+      result.eventId,
+      result.outcome,
+      result.detail,
+      result.completedAt
+    );
+
+    if (run) {
+      logger.info({
+        jobId: result.jobId,
+        eventId: result.eventId,
+        outcome: result.outcome,
+        latencyMs: result.completedAt - run.firedAt,
+      }, 'Job run outcome recorded');
+    }
+  }
+
+  /**
+   * Get the execution history of a job, newest first
+   * Returns null if the job does not exist or is not accessible to the requester
+   */
+  async getJobRuns(jobId: string, requester: Requester, limit?: number): Promise<JobRun[] | null> {
+    if (!this.getAccessibleEntry(jobId, requester)) {
+      return null;
+    }
+    return this.runStore.getRuns(jobId, limit);
+  }
+
   /**
    * Get a job by ID
    */
-  getJob(jobId: string): CronjobDefinition | null {
-    const job = this.jobs.get(jobId);
+  getJob(jobId: string, requester: Requester): CronjobDefinition | null {
+    const job = this.getAccessibleEntry(jobId, requester);
     return job ? job.definition : null;
   }
 
   /**
-   * Get all jobs
+   * Get all jobs visible to the requester, optionally filtered by owner
+   */
+  getAllJobs(options: { requester: Requester; ownerId?: string }): CronjobDefinition[] {
+    const { requester, ownerId } = options;
+    return Array.from(this.jobs.values())
+      .map((job) => job.definition)
+      .filter((definition) => this.canAccess(definition, requester))
+      .filter((definition) =>
+        !ownerId || (!!definition.ownerId && normalizeUserId(definition.ownerId) === normalizeUserId(ownerId))
+      );
+  }
+
+  /**
+   * Count a user's active jobs (enabled and not yet executed)
    */
-  getAllJobs(): CronjobDefinition[] {
-    return Array.from(this.jobs.values()).map((job) => job.definition);
+  countActiveJobs(ownerId: string, excludeJobId?: string): number {
+    return this.getAllJobs({ requester: { type: 'internal' }, ownerId })
+      .filter((definition) => definition.id !== excludeJobId)
+      .filter((definition) => definition.enabled && !definition.executed)
+      .length;
   }
 
   /**
    * Update a job
    */
-  updateJob(jobId: string, updates: Partial<Omit<CronjobDefinition, 'id' | 'createdAt' | 'type'>>): CronjobDefinition {
-    const jobEntry = this.jobs.get(jobId);
+  async updateJob(
+    jobId: string,
+    updates: Partial<Omit<CronjobDefinition, 'id' | 'createdAt' | 'type' | 'ownerId'>>,
+    requester: Requester
+  ): Promise<CronjobDefinition> {
+    const jobEntry = this.getAccessibleEntry(jobId, requester);
     if (!jobEntry) {
       throw new Error(`Job not found: ${jobId}`);
     }
@@ -233,21 +549,22 @@ export class CronScheduler {
       throw new Error('Cannot update already executed one-time job');
     }
 
-    // Stop/clear existing task
-    if (jobEntry.type === 'recurring') {
-      jobEntry.task.stop();
-    } else if (jobEntry.type === 'one-time' && jobEntry.timeout) {
-      clearTimeout(jobEntry.timeout);
-    }
-
     // Update definition
+    // Identity and ownership always come from the stored job, whatever the caller passed
     const updatedDefinition: CronjobDefinition = {
       ...definition,
       ...updates,
+      id: definition.id,
+      type: definition.type,
+      ownerId: definition.ownerId,
+      createdAt: definition.createdAt,
       updatedAt: new Date(),
     };
 
     // Validate updates
+    if (updates.timezone && !isValidTimezone(updates.timezone)) {
+      throw new Error(`Invalid timezone: ${updates.timezone}`);
+    }
     if (definition.type === 'recurring') {
       if (updates.schedule && !cron.validate(updates.schedule)) {
         throw new Error(`Invalid cron expression: ${updates.schedule}`);
@@ -258,7 +575,15 @@ export class CronScheduler {
       }
     }
 
-    // Delete old job entry
+    // Persist before touching the running task, so a rejected update or a failed save leaves the job scheduled
+    await this.jobStore.save(updatedDefinition);
+
+    // Stop/clear existing task and delete the old job entry
+    if (jobEntry.type === 'recurring') {
+      jobEntry.task.stop();
+    } else if (jobEntry.type === 'one-time' && jobEntry.timeout) {
+      clearTimeout(jobEntry.timeout);
+    }
     this.jobs.delete(jobId);
 
     // Recreate job with updated definition
@@ -276,8 +601,8 @@ export class CronScheduler {
   /**
    * Delete a job
    */
-  deleteJob(jobId: string): boolean {
-    const jobEntry = this.jobs.get(jobId);
+  async deleteJob(jobId: string, requester: Requester): Promise<boolean> {
+    const jobEntry = this.getAccessibleEntry(jobId, requester);
     if (!jobEntry) {
       return false;
     }
@@ -290,6 +615,8 @@ export class CronScheduler {
     }
 
     this.jobs.delete(jobId);
+    await this.jobStore.delete(jobId);
+    await this.runStore.deleteRuns(jobId);
     logger.info({ jobId }, 'Job deleted');
 
     return true;
@@ -298,8 +625,8 @@ export class CronScheduler {
   /**
    * Start a job
    */
-  startJob(jobId: string): void {
-    const jobEntry = this.jobs.get(jobId);
+  async startJob(jobId: string, requester: Requester): Promise<void> {
+    const jobEntry = this.getAccessibleEntry(jobId, requester);
     if (!jobEntry) {
       throw new Error(`Job not found: ${jobId}`);
     }
@@ -319,24 +646,22 @@ export class CronScheduler {
         throw new Error('Cannot start one-time job: scheduled time has passed');
       }
 
-      const delay = definition.scheduledTime! - Date.now();
-      const timeout = setTimeout(async () => {
-        await this.executeJob(definition.id);
-      }, delay);
-
-      jobEntry.timeout = timeout;
+      jobEntry.publishAttempts = 0;
+      this.armOneTimeJob(jobEntry);
     }
 
     definition.enabled = true;
+    definition.failed = undefined;
     definition.updatedAt = new Date();
+    await this.jobStore.save(definition);
     logger.info({ jobId }, 'Job started');
   }
 
   /**
    * Stop a job
    */
-  stopJob(jobId: string): void {
-    const jobEntry = this.jobs.get(jobId);
+  async stopJob(jobId: string, requester: Requester): Promise<void> {
+    const jobEntry = this.getAccessibleEntry(jobId, requester);
     if (!jobEntry) {
       throw new Error(`Job not found: ${jobId}`);
     }
@@ -350,6 +675,7 @@ export class CronScheduler {
 
     jobEntry.definition.enabled = false;
     jobEntry.definition.updatedAt = new Date();
+    await this.jobStore.save(jobEntry.definition);
     logger.info({ jobId }, 'Job stopped');
   }
 
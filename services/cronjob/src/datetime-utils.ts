@@ -1,14 +1,48 @@
 /**
  * Datetime utility functions for converting between timestamp and yyyyMMddHHmmss format
+ * Wall-clock values are always interpreted in an explicit IANA timezone, never the host's local zone
  */
 
+import { normalizeUserId } from '@aspri/utils';
+
+/**
+ * Default timezone used to resolve wall-clock times (e.g., "jam 3 sore")
+ */
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'Asia/Jakarta';
+
+/**
+ * Per-user timezone overrides, configured as "628111:Asia/Makassar,628222:Asia/Jayapura"
+ */
+const USER_TIMEZONES: Record<string, string> = Object.fromEntries(
+  (process.env.USER_TIMEZONES || '')
+    .split(',')
+    .map((entry) => entry.split(':').map((part) => part.trim()))
+    .filter(([userId, timezone]) => userId && timezone)
+    .map(([userId, timezone]) => [normalizeUserId(userId), timezone])
+);
+
+/**
+ * Get the timezone for a user: their configured override, otherwise DEFAULT_TIMEZONE
+ * @param userId - WhatsApp ID (with or without @c.us)
+ */
+export function resolveTimezone(userId?: string): string {
+  if (userId) {
+    const override = USER_TIMEZONES[normalizeUserId(userId)];
+    if (override) {
+      return override;
+    }
+  }
+  return DEFAULT_TIMEZONE;
+}
+
 /**
  * Convert yyyyMMddHHmmss string to milliseconds timestamp
  * @param dateTimeString - String in format "yyyyMMddHHmmss" (e.g., "20251021053321")
+ * @param timezone - Timezone the wall-clock value is expressed in
  * @returns Milliseconds timestamp
  * @throws Error if format is invalid
  */
-export function parseDateTime(dateTimeString: string): number {
+export function parseDateTime(dateTimeString: string, timezone: string = DEFAULT_TIMEZONE): number {
   // Validate format
   if (!/^\d{14}$/.test(dateTimeString)) {
     throw new Error(
@@ -23,6 +57,25 @@ export function parseDateTime(dateTimeString: string): number {
   const minute = parseInt(dateTimeString.substring(10, 12), 10);
   const second = parseInt(dateTimeString.substring(12, 14), 10);
 
+  validateDateTimeFields(dateTimeString, year, month, day, hour, minute, second);
+
+  return zonedDateTimeToTimestamp(year, month, day, hour, minute, second, timezone);
+}
+
+/**
+ * Check the ranges and the calendar validity of datetime fields (e.g., rejects Feb 30)
+ * @param source - Original string, used in error messages
+ * @throws Error if a field is out of range or the date does not exist
+ */
+function validateDateTimeFields(
+  source: string,
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number
+): void {
   // Validate ranges
   if (month < 1 || month > 12) {
     throw new Error(`Invalid month: ${month}. Must be between 01 and 12`);
@@ -40,45 +93,57 @@ export function parseDateTime(dateTimeString: string): number {
     throw new Error(`Invalid second: ${second}. Must be between 00 and 59`);
   }
 
-  // Create date object (month is 0-indexed in JavaScript Date)
-  const date = new Date(year, month - 1, day, hour, minute, second);
+  // Check calendar validity in UTC (handles invalid dates like Feb 30, independent of timezone)
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
 
-  // Check if the date is valid (handles invalid dates like Feb 30)
   if (
-    date.getFullYear() !== year ||
-    date.getMonth() !== month - 1 ||
-    date.getDate() !== day ||
-    date.getHours() !== hour ||
-    date.getMinutes() !== minute ||
-    date.getSeconds() !== second
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
   ) {
     throw new Error(
-      `Invalid date: ${dateTimeString}. ` +
+      `Invalid date: ${source}. ` +
       `The date components do not represent a valid calendar date/time`
     );
   }
-
-  return date.getTime();
 }
 
 /**
  * Convert milliseconds timestamp to yyyyMMddHHmmss string
  * @param timestamp - Milliseconds timestamp
+ * @param timezone - Timezone to render the wall-clock value in
  * @returns String in format "yyyyMMddHHmmss"
  */
-export function formatDateTime(timestamp: number): string {
-  const date = new Date(timestamp);
+export function formatDateTime(timestamp: number, timezone: string = DEFAULT_TIMEZONE): string {
+  const p = getZonedParts(timestamp, timezone);
 
-  const year = date.getFullYear().toString().padStart(4, '0');
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const day = date.getDate().toString().padStart(2, '0');
-  const hour = date.getHours().toString().padStart(2, '0');
-  const minute = date.getMinutes().toString().padStart(2, '0');
-  const second = date.getSeconds().toString().padStart(2, '0');
+  const year = p.year.toString().padStart(4, '0');
+  const month = p.month.toString().padStart(2, '0');
+  const day = p.day.toString().padStart(2, '0');
+  const hour = p.hour.toString().padStart(2, '0');
+  const minute = p.minute.toString().padStart(2, '0');
+  const second = p.second.toString().padStart(2, '0');
 
   return `${year}${month}${day}${hour}${minute}${second}`;
 }
 
+/**
+ * Convert milliseconds timestamp to ISO-8601 string with the timezone's offset
+ * @param timestamp - Milliseconds timestamp
+ * @param timezone - Timezone to render the wall-clock value in
+ * @returns e.g., "2025-10-21T15:00:00+07:00"
+ */
+export function formatIsoDateTime(timestamp: number, timezone: string = DEFAULT_TIMEZONE): string {
+  const p = getZonedParts(timestamp, timezone);
+  const offsetMinutes = Math.round(getTimezoneOffset(timestamp, timezone) / 60000);
+  const sign = offsetMinutes >= 0 ? '+' : '-';
+  const absMinutes = Math.abs(offsetMinutes);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+
+  return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}` +
+    `${sign}${pad(Math.floor(absMinutes / 60))}:${pad(absMinutes % 60)}`;
+}
+
 /**
  * Check if a string is in yyyyMMddHHmmss format
  * @param value - Value to check
@@ -87,3 +152,142 @@ export function formatDateTime(timestamp: number): string {
 export function isDateTimeFormat(value: any): boolean {
   return typeof value === 'string' && /^\d{14}$/.test(value);
 }
+
+export interface ZonedDateTimeParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+}
+
+const WEEKDAY_INDEX: Record<string, number> = {
+  Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6,
+};
+
+/**
+ * Get wall-clock components of a timestamp in a timezone
+ * @param timestamp - Milliseconds timestamp
+ * @param timezone - IANA timezone name
+ * @returns Date/time components as seen in that timezone
+ */
+export function getZonedParts(timestamp: number, timezone: string): ZonedDateTimeParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    weekday: 'short',
+  });
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(new Date(timestamp))) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAY_INDEX[parts.weekday],
+  };
+}
+
+/**
+ * Convert wall-clock components in a timezone to milliseconds timestamp
+ * Out-of-range components roll over like Date.UTC (e.g., day 32 becomes next month)
+ * @returns Milliseconds timestamp
+ */
+export function zonedDateTimeToTimestamp(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timezone: string
+): number {
+  const wallClockAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Offset can differ on both sides of a DST change, so correct once with the offset at the guess
+  const firstGuess = wallClockAsUtc - getTimezoneOffset(wallClockAsUtc, timezone);
+  return wallClockAsUtc - getTimezoneOffset(firstGuess, timezone);
+}
+
+/**
+ * Get the offset of a timezone from UTC at a given instant
+ * @returns Offset in milliseconds (e.g., +25200000 for Asia/Jakarta)
+ */
+export function getTimezoneOffset(timestamp: number, timezone: string): number {
+  const seconds = Math.floor(timestamp / 1000) * 1000;
+  const p = getZonedParts(seconds, timezone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - seconds;
+}
+
+const ISO_DATETIME_REGEX =
+  /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d{1,3})?)?)?(Z|[+-]\d{2}:?\d{2})?$/i;
+
+/**
+ * Check if a string is an ISO-8601 datetime (e.g., "2025-10-21T15:00:00+07:00")
+ * @param value - Value to check
+ * @returns true if valid format, false otherwise
+ */
+export function isIsoDateTimeFormat(value: any): boolean {
+  return typeof value === 'string' && ISO_DATETIME_REGEX.test(value.trim());
+}
+
+/**
+ * Convert ISO-8601 datetime string to milliseconds timestamp
+ * Strings with an offset ("Z", "+07:00") are absolute; strings without one are
+ * interpreted as wall-clock time in the given timezone
+ * @param dateTimeString - e.g., "2025-10-21T15:00:00+07:00", "2025-10-21T15:00", "2025-10-21"
+ * @param timezone - Timezone for strings without offset
+ * @returns Milliseconds timestamp
+ * @throws Error if format is invalid
+ */
+export function parseIsoDateTime(dateTimeString: string, timezone: string = DEFAULT_TIMEZONE): number {
+  const match = dateTimeString.trim().match(ISO_DATETIME_REGEX);
+  if (!match) {
+    throw new Error(
+      `Invalid ISO-8601 datetime: "${dateTimeString}". ` +
+      `Examples: "2025-10-21T15:00:00+07:00", "2025-10-21T08:00:00Z", "2025-10-21T15:00"`
+    );
+  }
+
+  const [, yearStr, monthStr, dayStr, hourStr = '00', minuteStr = '00', secondStr = '00', offset] = match;
+
+  if (offset) {
+    // Date.parse rolls invalid dates over (Feb 30 becomes Mar 2), so check the fields first
+    validateDateTimeFields(
+      dateTimeString,
+      parseInt(yearStr, 10),
+      parseInt(monthStr, 10),
+      parseInt(dayStr, 10),
+      parseInt(hourStr, 10),
+      parseInt(minuteStr, 10),
+      parseInt(secondStr, 10)
+    );
+
+    const normalizedOffset = offset.toUpperCase() === 'Z'
+      ? 'Z'
+      : offset.replace(/^([+-]\d{2}):?(\d{2})$/, '$1:$2');
+    const timestamp = Date.parse(
+      `${yearStr}-${monthStr}-${dayStr}T${hourStr}:${minuteStr}:${secondStr}${normalizedOffset}`
+    );
+    if (isNaN(timestamp)) {
+      throw new Error(`Invalid date: ${dateTimeString}`);
+    }
+    return timestamp;
+  }
+
+  return parseDateTime(`${yearStr}${monthStr}${dayStr}${hourStr}${minuteStr}${secondStr}`, timezone);
+}
@@ -1,20 +1,27 @@
 /**
- * Duration utility functions for parsing relative time format (e.g., "2h3m4s")
+ * Duration utility functions for parsing relative time format (e.g., "2h3m4s", "1d", "P1DT2H")
  */
 
+const COMPACT_DURATION_REGEX = /^(?:(\d+)w)?(?:(\d+)d)?(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/;
+const ISO_DURATION_REGEX = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+const MAX_DURATION_MS = 366 * 24 * 3600 * 1000; // 1 year
+
 /**
  * Parse duration string to milliseconds
- * Supports format: [Xh][Ym][Zs] where X, Y, Z are numbers
+ * Supports format: [Xw][Xd][Xh][Ym][Zs] where X, Y, Z are numbers
  * Examples:
  * - "2h" = 2 hours
  * - "3m" = 3 minutes
  * - "4s" = 4 seconds
  * - "2h3m4s" = 2 hours, 3 minutes, 4 seconds
- * - "2h3m" = 2 hours, 3 minutes
- * - "2h4s" = 2 hours, 4 seconds
- * - "3m4s" = 3 minutes, 4 seconds
+ * - "1d" = 1 day
+ * - "2w" = 2 weeks
+ * - "1d12h" = 1 day, 12 hours
  *
- * @param durationString - Duration string in format [Xh][Ym][Zs]
+ * ISO-8601 durations are accepted as well (see parseIsoDuration), e.g. "PT30M", "P1DT2H"
+ *
+ * @param durationString - Duration string in format [Xw][Xd][Xh][Ym][Zs] or ISO-8601
  * @returns Milliseconds
  * @throws Error if format is invalid
  */
@@ -25,29 +32,34 @@ export function parseDuration(durationString: string): number {
 
   const trimmed = durationString.trim();
 
+  if (isIsoDurationFormat(trimmed)) {
+    return parseIsoDuration(trimmed);
+  }
+
   // Validate format using regex
-  const durationRegex = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/;
-  const match = trimmed.match(durationRegex);
+  const match = trimmed.match(COMPACT_DURATION_REGEX);
 
   if (!match) {
     throw new Error(
       `Invalid duration format: "${durationString}". ` +
-      `Expected format: [Xh][Ym][Zs] where X, Y, Z are numbers. ` +
-      `Examples: "2h", "3m", "4s", "2h3m4s", "2h3m", "2h4s", "3m4s"`
+      `Expected format: [Xw][Xd][Xh][Ym][Zs] where X, Y, Z are numbers, or ISO-8601 (e.g., "P1DT2H"). ` +
+      `Examples: "2h", "3m", "4s", "2h3m4s", "1d", "2w", "1d12h"`
     );
   }
 
-  const [, hoursStr, minutesStr, secondsStr] = match;
+  const [, weeksStr, daysStr, hoursStr, minutesStr, secondsStr] = match;
 
   // At least one unit must be specified
-  if (!hoursStr && !minutesStr && !secondsStr) {
+  if (!weeksStr && !daysStr && !hoursStr && !minutesStr && !secondsStr) {
     throw new Error(
       `Invalid duration: "${durationString}". ` +
-      `At least one time unit (h, m, or s) must be specified. ` +
-      `Examples: "2h", "3m", "4s", "2h3m4s"`
+      `At least one time unit (w, d, h, m, or s) must be specified. ` +
+      `Examples: "2h", "3m", "4s", "2h3m4s", "1d"`
     );
   }
 
+  const weeks = weeksStr ? parseInt(weeksStr, 10) : 0;
+  const days = daysStr ? parseInt(daysStr, 10) : 0;
   const hours = hoursStr ? parseInt(hoursStr, 10) : 0;
   const minutes = minutesStr ? parseInt(minutesStr, 10) : 0;
   const seconds = secondsStr ? parseInt(secondsStr, 10) : 0;
@@ -63,12 +75,74 @@ export function parseDuration(durationString: string): number {
     throw new Error(`Invalid seconds: ${seconds}. Must be between 0 and 59`);
   }
 
-  // Convert to milliseconds
-  const totalMs = (hours * 3600 + minutes * 60 + seconds) * 1000;
+  return toMilliseconds(durationString, { weeks, days, hours, minutes, seconds });
+}
+
+/**
+ * Parse ISO-8601 duration string to milliseconds
+ * Supports weeks, days, hours, minutes and seconds. Years and months are rejected
+ * because their length depends on the calendar.
+ * Examples:
+ * - "PT30M" = 30 minutes
+ * - "PT2H" = 2 hours
+ * - "P1D" = 1 day
+ * - "P1DT2H" = 1 day, 2 hours
+ * - "P2W" = 2 weeks
+ *
+ * @param durationString - ISO-8601 duration string
+ * @returns Milliseconds
+ * @throws Error if format is invalid
+ */
+export function parseIsoDuration(durationString: string): number {
+  const trimmed = durationString.trim().toUpperCase();
+  const match = trimmed.match(ISO_DURATION_REGEX);
+
+  if (!match || trimmed === 'P' || trimmed.endsWith('T')) {
+    throw new Error(
+      `Invalid ISO-8601 duration: "${durationString}". ` +
+      `Supported units: W, D, and after "T": H, M, S. ` +
+      `Examples: "PT30M", "PT2H", "P1D", "P1DT2H", "P2W"`
+    );
+  }
+
+  const [, weeksStr, daysStr, hoursStr, minutesStr, secondsStr] = match;
+
+  return toMilliseconds(durationString, {
+    weeks: weeksStr ? parseInt(weeksStr, 10) : 0,
+    days: daysStr ? parseInt(daysStr, 10) : 0,
+    hours: hoursStr ? parseInt(hoursStr, 10) : 0,
+    minutes: minutesStr ? parseInt(minutesStr, 10) : 0,
+    seconds: secondsStr ? parseInt(secondsStr, 10) : 0,
+  });
+}
+
+/**
+ * Check if a string is an ISO-8601 duration (e.g., "P1DT2H")
+ * @param value - Value to check
+ * @returns true if valid ISO-8601 duration, false otherwise
+ */
+export function isIsoDurationFormat(value: any): boolean {
+  if (typeof value !== 'string') return false;
+  const trimmed = value.trim().toUpperCase();
+  return ISO_DURATION_REGEX.test(trimmed) && trimmed !== 'P' && !trimmed.endsWith('T');
+}
+
+/**
+ * Sum duration units and enforce the zero / 1 year limits
+ */
+function toMilliseconds(
+  durationString: string,
+  units: { weeks: number; days: number; hours: number; minutes: number; seconds: number }
+): number {
+  const { weeks, days, hours, minutes, seconds } = units;
+  const totalMs = ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
 
   if (totalMs === 0) {
     throw new Error(`Duration cannot be zero. Please specify a positive duration.`);
   }
+  if (totalMs > MAX_DURATION_MS) {
+    throw new Error(`Duration "${durationString}" is too long. Maximum is 1 year`);
+  }
 
   return totalMs;
 }
@@ -76,7 +150,7 @@ export function parseDuration(durationString: string): number {
 /**
  * Format milliseconds to duration string
  * @param milliseconds - Duration in milliseconds
- * @returns Duration string in format [Xh][Ym][Zs]
+ * @returns Duration string in format [Xw][Xd][Xh][Ym][Zs], e.g. "2w" rather than "336h"
  */
 export function formatDuration(milliseconds: number): string {
   if (milliseconds < 0) {
@@ -85,11 +159,15 @@ export function formatDuration(milliseconds: number): string {
 
   const totalSeconds = Math.floor(milliseconds / 1000);
 
-  const hours = Math.floor(totalSeconds / 3600);
+  const weeks = Math.floor(totalSeconds / 604800);
+  const days = Math.floor((totalSeconds % 604800) / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
   const minutes = Math.floor((totalSeconds % 3600) / 60);
   const seconds = totalSeconds % 60;
 
   let result = '';
+  if (weeks > 0) result += `${weeks}w`;
+  if (days > 0) result += `${days}d`;
   if (hours > 0) result += `${hours}h`;
   if (minutes > 0) result += `${minutes}m`;
   if (seconds > 0) result += `${seconds}s`;
@@ -104,11 +182,11 @@ export function formatDuration(milliseconds: number): string {
  */
 export function isDurationFormat(value: any): boolean {
   if (typeof value !== 'string') return false;
-  const durationRegex = /^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/;
-  const match = value.trim().match(durationRegex);
+  if (isIsoDurationFormat(value)) return true;
+  const match = value.trim().match(COMPACT_DURATION_REGEX);
   if (!match) return false;
-  const [, hours, minutes, seconds] = match;
-  return !!(hours || minutes || seconds);
+  const [, weeks, days, hours, minutes, seconds] = match;
+  return !!(weeks || days || hours || minutes || seconds);
 }
 
 /**
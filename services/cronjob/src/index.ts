@@ -3,23 +3,64 @@
 import 'dotenv/config';
 import express from 'express';
 import { createLogger } from '@aspri/logger';
-import { EventPublisher } from '@aspri/utils';
+import { EventPublisher, EventConsumer, initializeValidators } from '@aspri/utils';
+import { CronjobResultEvent } from '@aspri/types';
 import { CronScheduler } from './cron-scheduler.js';
+import { JobStore } from './job-store.js';
+import { RunStore } from './run-store.js';
 import { createApiRouter } from './api.js';
 
 const logger = createLogger('cronjob-service');
 const PORT = parseInt(process.env.CRONJOB_PORT || '3002');
+const API_TOKEN = process.env.CRONJOB_API_TOKEN || '';
 
 async function main() {
   try {
     logger.info('Starting Cronjob Service...');
 
+    // X-User-Id is only trusted from a caller holding the token, so the API cannot run without one
+    if (!API_TOKEN) {
+      throw new Error('CRONJOB_API_TOKEN is required');
+    }
+
     // Initialize Event Publisher
     const eventPublisher = new EventPublisher();
     await eventPublisher.initialize();
 
-    // Initialize Cron Scheduler
-    const cronScheduler = new CronScheduler(eventPublisher);
+    // Initialize validators (limits for jobs created by users)
+    await initializeValidators();
+
+    // Initialize Job Store
+    const jobStore = new JobStore();
+    await jobStore.initialize();
+
+    // Initialize Run Store (execution history)
+    const runStore = new RunStore();
+    await runStore.initialize();
+
+    // Initialize Cron Scheduler and restore persisted jobs
+    const cronScheduler = new CronScheduler(eventPublisher, jobStore, runStore);
+    await cronScheduler.restoreJobs();
+
+    // Consume run outcomes reported back by ai-engine
+    const resultConsumer = new EventConsumer();
+    await resultConsumer.initialize();
+    resultConsumer.on('cronjob:result', async (event) => {
+      const resultEvent = event as CronjobResultEvent;
+      try {
+        await cronScheduler.recordRunOutcome(resultEvent.data);
+      } catch (error) {
+        logger.error({ error, eventId: resultEvent.eventId }, 'Error recording job run outcome');
+      }
+    });
+
+    resultConsumer.start({
+      streamName: process.env.CRONJOB_RESULT_STREAM_NAME || 'cronjob:results',
+      groupName: 'cronjob',
+      consumerName: 'cronjob-1',
+    }).catch((error) => {
+      logger.error({ error }, 'Error in result consumption');
+    });
 
     // Setup Express API Server
     const app = express();
@@ -36,7 +77,7 @@ async function main() {
     });
 
     // API Routes
-    app.use('/api', createApiRouter(cronScheduler));
+    app.use('/api', createApiRouter(cronScheduler, API_TOKEN));
 
     // Start server
     const server = app.listen(PORT, () => {
@@ -52,6 +93,9 @@ async function main() {
         logger.info('HTTP server closed');
       });
 
+      // Stop consuming run outcomes
+      resultConsumer.stop();
+
       // Stop all cron jobs
       cronScheduler.stopAll();
       logger.info('All cron jobs stopped');
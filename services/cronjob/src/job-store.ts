@@ -0,0 +1,75 @@
+import { RedisClientType } from 'redis';
+import { createLogger } from '@aspri/logger';
+import { getRedisClient } from '@aspri/utils';
+import { CronjobDefinition } from '@aspri/types';
+
+const logger = createLogger('job-store');
+
+/**
+ * Durable storage for job definitions
+ * Jobs are stored as JSON in a single Redis hash keyed by job ID
+ */
+export class JobStore {
+  private redis: RedisClientType | null = null;
+  private readonly key: string;
+
+  constructor(key?: string) {
+    this.key = key || process.env.CRONJOB_STORE_KEY || 'cronjob:jobs';
+  }
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+    logger.info({ key: this.key }, 'JobStore initialized');
+  }
+
+  /**
+   * Insert or replace a job definition
+   */
+  async save(definition: CronjobDefinition): Promise<void> {
+    const redis = this.getClient();
+    await redis.hSet(this.key, definition.id, JSON.stringify(definition));
+    logger.debug({ jobId: definition.id }, 'Job definition saved');
+  }
+
+  /**
+   * Remove a job definition
+   */
+  async delete(jobId: string): Promise<void> {
+    const redis = this.getClient();
+    await redis.hDel(this.key, jobId);
+    logger.debug({ jobId }, 'Job definition deleted');
+  }
+
+  /**
+   * Load all stored job definitions
+   * Entries that cannot be parsed are logged and skipped
+   */
+  async loadAll(): Promise<CronjobDefinition[]> {
+    const redis = this.getClient();
+    const entries = await redis.hGetAll(this.key);
+    const definitions: CronjobDefinition[] = [];
+
+    for (const [jobId, raw] of Object.entries(entries)) {
+      try {
+        const parsed = JSON.parse(raw);
+        definitions.push({
+          ...parsed,
+          createdAt: new Date(parsed.createdAt),
+          updatedAt: new Date(parsed.updatedAt),
+        });
+      } catch (error) {
+        logger.error({ error, jobId }, 'Failed to parse stored job definition, skipping');
+      }
+    }
+
+    logger.info({ count: definitions.length }, 'Job definitions loaded from store');
+    return definitions;
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('JobStore not initialized');
+    }
+    return this.redis;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Natural-language time parser for Indonesian and English phrases
+ * Examples: "besok jam 3 sore", "nanti malam", "5 menit lagi", "tomorrow 9am", "in 2 hours", "senin depan jam 8"
+ */
+
+import { getZonedParts, zonedDateTimeToTimestamp } from './datetime-utils.js';
+
+export interface NaturalTimeOptions {
+  timezone: string;
+  now?: number;
+}
+
+type Period = 'pagi' | 'siang' | 'sore' | 'malam' | 'tengah-malam';
+
+const UNIT_MS: Record<string, number> = {
+  detik: 1000, second: 1000, seconds: 1000, sec: 1000, secs: 1000,
+  menit: 60_000, minute: 60_000, minutes: 60_000, min: 60_000, mins: 60_000,
+  jam: 3_600_000, hour: 3_600_000, hours: 3_600_000, hr: 3_600_000, hrs: 3_600_000,
+  hari: 86_400_000, day: 86_400_000, days: 86_400_000,
+  minggu: 604_800_000, pekan: 604_800_000, week: 604_800_000, weeks: 604_800_000,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  satu: 1, dua: 2, tiga: 3, empat: 4, lima: 5, enam: 6, tujuh: 7, delapan: 8, sembilan: 9,
+  sepuluh: 10, sebelas: 11, 'dua belas': 12, duabelas: 12,
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12,
+};
+
+const WEEKDAYS: Record<string, number> = {
+  minggu: 0, ahad: 0, senin: 1, selasa: 2, rabu: 3, kamis: 4, jumat: 5, "jum'at": 5, sabtu: 6,
+  sunday: 0, monday: 1, tuesday: 2, wednesday: 3, thursday: 4, friday: 5, saturday: 6,
+};
+
+// Hour used when a phrase names a part of day without a clock time
+const PERIOD_DEFAULT_HOUR: Record<Period, number> = {
+  pagi: 8,
+  siang: 12,
+  sore: 16,
+  malam: 20,
+  'tengah-malam': 0,
+};
+
+// Hour used when a phrase names a day ("besok") without any time
+const DEFAULT_HOUR = 9;
+
+/**
+ * Parse a natural-language time phrase into a milliseconds timestamp
+ * Wall-clock times are resolved in options.timezone
+ * @throws Error if the phrase is not understood
+ */
+export function parseNaturalTime(phrase: string, options: NaturalTimeOptions): number {
+  const now = options.now ?? Date.now();
+  const text = normalizePhrase(phrase);
+
+  if (!text) {
+    throw new Error('Time expression is empty');
+  }
+
+  const relative = parseRelativeOffset(text);
+  if (relative !== null) {
+    return now + relative;
+  }
+
+  const absolute = parseAbsolutePhrase(text, now, options.timezone);
+  if (absolute !== null) {
+    return absolute;
+  }
+
+  throw new Error(
+    `Could not understand time expression: "${phrase}". ` +
+    `Examples: "besok jam 3 sore", "nanti malam", "30 menit lagi", "tomorrow 9am", "in 2 hours"`
+  );
+}
+
+function normalizePhrase(phrase: string): string {
+  let text = phrase.toLowerCase().trim().replace(/\s+/g, ' ').replace(/[,!?]/g, '');
+
+  text = text
+    .replace(/\bsetengah jam\b/g, '30 menit')
+    .replace(/\bhalf an hour\b/g, '30 minutes')
+    .replace(/\bsejam\b/g, '1 jam')
+    .replace(/\bsemenit\b/g, '1 menit')
+    .replace(/\bsehari\b/g, '1 hari')
+    .replace(/\bseminggu\b/g, '1 minggu')
+    .replace(/\ban? (hour|minute|day|week)\b/g, '1 $1');
+
+  // Longest number words first so "dua belas" wins over "dua"
+  const words = Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length);
+  for (const word of words) {
+    text = text.replace(new RegExp(`\\b${word}\\b`, 'g'), NUMBER_WORDS[word].toString());
+  }
+
+  return text;
+}
+
+/**
+ * "5 menit lagi", "dalam 2 jam", "in 3 days", "1 hour 30 minutes from now"
+ * Returns offset in milliseconds, or null if the phrase is not relative
+ */
+function parseRelativeOffset(text: string): number | null {
+  const match =
+    text.match(/^(?:dalam|in)\s+(.+)$/) ||
+    text.match(/^(.+?)\s+(?:lagi|dari sekarang|from now|later)$/);
+  if (!match) {
+    return null;
+  }
+
+  const body = match[1].replace(/\b(?:dan|and)\b/g, ' ').trim();
+  const unitPattern = Object.keys(UNIT_MS).sort((a, b) => b.length - a.length).join('|');
+  const partRegex = new RegExp(`(\\d+)\\s*(${unitPattern})\\b`, 'g');
+
+  let total = 0;
+  let consumed = '';
+  for (const part of body.matchAll(partRegex)) {
+    total += parseInt(part[1], 10) * UNIT_MS[part[2]];
+    consumed += part[0];
+  }
+
+  // Every token must belong to an "<n> <unit>" pair, otherwise this is not a pure offset
+  if (total === 0 || body.replace(/\s+/g, '') !== consumed.replace(/\s+/g, '')) {
+    return null;
+  }
+
+  return total;
+}
+
+/**
+ * "besok jam 3 sore", "nanti malam", "senin depan jam 8", "tomorrow 9am", "15:30"
+ * Returns timestamp, or null if no day or time component was recognised
+ */
+function parseAbsolutePhrase(text: string, now: number, timezone: string): number | null {
+  const today = getZonedParts(now, timezone);
+
+  // Day component
+  let dayOffset: number | null = null;
+  let weekdayMatched = false;
+
+  if (/\b(lusa|day after tomorrow)\b/.test(text)) {
+    dayOffset = 2;
+  } else if (/\b(besok|tomorrow)\b/.test(text)) {
+    dayOffset = 1;
+  } else if (/\b(hari ini|today|tonight|nanti|this (?:morning|afternoon|evening))\b/.test(text)) {
+    dayOffset = 0;
+  } else if (/\b(minggu depan|pekan depan|next week)\b/.test(text)) {
+    dayOffset = 7;
+  } else {
+    const weekdayMatch = text.match(
+      /\b(?:(next)\s+)?(senin|selasa|rabu|kamis|jum'?at|sabtu|ahad|monday|tuesday|wednesday|thursday|friday|saturday|sunday|(?:hari|hr)\s+minggu)\b(?:\s+(depan))?/
+    );
+    if (weekdayMatch) {
+      const name = weekdayMatch[2].replace(/^(?:hari|hr)\s+/, '');
+      const target = WEEKDAYS[name] ?? WEEKDAYS[name.replace("'", '')];
+      const explicitNext = !!(weekdayMatch[1] || weekdayMatch[3]);
+      dayOffset = (target - today.weekday + 7) % 7;
+      if (dayOffset === 0 && explicitNext) {
+        dayOffset = 7;
+      }
+      weekdayMatched = !explicitNext;
+    }
+  }
+
+  // Period of day
+  let period: Period | null = null;
+  if (/\b(tengah malam|midnight)\b/.test(text)) {
+    period = 'tengah-malam';
+  } else if (/\b(pagi|morning)\b/.test(text)) {
+    period = 'pagi';
+  } else if (/\b(siang|noon|tengah hari)\b/.test(text)) {
+    period = 'siang';
+  } else if (/\b(sore|afternoon)\b/.test(text)) {
+    period = 'sore';
+  } else if (/\b(malam|evening|tonight|night)\b/.test(text)) {
+    period = 'malam';
+  }
+
+  // Clock time
+  let hour: number | null = null;
+  let minute = 0;
+  const clockMatch =
+    text.match(/\b(?:jam|pukul|pkl\.?|at)\s*(\d{1,2})(?:[:.](\d{2}))?(?:\s*(am|pm|a\.m\.|p\.m\.))?/) ||
+    text.match(/\b(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)/) ||
+    text.match(/\b(\d{1,2})[:.](\d{2})\b()/);
+
+  if (clockMatch) {
+    hour = parseInt(clockMatch[1], 10);
+    minute = clockMatch[2] ? parseInt(clockMatch[2], 10) : 0;
+    const meridiem = clockMatch[3]?.replace(/\./g, '');
+
+    if (hour > 23 || minute > 59 || (meridiem && (hour < 1 || hour > 12))) {
+      throw new Error(`Invalid time of day in "${text}"`);
+    }
+
+    if (meridiem === 'pm' && hour < 12) {
+      hour += 12;
+    } else if (meridiem === 'am' && hour === 12) {
+      hour = 0;
+    } else if (!meridiem && period) {
+      hour = applyPeriod(hour, period);
+    }
+  } else if (period) {
+    hour = PERIOD_DEFAULT_HOUR[period];
+  }
+
+  if (dayOffset === null && hour === null) {
+    return null;
+  }
+
+  // "tengah malam" / "jam 12 malam" means the midnight at the end of the named day
+  if (hour === 24 || period === 'tengah-malam') {
+    hour = 0;
+    dayOffset = (dayOffset ?? 0) + 1;
+  }
+
+  const explicitDay = dayOffset !== null;
+  let timestamp = zonedDateTimeToTimestamp(
+    today.year,
+    today.month,
+    today.day + (dayOffset ?? 0),
+    hour ?? DEFAULT_HOUR,
+    minute,
+    0,
+    timezone
+  );
+
+  // A bare time that already passed today means the next occurrence
+  if (timestamp <= now && !explicitDay) {
+    timestamp = zonedDateTimeToTimestamp(today.year, today.month, today.day + 1, hour!, minute, 0, timezone);
+  } else if (timestamp <= now && weekdayMatched) {
+    timestamp = zonedDateTimeToTimestamp(
+      today.year, today.month, today.day + dayOffset! + 7, hour ?? DEFAULT_HOUR, minute, 0, timezone
+    );
+  }
+
+  return timestamp;
+}
+
+/**
+ * Convert a 12-hour style hour to 24-hour using an Indonesian/English part of day
+ * Returns 24 for "jam 12 malam" (midnight at the end of the day)
+ */
+function applyPeriod(hour: number, period: Period): number {
+  switch (period) {
+    case 'pagi':
+      return hour === 12 ? 0 : hour;
+    case 'siang':
+      // "jam 11 siang" = 11, "jam 1 siang" = 13
+      return hour >= 1 && hour <= 5 ? hour + 12 : hour;
+    case 'sore':
+      return hour < 12 ? hour + 12 : hour;
+    case 'malam':
+      if (hour === 12) return 24;
+      // "jam 1 malam" is early morning; "jam 8 malam" = 20
+      return hour >= 5 && hour < 12 ? hour + 12 : hour;
+    case 'tengah-malam':
+      return hour;
+  }
+}
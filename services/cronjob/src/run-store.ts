@@ -0,0 +1,152 @@
+import { RedisClientType } from 'redis';
+import { createLogger } from '@aspri/logger';
+import { getRedisClient } from '@aspri/utils';
+import { JobRun, JobRunOutcome } from '@aspri/types';
+
+const logger = createLogger('run-store');
+
+export interface RunStoreConfig {
+  historyLimit: number; // Max runs kept per job
+  retentionMs: number; // Runs older than this are pruned
+}
+
+/**
+ * Execution history for jobs, scoped per job
+ *
+ * Key layout (per job):
+ * - {prefix}:{jobId}        HASH eventId -> JSON JobRun
+ * - {prefix}:{jobId}:index  ZSET eventId scored by firedAt, used for ordering and pruning
+ */
+export class RunStore {
+  private redis: RedisClientType | null = null;
+  private readonly prefix: string;
+  private readonly config: RunStoreConfig;
+
+  constructor(prefix?: string, config?: Partial<RunStoreConfig>) {
+    this.prefix = prefix || process.env.CRONJOB_RUN_KEY_PREFIX || 'cronjob:runs';
+    this.config = {
+      historyLimit: config?.historyLimit ?? parseInt(process.env.CRONJOB_RUN_HISTORY_LIMIT || '50'),
+      retentionMs: config?.retentionMs ?? parseInt(process.env.CRONJOB_RUN_RETENTION_DAYS || '30') * 86_400_000,
+    };
+  }
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+    logger.info({ prefix: this.prefix, ...this.config }, 'RunStore initialized');
+  }
+
+  /**
+   * Record a new run and prune history beyond the retention limits
+   */
+  async record(run: JobRun): Promise<void> {
+    const redis = this.getClient();
+    const ttlMs = this.config.retentionMs;
+
+    await redis
+      .multi()
+      .hSet(this.runsKey(run.jobId), run.eventId, JSON.stringify(run))
+      .zAdd(this.indexKey(run.jobId), { score: run.firedAt, value: run.eventId })
+      .pExpire(this.runsKey(run.jobId), ttlMs)
+      .pExpire(this.indexKey(run.jobId), ttlMs)
+      .exec();
+
+    await this.prune(run.jobId);
+    logger.debug({ jobId: run.jobId, eventId: run.eventId, status: run.status }, 'Job run recorded');
+  }
+
+  /**
+   * Attach the downstream outcome to a recorded run
+   * Returns the updated run, or null if the run is unknown (pruned or never recorded)
+   */
+  async recordOutcome(
+    jobId: string,
+    eventId: string,
+    outcome: JobRunOutcome,
+    detail: string | undefined,
+    completedAt: number
+  ): Promise<JobRun | null> {
+    const redis = this.getClient();
+    const raw = await redis.hGet(this.runsKey(jobId), eventId);
+
+    if (!raw) {
+      logger.warn({ jobId, eventId, outcome }, 'Outcome reported for unknown run, ignoring');
+      return null;
+    }
+
+    const run: JobRun = {
+      ...JSON.parse(raw),
+      status: outcome,
+      detail,
+      completedAt,
+    };
+
+    await redis.hSet(this.runsKey(jobId), eventId, JSON.stringify(run));
+    logger.debug({ jobId, eventId, outcome }, 'Job run outcome recorded');
+    return run;
+  }
+
+  /**
+   * Get the most recent runs of a job, newest first
+   */
+  async getRuns(jobId: string, limit: number = this.config.historyLimit): Promise<JobRun[]> {
+    const redis = this.getClient();
+    const eventIds = await redis.zRange(this.indexKey(jobId), 0, limit - 1, { REV: true });
+
+    if (eventIds.length === 0) {
+      return [];
+    }
+
+    const raws = await redis.hmGet(this.runsKey(jobId), eventIds);
+    return raws
+      .filter((raw): raw is string => !!raw)
+      .map((raw) => JSON.parse(raw) as JobRun);
+  }
+
+  /**
+   * Remove the whole history of a job
+   */
+  async deleteRuns(jobId: string): Promise<void> {
+    const redis = this.getClient();
+    await redis.del([this.runsKey(jobId), this.indexKey(jobId)]);
+    logger.debug({ jobId }, 'Job run history deleted');
+  }
+
+  /**
+   * Drop runs older than the retention period and runs beyond the per-job limit
+   */
+  private async prune(jobId: string): Promise<void> {
+    const redis = this.getClient();
+    const cutoff = Date.now() - this.config.retentionMs;
+
+    const expired = await redis.zRangeByScore(this.indexKey(jobId), '-inf', cutoff);
+    const overflow = await redis.zRange(this.indexKey(jobId), 0, -(this.config.historyLimit + 1));
+    const stale = Array.from(new Set([...expired, ...overflow]));
+
+    if (stale.length === 0) {
+      return;
+    }
+
+    await redis
+      .multi()
+      .zRem(this.indexKey(jobId), stale)
+      .hDel(this.runsKey(jobId), stale)
+      .exec();
+
+    logger.debug({ jobId, pruned: stale.length }, 'Job run history pruned');
+  }
+
+  private runsKey(jobId: string): string {
+    return `${this.prefix}:${jobId}`;
+  }
+
+  private indexKey(jobId: string): string {
+    return `${this.prefix}:${jobId}:index`;
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('RunStore not initialized');
+    }
+    return this.redis;
+  }
+}
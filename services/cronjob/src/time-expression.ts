@@ -0,0 +1,48 @@
+/**
+ * Resolve a free-form scheduledExpression into a milliseconds timestamp
+ * Tries, in order: yyyyMMddHHmmss, ISO-8601 datetime, duration ("2h30m", "1d", "P1DT2H"),
+ * then Indonesian/English natural-language phrases
+ */
+
+import { parseDateTime, isDateTimeFormat, parseIsoDateTime, isIsoDateTimeFormat } from './datetime-utils.js';
+import { parseDuration, isDurationFormat } from './duration-utils.js';
+import { parseNaturalTime } from './natural-time.js';
+
+export type TimeExpressionKind = 'datetime' | 'iso-datetime' | 'duration' | 'natural';
+
+export interface ResolvedTimeExpression {
+  timestamp: number;
+  kind: TimeExpressionKind;
+}
+
+/**
+ * @param expression - e.g. "20251021150000", "2025-10-21T15:00:00+07:00", "PT30M", "besok jam 3 sore"
+ * @param options.timezone - Timezone for wall-clock expressions
+ * @param options.now - Reference time (defaults to Date.now())
+ * @throws Error if the expression cannot be resolved
+ */
+export function parseScheduledExpression(
+  expression: string,
+  options: { timezone: string; now?: number }
+): ResolvedTimeExpression {
+  if (typeof expression !== 'string' || !expression.trim()) {
+    throw new Error(`Invalid scheduledExpression: expected non-empty string, received: "${expression}"`);
+  }
+
+  const trimmed = expression.trim();
+  const now = options.now ?? Date.now();
+
+  if (isDateTimeFormat(trimmed)) {
+    return { timestamp: parseDateTime(trimmed, options.timezone), kind: 'datetime' };
+  }
+
+  if (isIsoDateTimeFormat(trimmed)) {
+    return { timestamp: parseIsoDateTime(trimmed, options.timezone), kind: 'iso-datetime' };
+  }
+
+  if (isDurationFormat(trimmed)) {
+    return { timestamp: now + parseDuration(trimmed), kind: 'duration' };
+  }
+
+  return { timestamp: parseNaturalTime(trimmed, { timezone: options.timezone, now }), kind: 'natural' };
+}
@@ -5,9 +5,14 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
 import { createLogger } from '@aspri/logger';
-import { initializeValidators } from '@aspri/utils';
+import { initializeValidators, loadToolPolicy, validatorRegistry } from '@aspri/utils';
 import { whatsappTools, handleWhatsAppTool } from './tools/whatsapp.js';
 import { cronjobTools, handleCronjobTool } from './tools/cronjob.js';
+import { todoTools, handleTodoTool } from './tools/todo.js';
+import { reminderTools, handleReminderTool } from './tools/reminder.js';
+import { whitelistTools, handleWhitelistTool } from './tools/whitelist.js';
+import { approvalTools, handleApprovalTool } from './tools/approval.js';
+import { todoStore } from './todo-store.js';
 
 const logger = createLogger('mcp-server');
 
@@ -27,7 +32,7 @@ const server = new Server(
 // Register tool list handler
 server.setRequestHandler(ListToolsRequestSchema, async () => {
   return {
-    tools: [...whatsappTools, ...cronjobTools],
+    tools: [...whatsappTools, ...cronjobTools, ...todoTools, ...reminderTools, ...whitelistTools, ...approvalTools],
   };
 });
 
@@ -46,6 +51,21 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       userId: userId
     }, 'Tool invoked by AI');
 
+    // Tool policy: roles, disabled tools, deny-by-default in strict mode
+    const authorization = await validatorRegistry.authorize(name, userId);
+    if (!authorization.valid) {
+      logger.warn({ tool: name, userId, code: authorization.details?.code }, 'Tool call denied by policy');
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `❌ Tool ${name} tidak diizinkan: ${authorization.error}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     let result;
 
     // WhatsApp tools
@@ -56,6 +76,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     else if (name.startsWith('cronjob_')) {
       result = await handleCronjobTool(name, args, context);
     }
+    // Todo tools
+    else if (name.startsWith('todo_')) {
+      result = await handleTodoTool(name, args, context);
+    }
+    // Reminder tools
+    else if (name.startsWith('reminder_')) {
+      result = await handleReminderTool(name, args, context);
+    }
+    // Whitelist tools
+    else if (name.startsWith('whitelist_')) {
+      result = await handleWhitelistTool(name, args, context);
+    }
+    // Approval tools
+    else if (name.startsWith('approval_')) {
+      result = await handleApprovalTool(name, args, context);
+    }
     else {
       throw new Error(`Unknown tool: ${name}`);
     }
@@ -86,9 +122,13 @@ async function main() {
   logger.info('Starting MCP Server...');
 
   // Initialize validators
-  initializeValidators();
+  await initializeValidators();
+  loadToolPolicy();
   logger.info('Validators initialized');
 
+  // Initialize stores
+  await todoStore.initialize();
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
@@ -0,0 +1,198 @@
+import { RedisClientType } from 'redis';
+import { createLogger } from '@aspri/logger';
+import { getRedisClient } from '@aspri/utils';
+import { TodoItem } from '@aspri/types';
+
+const logger = createLogger('todo-store');
+
+export const DEFAULT_TODO_LIST = 'default';
+
+/**
+ * Redis-backed todo storage, scoped per user
+ *
+ * Key layout (per user):
+ * - {prefix}:{userId}:items  HASH itemId -> JSON TodoItem
+ * - {prefix}:{userId}:seq    counter used to allocate short numeric item IDs
+ */
+export class TodoStore {
+  private redis: RedisClientType | null = null;
+  private readonly prefix: string;
+
+  constructor(prefix?: string) {
+    this.prefix = prefix || process.env.TODO_KEY_PREFIX || 'todo';
+  }
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+    logger.info({ prefix: this.prefix }, 'TodoStore initialized');
+  }
+
+  /**
+   * Add one or more items to a list (the list is created implicitly)
+   */
+  async addItems(userId: string, texts: string[], list: string = DEFAULT_TODO_LIST): Promise<TodoItem[]> {
+    const redis = this.getClient();
+    const listName = normalizeListName(list);
+    const items: TodoItem[] = [];
+
+    for (const text of texts) {
+      const id = await redis.incr(this.seqKey(userId));
+      items.push({
+        id,
+        list: listName,
+        text: text.trim(),
+        completed: false,
+        createdAt: Date.now(),
+      });
+    }
+
+    if (items.length > 0) {
+      await redis.hSet(
+        this.itemsKey(userId),
+        Object.fromEntries(items.map((item) => [item.id.toString(), JSON.stringify(item)]))
+      );
+    }
+
+    logger.info({ userId, list: listName, count: items.length }, 'Todo items added');
+    return items;
+  }
+
+  /**
+   * Get items, optionally filtered by list, ordered by creation time
+   */
+  async getItems(userId: string, list?: string): Promise<TodoItem[]> {
+    const redis = this.getClient();
+    const entries = await redis.hGetAll(this.itemsKey(userId));
+    const listName = list ? normalizeListName(list) : undefined;
+
+    return Object.values(entries)
+      .map((raw) => JSON.parse(raw) as TodoItem)
+      .filter((item) => !listName || item.list === listName)
+      .sort((a, b) => a.createdAt - b.createdAt || a.id - b.id);
+  }
+
+  /**
+   * Get list names with item counts
+   */
+  async getLists(userId: string): Promise<Array<{ name: string; total: number; completed: number }>> {
+    const items = await this.getItems(userId);
+    const lists = new Map<string, { name: string; total: number; completed: number }>();
+
+    for (const item of items) {
+      const entry = lists.get(item.list) ?? { name: item.list, total: 0, completed: 0 };
+      entry.total++;
+      if (item.completed) {
+        entry.completed++;
+      }
+      lists.set(item.list, entry);
+    }
+
+    return Array.from(lists.values());
+  }
+
+  /**
+   * Mark items as completed or not completed
+   * Returns the updated items; IDs that do not exist are reported in `notFound`
+   */
+  async setCompleted(
+    userId: string,
+    itemIds: number[],
+    completed: boolean
+  ): Promise<{ updated: TodoItem[]; notFound: number[] }> {
+    const redis = this.getClient();
+    const { found, notFound } = await this.findItems(userId, itemIds);
+
+    const updated = found.map((item) => ({
+      ...item,
+      completed,
+      completedAt: completed ? Date.now() : undefined,
+    }));
+
+    if (updated.length > 0) {
+      await redis.hSet(
+        this.itemsKey(userId),
+        Object.fromEntries(updated.map((item) => [item.id.toString(), JSON.stringify(item)]))
+      );
+    }
+
+    logger.info({ userId, completed, updated: updated.length, notFound }, 'Todo items updated');
+    return { updated, notFound };
+  }
+
+  /**
+   * Delete items by ID
+   */
+  async deleteItems(userId: string, itemIds: number[]): Promise<{ deleted: TodoItem[]; notFound: number[] }> {
+    const redis = this.getClient();
+    const { found, notFound } = await this.findItems(userId, itemIds);
+
+    if (found.length > 0) {
+      await redis.hDel(this.itemsKey(userId), found.map((item) => item.id.toString()));
+    }
+
+    logger.info({ userId, deleted: found.length, notFound }, 'Todo items deleted');
+    return { deleted: found, notFound };
+  }
+
+  /**
+   * Delete completed items, optionally only from one list
+   */
+  async clearCompleted(userId: string, list?: string): Promise<TodoItem[]> {
+    const items = await this.getItems(userId, list);
+    const completed = items.filter((item) => item.completed);
+    const { deleted } = await this.deleteItems(userId, completed.map((item) => item.id));
+    return deleted;
+  }
+
+  /**
+   * Delete a whole list with all of its items
+   */
+  async deleteList(userId: string, list: string): Promise<TodoItem[]> {
+    const items = await this.getItems(userId, list);
+    const { deleted } = await this.deleteItems(userId, items.map((item) => item.id));
+    return deleted;
+  }
+
+  private async findItems(userId: string, itemIds: number[]): Promise<{ found: TodoItem[]; notFound: number[] }> {
+    const redis = this.getClient();
+    if (itemIds.length === 0) {
+      return { found: [], notFound: [] };
+    }
+
+    const raws = await redis.hmGet(this.itemsKey(userId), itemIds.map((id) => id.toString()));
+    const found: TodoItem[] = [];
+    const notFound: number[] = [];
+
+    raws.forEach((raw, index) => {
+      if (raw) {
+        found.push(JSON.parse(raw));
+      } else {
+        notFound.push(itemIds[index]);
+      }
+    });
+
+    return { found, notFound };
+  }
+
+  private itemsKey(userId: string): string {
+    return `${this.prefix}:${userId}:items`;
+  }
+
+  private seqKey(userId: string): string {
+    return `${this.prefix}:${userId}:seq`;
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('TodoStore not initialized');
+    }
+    return this.redis;
+  }
+}
+
+function normalizeListName(list: string): string {
+  return list.trim().toLowerCase() || DEFAULT_TODO_LIST;
+}
+
+// Singleton instance
+export const todoStore = new TodoStore();
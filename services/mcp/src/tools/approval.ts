@@ -0,0 +1,86 @@
+import { createLogger } from '@aspri/logger';
+import { approvalStore } from '@aspri/utils';
+
+const logger = createLogger('mcp-approval-tools');
+
+export const approvalTools = [
+  {
+    name: 'approval_list',
+    description: 'Get the current user\'s pending approvals (actions waiting for a YES/NO reply because the target is not whitelisted)',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
+
+/**
+ * Create a pending approval for a blocked action and tell the AI how to ask the user
+ * The user's YES/NO reply is handled by ai-engine, which re-runs the action once approved
+ */
+export async function requestApproval(
+  userId: string,
+  toolName: string,
+  resource: string,
+  action: { tool: string; args: Record<string, any> }
+) {
+  const { userId: _userId, ...args } = action.args;
+  const approval = await approvalStore.create(userId, {
+    toolName,
+    resource,
+    action: { tool: action.tool, args },
+  });
+
+  const minutes = Math.round((approval.expiresAt - approval.createdAt) / 60_000);
+  // A whitelist request has nothing to allow once, so it only offers the permanent answer
+  const question = action.tool === 'whitelist_add'
+    ? `"Tambahkan ${resource} ke whitelist? Balas YES ${approval.id} untuk menyimpan, atau NO untuk membatalkan."`
+    : `"Izinkan kirim ke ${resource}? Balas YES untuk mengizinkan sekali saja, ` +
+      `YES ${approval.id} untuk mengizinkan dan menyimpan ke whitelist, atau NO untuk membatalkan."`;
+  logger.info({ userId, approvalId: approval.id, resource, tool: action.tool }, 'Approval requested');
+
+  return {
+    content: [{
+      type: 'text',
+      text: `⏳ Nomor ${resource} belum ada dalam whitelist. Permintaan persetujuan #${approval.id} dibuat ` +
+            `(berlaku ${minutes} menit).\n\n` +
+            `Tanyakan ke pengguna persis seperti ini:\n${question}\n\n` +
+            `Jangan panggil ulang tool ini; aksi akan dijalankan otomatis setelah pengguna membalas YES.`,
+    }],
+  };
+}
+
+export async function handleApprovalTool(name: string, args: any, context?: { userId?: string }) {
+  const userId = context?.userId;
+  if (!userId) {
+    throw new Error('userId is required for approval tools');
+  }
+
+  switch (name) {
+    case 'approval_list': {
+      logger.info({ userId }, 'Executing approval_list tool');
+      const approvals = await approvalStore.list(userId);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              approvals.map((approval) => ({
+                approvalId: approval.id,
+                resource: approval.resource,
+                action: approval.action.tool,
+                expiresAt: new Date(approval.expiresAt).toISOString(),
+              })),
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown Approval tool: ${name}`);
+  }
+}
@@ -1,10 +1,51 @@
 import axios from 'axios';
 import { createLogger } from '@aspri/logger';
+import { approvalStore } from '@aspri/utils';
 
 const logger = createLogger('mcp-cronjob-tools');
 
 const CRONJOB_API_URL = `http://localhost:${process.env.CRONJOB_PORT || 3002}/api`;
 
+/**
+ * Authenticate to the Cronjob Service and name the calling user so it can enforce job ownership
+ * A tool call without a user is refused rather than sent as an unscoped request
+ */
+export function cronjobRequestConfig(context?: { userId?: string }) {
+  if (!context?.userId) {
+    throw new Error('userId is required for cronjob tools');
+  }
+  return {
+    headers: {
+      Authorization: `Bearer ${process.env.CRONJOB_API_TOKEN || ''}`,
+      'X-User-Id': context.userId,
+    },
+  };
+}
+
+/**
+ * Prefer the Cronjob Service's error message over axios' generic "status code" message
+ */
+export function apiErrorMessage(error: any): string {
+  return error?.response?.data?.error?.message || error?.message || String(error);
+}
+
+/**
+ * Report a job rejected by the cron job validator (403) to the AI instead of failing the tool call
+ */
+function rejectedJobResult(error: any) {
+  if (error?.response?.status !== 403) {
+    throw new Error(apiErrorMessage(error));
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: `❌ Job ditolak: ${apiErrorMessage(error)}`,
+    }],
+    isError: true,
+  };
+}
+
 export const cronjobTools = [
   {
     name: 'cronjob_create',
@@ -31,7 +72,15 @@ export const cronjobTools = [
         },
         delayTime: {
           type: 'string',
-          description: 'Duration delay from now (required for one-time-relative jobs). Format: [Xh][Ym][Zs] where X=hours, Y=minutes, Z=seconds. Examples: "2h" = 2 hours, "30m" = 30 minutes, "45s" = 45 seconds, "2h30m" = 2 hours 30 minutes, "1h15m30s" = 1 hour 15 minutes 30 seconds',
+          description: 'Duration delay from now (required for one-time-relative jobs). Format: [Xw][Xd][Xh][Ym][Zs] where w=weeks, d=days, h=hours, m=minutes, s=seconds, or ISO-8601 duration. Examples: "2h" = 2 hours, "30m" = 30 minutes, "45s" = 45 seconds, "2h30m" = 2 hours 30 minutes, "1d" = 1 day, "2w" = 2 weeks, "P1DT2H" = 1 day 2 hours',
+        },
+        scheduledExpression: {
+          type: 'string',
+          description: 'Alternative to scheduledTime for one-time jobs: the time as the user said it, resolved by the server. Accepts ISO-8601 ("2025-12-21T15:00:00+07:00"), durations ("30m", "1d", "PT2H"), or Indonesian/English phrases ("besok jam 3 sore", "nanti malam", "10 menit lagi", "tomorrow 9am"). Prefer this over computing scheduledTime yourself.',
+        },
+        timezone: {
+          type: 'string',
+          description: 'IANA timezone for the cron schedule and wall-clock times (e.g., "Asia/Jakarta"). Defaults to the user\'s configured timezone',
         },
         enabled: {
           type: 'boolean',
@@ -48,10 +97,15 @@ export const cronjobTools = [
   },
   {
     name: 'cronjob_list',
-    description: 'Get list of all cron jobs',
+    description: 'Get list of cron jobs owned by the current user (admins see all jobs)',
     inputSchema: {
       type: 'object',
-      properties: {},
+      properties: {
+        ownerId: {
+          type: 'string',
+          description: 'Only return jobs owned by this user (useful for admins)',
+        },
+      },
     },
   },
   {
@@ -68,6 +122,25 @@ export const cronjobTools = [
       required: ['jobId'],
     },
   },
+  {
+    name: 'cronjob_history',
+    description: 'Get the execution history of a cron job or reminder (newest first): when it fired and whether the scheduled task was actually processed. Use this to answer questions like "did my reminder yesterday actually go out?"',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        jobId: {
+          type: 'string',
+          description: 'ID of the cron job (or reminderId from reminder_list)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum number of runs to return (default: 10)',
+          default: 10,
+        },
+      },
+      required: ['jobId'],
+    },
+  },
   {
     name: 'cronjob_update',
     description: 'Update an existing cron job',
@@ -145,13 +218,15 @@ export const cronjobTools = [
 export async function handleCronjobTool(name: string, args: any, context?: { userId?: string }) {
   switch (name) {
     case 'cronjob_create': {
-      const { name: jobName, type, schedule, scheduledTime, delayTime, enabled = true, payload } = args;
+      const { name: jobName, type, schedule, scheduledTime, delayTime, scheduledExpression, timezone, enabled = true, payload } = args;
       logger.info({
         jobName,
         type,
         schedule,
         scheduledTime,
         delayTime,
+        scheduledExpression,
+        timezone,
         enabled,
         payload
       }, 'Executing cronjob_create tool');
@@ -160,6 +235,7 @@ export async function handleCronjobTool(name: string, args: any, context?: { use
       const requestBody: any = {
         name: jobName,
         type,
+        timezone,
         enabled,
         payload,
       };
@@ -169,11 +245,16 @@ export async function handleCronjobTool(name: string, args: any, context?: { use
         requestBody.schedule = schedule;
       } else if (type === 'one-time') {
         requestBody.scheduledTime = scheduledTime;
+        requestBody.scheduledExpression = scheduledExpression;
       } else if (type === 'one-time-relative') {
         requestBody.delayTime = delayTime;
       }
 
-      const response = await axios.post(`${CRONJOB_API_URL}/jobs`, requestBody);
+      const response = await axios.post(`${CRONJOB_API_URL}/jobs`, requestBody, cronjobRequestConfig(context))
+        .catch((error) => rejectedJobResult(error));
+      if ('isError' in response) {
+        return response;
+      }
 
       return {
         content: [
@@ -186,8 +267,12 @@ export async function handleCronjobTool(name: string, args: any, context?: { use
     }
 
     case 'cronjob_list': {
-      logger.info({}, 'Executing cronjob_list tool');
-      const response = await axios.get(`${CRONJOB_API_URL}/jobs`);
+      const { ownerId } = args;
+      logger.info({ ownerId }, 'Executing cronjob_list tool');
+      const response = await axios.get(`${CRONJOB_API_URL}/jobs`, {
+        ...cronjobRequestConfig(context),
+        params: ownerId ? { ownerId } : undefined,
+      });
 
       return {
         content: [
@@ -202,7 +287,25 @@ export async function handleCronjobTool(name: string, args: any, context?: { use
     case 'cronjob_get': {
       const { jobId } = args;
       logger.info({ jobId }, 'Executing cronjob_get tool');
-      const response = await axios.get(`${CRONJOB_API_URL}/jobs/${jobId}`);
+      const response = await axios.get(`${CRONJOB_API_URL}/jobs/${jobId}`, cronjobRequestConfig(context));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(response.data.data, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'cronjob_history': {
+      const { jobId, limit = 10 } = args;
+      logger.info({ jobId, limit }, 'Executing cronjob_history tool');
+      const response = await axios.get(`${CRONJOB_API_URL}/jobs/${jobId}/runs`, {
+        ...cronjobRequestConfig(context),
+        params: { limit },
+      });
 
       return {
         content: [
@@ -215,9 +318,13 @@ export async function handleCronjobTool(name: string, args: any, context?: { use
     }
 
     case 'cronjob_update': {
-      const { jobId, ...updates } = args;
+      const { jobId, userId: _userId, ...updates } = args;
       logger.info({ jobId, updates }, 'Executing cronjob_update tool');
-      const response = await axios.patch(`${CRONJOB_API_URL}/jobs/${jobId}`, updates);
+      const response = await axios.patch(`${CRONJOB_API_URL}/jobs/${jobId}`, updates, cronjobRequestConfig(context))
+        .catch((error) => rejectedJobResult(error));
+      if ('isError' in response) {
+        return response;
+      }
 
       return {
         content: [
@@ -232,7 +339,8 @@ export async function handleCronjobTool(name: string, args: any, context?: { use
     case 'cronjob_delete': {
       const { jobId } = args;
       logger.info({ jobId }, 'Executing cronjob_delete tool');
-      await axios.delete(`${CRONJOB_API_URL}/jobs/${jobId}`);
+      await axios.delete(`${CRONJOB_API_URL}/jobs/${jobId}`, cronjobRequestConfig(context));
+      await approvalStore.revokeJobGrant(jobId);
 
       return {
         content: [
@@ -247,7 +355,11 @@ export async function handleCronjobTool(name: string, args: any, context?: { use
     case 'cronjob_start': {
       const { jobId } = args;
       logger.info({ jobId }, 'Executing cronjob_start tool');
-      await axios.post(`${CRONJOB_API_URL}/jobs/${jobId}/start`);
+      const response = await axios.post(`${CRONJOB_API_URL}/jobs/${jobId}/start`, undefined, cronjobRequestConfig(context))
+        .catch((error) => rejectedJobResult(error));
+      if ('isError' in response) {
+        return response;
+      }
 
       return {
         content: [
@@ -262,7 +374,7 @@ export async function handleCronjobTool(name: string, args: any, context?: { use
     case 'cronjob_stop': {
       const { jobId } = args;
       logger.info({ jobId }, 'Executing cronjob_stop tool');
-      await axios.post(`${CRONJOB_API_URL}/jobs/${jobId}/stop`);
+      await axios.post(`${CRONJOB_API_URL}/jobs/${jobId}/stop`, undefined, cronjobRequestConfig(context));
 
       return {
         content: [
@@ -0,0 +1,279 @@
+import axios from 'axios';
+import { createLogger } from '@aspri/logger';
+import { approvalStore, validatorRegistry } from '@aspri/utils';
+import { cronjobRequestConfig, apiErrorMessage } from './cronjob.js';
+import { requestApproval } from './approval.js';
+
+const logger = createLogger('mcp-reminder-tools');
+
+const CRONJOB_API_URL = `http://localhost:${process.env.CRONJOB_PORT || 3002}/api`;
+
+export const reminderTools = [
+  {
+    name: 'reminder_create',
+    description: 'Schedule a WhatsApp reminder. The recipient is validated against the whitelist and the underlying cron job is created automatically. Use this instead of cronjob_create for reminders and scheduled messages.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        recipient: {
+          type: 'string',
+          description: 'Phone number in international format (e.g., 628123456789) that receives the reminder. Omit to remind the current user.',
+        },
+        message: {
+          type: 'string',
+          description: 'Reminder text that will be sent to the recipient',
+        },
+        time: {
+          type: 'string',
+          description: 'When to send (one-time), as the user said it. Accepts yyyyMMddHHmmss ("20251221150000"), ISO-8601 ("2025-12-21T15:00:00+07:00"), durations ("30m", "2h15m", "1d"), or Indonesian/English phrases ("besok jam 3 sore", "nanti malam", "10 menit lagi", "tomorrow 9am")',
+        },
+        schedule: {
+          type: 'string',
+          description: 'Cron expression for a repeating reminder instead of "time" (e.g., "0 9 * * *" = every day at 9 AM)',
+        },
+        name: {
+          type: 'string',
+          description: 'Optional short name for the reminder',
+        },
+      },
+      required: ['message'],
+    },
+  },
+  {
+    name: 'reminder_list',
+    description: 'Get the reminders created by the current user',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        includeExecuted: {
+          type: 'boolean',
+          description: 'Include one-time reminders that were already sent (default: false)',
+          default: false,
+        },
+      },
+    },
+  },
+  {
+    name: 'reminder_cancel',
+    description: 'Cancel (delete) a reminder created by the current user',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        reminderId: {
+          type: 'string',
+          description: 'ID of the reminder (as shown by reminder_list)',
+        },
+      },
+      required: ['reminderId'],
+    },
+  },
+];
+
+/**
+ * Build the prompt executed by the AI when the reminder job fires
+ */
+function buildReminderPrompt(recipient: string, message: string, requester: string): string {
+  const prompt = `Kirim pesan WhatsApp pengingat berikut ke nomor ${recipient}: "${message}"`;
+  return recipient === requester
+    ? prompt
+    : `${prompt}. Setelah terkirim, kabari ${requester} bahwa pengingat sudah dikirim.`;
+}
+
+function isReminderOwnedBy(job: any, userId: string): boolean {
+  return job?.payload?.kind === 'reminder' && job?.payload?.context?.requestedBy === userId;
+}
+
+function toReminderView(job: any) {
+  return {
+    reminderId: job.id,
+    name: job.name,
+    recipient: job.payload.reminder.recipient,
+    message: job.payload.reminder.message,
+    type: job.type,
+    schedule: job.schedule,
+    scheduledTime: job.scheduledTime,
+    enabled: job.enabled,
+    executed: job.executed ?? false,
+    executedAt: job.executedAt,
+    failed: job.failed ?? false,
+  };
+}
+
+/**
+ * Tie a one-shot approval (a plain "YES") of a non-whitelisted recipient to the reminder's job
+ * The reminder is sent later, possibly after the one-shot grant expired or more than once (recurring),
+ * so the grant is moved to the job instead of waiting for the first send to the recipient.
+ */
+async function keepGrantForJob(jobId: string, userId: string, recipient: string): Promise<void> {
+  const whitelist = await validatorRegistry.getWhitelist('whatsapp_send_message', userId);
+  if (whitelist.includes(recipient)) {
+    return;
+  }
+
+  if (await approvalStore.consumeGrant(userId, 'whatsapp_send_message', recipient)) {
+    await approvalStore.grantForJob(jobId, userId, 'whatsapp_send_message', recipient);
+  }
+}
+
+export async function handleReminderTool(name: string, args: any, context?: { userId?: string }) {
+  const userId = context?.userId;
+  if (!userId) {
+    throw new Error('userId is required for reminder tools');
+  }
+
+  switch (name) {
+    case 'reminder_create': {
+      const { message, time, schedule, name: reminderName } = args;
+      const recipientInput: string = args.recipient || userId;
+
+      logger.info({ userId, recipient: recipientInput, message, time, schedule }, 'Executing reminder_create tool');
+
+      if (!message) {
+        throw new Error('message is required');
+      }
+      if (!time && !schedule) {
+        throw new Error('Either "time" (one-time) or "schedule" (recurring) is required');
+      }
+      if (time && schedule) {
+        throw new Error('Provide either "time" or "schedule", not both');
+      }
+
+      // ✅ VALIDATION: Recipient must pass the WhatsApp whitelist before scheduling
+      const validationResult = await validatorRegistry.validate(
+        'whatsapp_send_message',
+        recipientInput,
+        { userId, dryRun: true }
+      );
+
+      if (!validationResult.valid && validationResult.needsApproval) {
+        logger.warn({ recipient: recipientInput, userId, error: validationResult.error }, 'Reminder recipient not whitelisted, requesting approval');
+        return await requestApproval(
+          userId,
+          'whatsapp_send_message',
+          validationResult.details?.resource ?? recipientInput,
+          { tool: 'reminder_create', args }
+        );
+      }
+
+      if (!validationResult.valid) {
+        logger.warn({ recipient: recipientInput, userId, error: validationResult.error }, 'Reminder recipient validation failed');
+        return {
+          content: [{
+            type: 'text',
+            text: `❌ Validasi gagal: ${validationResult.error}\n\n` +
+                  `Pengingat tidak dibuat karena nomor ${recipientInput} tidak ada dalam whitelist Anda.`,
+          }],
+          isError: true,
+        };
+      }
+
+      const validator = validatorRegistry.getValidator('whatsapp_send_message');
+      const normalize = (value: string) => (validator?.normalize ? validator.normalize(value) : value);
+      const recipient = normalize(recipientInput);
+
+      const requestBody: any = {
+        name: reminderName || `Reminder: ${message.substring(0, 40)}`,
+        enabled: true,
+        payload: {
+          kind: 'reminder',
+          prompt: buildReminderPrompt(recipient, message, normalize(userId)),
+          reminder: { recipient, message },
+          context: {
+            requestedBy: userId,
+            createdAt: Date.now(),
+          },
+        },
+      };
+
+      if (schedule) {
+        requestBody.type = 'recurring';
+        requestBody.schedule = schedule;
+      } else {
+        requestBody.type = 'one-time';
+        requestBody.scheduledExpression = time;
+      }
+
+      try {
+        const response = await axios.post(`${CRONJOB_API_URL}/jobs`, requestBody, cronjobRequestConfig(context));
+        await keepGrantForJob(response.data.data.id, userId, recipient);
+
+        return {
+          content: [{
+            type: 'text',
+            text: `✅ Pengingat berhasil dibuat:\n${JSON.stringify(toReminderView(response.data.data), null, 2)}`,
+          }],
+        };
+      } catch (error: any) {
+        logger.error({ error: apiErrorMessage(error), requestBody }, 'Failed to create reminder job');
+        return {
+          content: [{
+            type: 'text',
+            text: `❌ Gagal membuat pengingat: ${apiErrorMessage(error)}`,
+          }],
+          isError: true,
+        };
+      }
+    }
+
+    case 'reminder_list': {
+      const { includeExecuted = false } = args;
+      logger.info({ userId, includeExecuted }, 'Executing reminder_list tool');
+
+      const response = await axios.get(`${CRONJOB_API_URL}/jobs`, {
+        ...cronjobRequestConfig(context),
+        params: { ownerId: userId },
+      });
+      const reminders = (response.data.data as any[])
+        .filter((job) => isReminderOwnedBy(job, userId))
+        .filter((job) => includeExecuted || !job.executed)
+        .map(toReminderView);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(reminders, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'reminder_cancel': {
+      const { reminderId } = args;
+      logger.info({ userId, reminderId }, 'Executing reminder_cancel tool');
+
+      let job: any;
+      try {
+        const response = await axios.get(`${CRONJOB_API_URL}/jobs/${reminderId}`, cronjobRequestConfig(context));
+        job = response.data.data;
+      } catch (error: any) {
+        if (error?.response?.status !== 404) {
+          throw error;
+        }
+      }
+
+      if (!job || !isReminderOwnedBy(job, userId)) {
+        return {
+          content: [{
+            type: 'text',
+            text: `❌ Pengingat ${reminderId} tidak ditemukan`,
+          }],
+          isError: true,
+        };
+      }
+
+      await axios.delete(`${CRONJOB_API_URL}/jobs/${reminderId}`, cronjobRequestConfig(context));
+      await approvalStore.revokeJobGrant(reminderId);
+
+      return {
+        content: [{
+          type: 'text',
+          text: `✅ Pengingat ${reminderId} dibatalkan`,
+        }],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown Reminder tool: ${name}`);
+  }
+}
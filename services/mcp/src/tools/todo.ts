@@ -0,0 +1,254 @@
+import { createLogger } from '@aspri/logger';
+import { TodoItem } from '@aspri/types';
+import { todoStore, DEFAULT_TODO_LIST } from '../todo-store.js';
+
+const logger = createLogger('mcp-todo-tools');
+
+const itemIdsSchema = {
+  type: 'array',
+  items: { type: 'number' },
+  description: 'IDs of the todo items (as shown by todo_list)',
+};
+
+const listSchema = {
+  type: 'string',
+  description: `Name of the todo list (e.g., "belanja", "kerja"). Default: "${DEFAULT_TODO_LIST}"`,
+};
+
+export const todoTools = [
+  {
+    name: 'todo_add',
+    description: 'Add one or more items to the user\'s todo list. Split a sentence like "beli sabun, deterjen dan gula" into separate items.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Todo item texts to add, one entry per item',
+        },
+        list: listSchema,
+      },
+      required: ['items'],
+    },
+  },
+  {
+    name: 'todo_list',
+    description: 'Get the user\'s todo items. Without "list", returns items from all lists.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list: listSchema,
+        includeCompleted: {
+          type: 'boolean',
+          description: 'Include completed items (default: true)',
+          default: true,
+        },
+      },
+    },
+  },
+  {
+    name: 'todo_lists',
+    description: 'Get the names of the user\'s todo lists with item counts',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  {
+    name: 'todo_complete',
+    description: 'Mark todo items as completed',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        itemIds: itemIdsSchema,
+      },
+      required: ['itemIds'],
+    },
+  },
+  {
+    name: 'todo_uncomplete',
+    description: 'Mark completed todo items as not completed again',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        itemIds: itemIdsSchema,
+      },
+      required: ['itemIds'],
+    },
+  },
+  {
+    name: 'todo_delete',
+    description: 'Delete todo items',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        itemIds: itemIdsSchema,
+      },
+      required: ['itemIds'],
+    },
+  },
+  {
+    name: 'todo_clear_completed',
+    description: 'Delete all completed items. Without "list", clears completed items from all lists.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list: listSchema,
+      },
+    },
+  },
+  {
+    name: 'todo_delete_list',
+    description: 'Delete a whole todo list including all of its items',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        list: listSchema,
+      },
+      required: ['list'],
+    },
+  },
+];
+
+function formatItems(items: TodoItem[]) {
+  return items.map((item) => ({
+    id: item.id,
+    list: item.list,
+    text: item.text,
+    completed: item.completed,
+  }));
+}
+
+export async function handleTodoTool(name: string, args: any, context?: { userId?: string }) {
+  const userId = context?.userId;
+  if (!userId) {
+    throw new Error('userId is required for todo tools');
+  }
+
+  switch (name) {
+    case 'todo_add': {
+      const { items, list } = args;
+      logger.info({ userId, items, list }, 'Executing todo_add tool');
+
+      if (!Array.isArray(items) || items.length === 0) {
+        throw new Error('items must be a non-empty array of strings');
+      }
+
+      const texts = items.filter((item: any) => typeof item === 'string' && item.trim());
+      const added = await todoStore.addItems(userId, texts, list);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${added.length} todo item(s) added:\n${JSON.stringify(formatItems(added), null, 2)}`,
+          },
+        ],
+      };
+    }
+
+    case 'todo_list': {
+      const { list, includeCompleted = true } = args;
+      logger.info({ userId, list, includeCompleted }, 'Executing todo_list tool');
+
+      const items = await todoStore.getItems(userId, list);
+      const filtered = includeCompleted ? items : items.filter((item) => !item.completed);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(formatItems(filtered), null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'todo_lists': {
+      logger.info({ userId }, 'Executing todo_lists tool');
+      const lists = await todoStore.getLists(userId);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(lists, null, 2),
+          },
+        ],
+      };
+    }
+
+    case 'todo_complete':
+    case 'todo_uncomplete': {
+      const { itemIds = [] } = args;
+      const completed = name === 'todo_complete';
+      logger.info({ userId, itemIds }, `Executing ${name} tool`);
+
+      const { updated, notFound } = await todoStore.setCompleted(userId, itemIds, completed);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${updated.length} todo item(s) marked as ${completed ? 'completed' : 'not completed'}` +
+                  (notFound.length > 0 ? `\nNot found: ${notFound.join(', ')}` : '') +
+                  `\n${JSON.stringify(formatItems(updated), null, 2)}`,
+          },
+        ],
+      };
+    }
+
+    case 'todo_delete': {
+      const { itemIds = [] } = args;
+      logger.info({ userId, itemIds }, 'Executing todo_delete tool');
+
+      const { deleted, notFound } = await todoStore.deleteItems(userId, itemIds);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${deleted.length} todo item(s) deleted` +
+                  (notFound.length > 0 ? `\nNot found: ${notFound.join(', ')}` : ''),
+          },
+        ],
+      };
+    }
+
+    case 'todo_clear_completed': {
+      const { list } = args;
+      logger.info({ userId, list }, 'Executing todo_clear_completed tool');
+
+      const deleted = await todoStore.clearCompleted(userId, list);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${deleted.length} completed todo item(s) cleared`,
+          },
+        ],
+      };
+    }
+
+    case 'todo_delete_list': {
+      const { list } = args;
+      logger.info({ userId, list }, 'Executing todo_delete_list tool');
+
+      const deleted = await todoStore.deleteList(userId, list);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Todo list "${list}" deleted (${deleted.length} item(s) removed)`,
+          },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown Todo tool: ${name}`);
+  }
+}
@@ -1,6 +1,9 @@
 import axios from 'axios';
 import { createLogger } from '@aspri/logger';
-import { validatorRegistry } from '@aspri/utils';
+import { MessageAckStatus, MessageStatus, OutboundStatus } from '@aspri/types';
+import { mediaStore, normalizeUserId, validatorRegistry } from '@aspri/utils';
+import { requestApproval } from './approval.js';
+import { apiErrorMessage } from './cronjob.js';
 
 const logger = createLogger('mcp-whatsapp-tools');
 
@@ -26,10 +29,143 @@ export const whatsappTools = [
           description: 'If true, only validate recipient without sending message. Use this before creating cronjobs to ensure recipient is in whitelist.',
           default: false,
         },
+        quotedMessageId: {
+          type: 'string',
+          description: 'Optional: ID of a message in the same chat to quote (send as a reply to it)',
+        },
       },
       required: ['phoneNumber', 'message'],
     },
   },
+  {
+    name: 'whatsapp_send_media',
+    description: 'Send an image, video, audio or file (e.g. a PDF report) to a contact or group. ' +
+      'Provide exactly one source: url, blobId (media received earlier), or text (content of a generated text document such as CSV or Markdown).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        phoneNumber: {
+          type: 'string',
+          description: 'Phone number in international format (e.g., 628123456789) or chat ID',
+        },
+        url: {
+          type: 'string',
+          description: 'URL of the file to send',
+        },
+        blobId: {
+          type: 'string',
+          description: 'ID of media received earlier (from the message media reference)',
+        },
+        text: {
+          type: 'string',
+          description: 'Content of a text document to generate and send as a file',
+        },
+        filename: {
+          type: 'string',
+          description: 'File name shown to the recipient (e.g., laporan-mingguan.csv); the extension sets the type of generated documents',
+        },
+        caption: {
+          type: 'string',
+          description: 'Optional caption',
+        },
+        asDocument: {
+          type: 'boolean',
+          description: 'Send as a file instead of an inline image/video (default: false; generated documents are always files)',
+          default: false,
+        },
+      },
+      required: ['phoneNumber'],
+    },
+  },
+  {
+    name: 'whatsapp_send_contact',
+    description: 'Send a contact card (vCard) to a contact or group',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        phoneNumber: {
+          type: 'string',
+          description: 'Recipient phone number in international format or chat ID',
+        },
+        contactName: {
+          type: 'string',
+          description: 'Name of the contact to share',
+        },
+        contactPhoneNumbers: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Phone numbers of the contact to share',
+        },
+        organization: {
+          type: 'string',
+          description: 'Optional: company or organization',
+        },
+        email: {
+          type: 'string',
+          description: 'Optional: email address',
+        },
+      },
+      required: ['phoneNumber', 'contactName', 'contactPhoneNumbers'],
+    },
+  },
+  {
+    name: 'whatsapp_send_location',
+    description: 'Send a location pin to a contact or group',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        phoneNumber: {
+          type: 'string',
+          description: 'Recipient phone number in international format or chat ID',
+        },
+        latitude: {
+          type: 'number',
+          description: 'Latitude (-90 to 90)',
+        },
+        longitude: {
+          type: 'number',
+          description: 'Longitude (-180 to 180)',
+        },
+        name: {
+          type: 'string',
+          description: 'Optional: place name',
+        },
+        address: {
+          type: 'string',
+          description: 'Optional: address',
+        },
+      },
+      required: ['phoneNumber', 'latitude', 'longitude'],
+    },
+  },
+  {
+    name: 'whatsapp_get_message_status',
+    description: 'Check whether sent messages were delivered and read (e.g. "did Ali read my reminder?"). ' +
+      'Give a messageId from a send result, a queueId of a message that was queued, ' +
+      'or a phoneNumber to see the latest messages sent to that chat.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        messageId: {
+          type: 'string',
+          description: 'Message ID returned when the message was sent',
+        },
+        queueId: {
+          type: 'string',
+          description: 'Queue ID returned when the message was queued instead of sent right away',
+        },
+        phoneNumber: {
+          type: 'string',
+          description: 'Phone number in international format or chat ID',
+        },
+        limit: {
+          type: 'number',
+          description: 'Number of recent messages when using phoneNumber (default: 5)',
+          default: 5,
+        },
+      },
+    },
+  },
   {
     name: 'whatsapp_get_messages',
     description: 'Get recent messages from a chat',
@@ -79,10 +215,170 @@ export const whatsappTools = [
   },
 ];
 
+/**
+ * Check a recipient against the WhatsApp whitelist and send policies
+ * Every send tool uses the whatsapp_send_message validator, so all of them share one whitelist.
+ * Returns `rejected`, the tool result to give back when the send must not go ahead, or `release`, to call
+ * when the send then fails so it is not counted against the user's limits and does not use up their approval.
+ */
+async function checkRecipient(tool: string, phoneNumber: string, args: any, userId: string, dryRun = false) {
+  const validationResult = await validatorRegistry.validate(
+    'whatsapp_send_message',
+    phoneNumber,
+    { userId, dryRun }
+  );
+
+  if (!validationResult.valid && validationResult.needsApproval && !dryRun) {
+    logger.warn({ tool, phoneNumber, userId, error: validationResult.error }, 'Validation failed, requesting approval');
+    const approval = await requestApproval(
+      userId,
+      'whatsapp_send_message',
+      validationResult.details?.resource ?? phoneNumber,
+      { tool, args }
+    );
+    return { rejected: approval };
+  }
+
+  if (!validationResult.valid && validationResult.details?.policy) {
+    logger.warn({ tool, phoneNumber, userId, policy: validationResult.details.policy }, 'Send rejected by policy');
+
+    return {
+      rejected: {
+        content: [{
+          type: 'text',
+          text: `❌ Pengiriman ditolak (${validationResult.details.policy}): ${validationResult.error}\n\n` +
+                `Jangan coba kirim ulang sekarang; beri tahu pengguna alasannya.`,
+        }],
+        isError: true,
+      },
+    };
+  }
+
+  if (!validationResult.valid) {
+    logger.warn({ tool, phoneNumber, userId, error: validationResult.error }, 'Validation failed');
+
+    return {
+      rejected: {
+        content: [{
+          type: 'text',
+          text: `❌ Validasi gagal: ${validationResult.error}\n\n` +
+                `Nomor ${phoneNumber} tidak ada dalam whitelist Anda.\n` +
+                `Silakan tambahkan nomor ini ke daftar kontak yang diizinkan terlebih dahulu.`,
+        }],
+        isError: true,
+      },
+    };
+  }
+
+  return { release: validationResult.release };
+}
+
+/**
+ * Post a send request to the WhatsApp Service, after checking the recipient
+ */
+async function sendVia(
+  tool: string,
+  endpoint: string,
+  body: Record<string, any>,
+  args: any,
+  context: { userId?: string } | undefined,
+  sentText: string
+) {
+  const { phoneNumber } = args;
+  const userId = context?.userId;
+
+  let release: (() => Promise<void>) | undefined;
+  if (userId) {
+    const check = await checkRecipient(tool, phoneNumber, args, userId);
+    if (check.rejected) {
+      return check.rejected;
+    }
+    release = check.release;
+  }
+
+  try {
+    const response = await axios.post(`${WHATSAPP_API_URL}/${endpoint}`, { phoneNumber, ...body });
+    logger.info({ tool, phoneNumber, userId, ...response.data.data }, 'WhatsApp send via API succeeded');
+
+    return {
+      content: [{ type: 'text', text: sendResultText(response.data.data, sentText) }],
+    };
+  } catch (error: any) {
+    logger.error({ error, tool, phoneNumber }, 'WhatsApp send via API failed');
+    await release?.();
+    return {
+      content: [{ type: 'text', text: `❌ Gagal mengirim: ${apiErrorMessage(error)}` }],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Whether the blob was sent by this user
+ * Blob IDs are global, so without this check any user could have media from another chat forwarded.
+ * Unknown, foreign and ownerless blobs look the same to the caller, so the check does not reveal which blobs exist.
+ */
+async function isOwnMedia(blobId: string, userId: string | undefined): Promise<boolean> {
+  if (!userId) {
+    return false;
+  }
+
+  try {
+    const media = await mediaStore.getInfo(blobId);
+    return !!media?.ownerId && normalizeUserId(media.ownerId) === normalizeUserId(userId);
+  } catch (error) {
+    // Malformed blob IDs are rejected by the store
+    logger.warn({ error, blobId, userId }, 'Failed to read media info');
+    return false;
+  }
+}
+
+/**
+ * Tool text for a send result
+ * A message the WhatsApp Service could not send yet (e.g. while reconnecting) stays queued and is sent later
+ */
+function sendResultText(data: any, sentText: string): string {
+  if (data?.queued) {
+    return `⏳ WhatsApp belum siap, pesan ke ${data.phoneNumber} diantrekan dan akan dikirim otomatis ` +
+           `(ID antrean: ${data.queueId}).`;
+  }
+  return data?.messageId ? `${sentText} (ID pesan: ${data.messageId})` : sentText;
+}
+
+const OUTBOUND_STATE_LABELS: Record<OutboundStatus['state'], string> = {
+  queued: '⏳ menunggu WhatsApp siap',
+  sending: '⏳ sedang dikirim',
+  retrying: '🔁 gagal, akan dicoba lagi',
+  sent: '✅ terkirim',
+  failed: '❌ gagal dikirim',
+};
+
+const STATUS_LABELS: Record<MessageAckStatus, string> = {
+  error: '❌ gagal terkirim',
+  pending: '⏳ belum terkirim',
+  sent: '✓ terkirim (belum diterima)',
+  delivered: '✓✓ diterima',
+  read: '✓✓ dibaca',
+  played: '▶️ diputar',
+};
+
+function formatMessageStatus(status: MessageStatus) {
+  const readAt = status.history.find((entry) => entry.status === 'read' || entry.status === 'played')?.at;
+  return {
+    messageId: status.messageId,
+    chatId: status.chatId,
+    preview: status.preview,
+    status: STATUS_LABELS[status.status],
+    sentAt: new Date(status.sentAt).toISOString(),
+    readAt: readAt ? new Date(readAt).toISOString() : undefined,
+    updatedAt: new Date(status.updatedAt).toISOString(),
+  };
+}
+
 export async function handleWhatsAppTool(name: string, args: any, context?: { userId?: string }) {
   switch (name) {
     case 'whatsapp_send_message': {
-      const { phoneNumber, message, dryRun = false } = args;
+      const { phoneNumber, message, dryRun = false, quotedMessageId } = args;
       const userId = context?.userId;
 
       logger.info({
@@ -93,26 +389,13 @@ export async function handleWhatsAppTool(name: string, args: any, context?: { us
       }, 'Executing whatsapp_send_message tool');
 
       // ✅ VALIDATION: Check whitelist if userId is provided
+      let release: (() => Promise<void>) | undefined;
       if (userId) {
-        const validationResult = await validatorRegistry.validate(
-          'whatsapp_send_message',
-          phoneNumber,
-          { userId, dryRun }
-        );
-
-        if (!validationResult.valid) {
-          logger.warn({ phoneNumber, userId, error: validationResult.error }, 'Validation failed');
-
-          return {
-            content: [{
-              type: 'text',
-              text: `❌ Validasi gagal: ${validationResult.error}\n\n` +
-                    `Nomor ${phoneNumber} tidak ada dalam whitelist Anda.\n` +
-                    `Silakan tambahkan nomor ini ke daftar kontak yang diizinkan terlebih dahulu.`,
-            }],
-            isError: true,
-          };
+        const check = await checkRecipient(name, phoneNumber, args, userId, dryRun);
+        if (check.rejected) {
+          return check.rejected;
         }
+        release = check.release;
 
         // If dry-run, return success without sending
         if (dryRun) {
@@ -132,22 +415,26 @@ export async function handleWhatsAppTool(name: string, args: any, context?: { us
         const response = await axios.post(`${WHATSAPP_API_URL}/send-message`, {
           phoneNumber,
           message,
+          quotedMessageId,
         });
 
         logger.info({
           phoneNumber,
           message,
+          messageId: response.data.data?.messageId,
+          queueId: response.data.data?.queueId,
           success: response.data.success
         }, 'WhatsApp message sent via API');
 
         return {
           content: [{
             type: 'text',
-            text: `✅ Pesan berhasil dikirim ke ${phoneNumber}`,
+            text: sendResultText(response.data.data, `✅ Pesan berhasil dikirim ke ${phoneNumber}`),
           }],
         };
       } catch (error: any) {
         logger.error({ error, phoneNumber }, 'Failed to send message');
+        await release?.();
         return {
           content: [{
             type: 'text',
@@ -158,6 +445,167 @@ export async function handleWhatsAppTool(name: string, args: any, context?: { us
       }
     }
 
+    case 'whatsapp_send_media': {
+      const { phoneNumber, url, blobId, text, filename, caption, asDocument = false } = args;
+      logger.info({ phoneNumber, hasUrl: !!url, blobId, hasText: text !== undefined, filename, userId: context?.userId }, 'Executing whatsapp_send_media tool');
+
+      if ([url, blobId, text].filter((value) => value !== undefined).length !== 1) {
+        return {
+          content: [{ type: 'text', text: '❌ Berikan tepat satu sumber: url, blobId, atau text.' }],
+          isError: true,
+        };
+      }
+
+      if (blobId !== undefined && !(await isOwnMedia(blobId, context?.userId))) {
+        return {
+          content: [{ type: 'text', text: `❌ Media ${blobId} tidak ditemukan (mungkin sudah kedaluwarsa).` }],
+          isError: true,
+        };
+      }
+
+      return sendVia(
+        name,
+        'send-media',
+        { url, blobId, text, filename, caption, asDocument },
+        args,
+        context,
+        `✅ ${filename ? `File ${filename}` : 'Media'} berhasil dikirim ke ${phoneNumber}`
+      );
+    }
+
+    case 'whatsapp_send_contact': {
+      const { phoneNumber, contactName, contactPhoneNumbers, organization, email } = args;
+      logger.info({ phoneNumber, contactName, userId: context?.userId }, 'Executing whatsapp_send_contact tool');
+
+      return sendVia(
+        name,
+        'send-contact',
+        { contact: { name: contactName, phoneNumbers: contactPhoneNumbers, organization, email } },
+        args,
+        context,
+        `✅ Kontak ${contactName} berhasil dikirim ke ${phoneNumber}`
+      );
+    }
+
+    case 'whatsapp_send_location': {
+      const { phoneNumber, latitude, longitude, name: placeName, address } = args;
+      logger.info({ phoneNumber, latitude, longitude, userId: context?.userId }, 'Executing whatsapp_send_location tool');
+
+      return sendVia(
+        name,
+        'send-location',
+        { latitude, longitude, name: placeName, address },
+        args,
+        context,
+        `✅ Lokasi${placeName ? ` ${placeName}` : ''} berhasil dikirim ke ${phoneNumber}`
+      );
+    }
+
+    case 'whatsapp_get_message_status': {
+      const { queueId, phoneNumber, limit = 5 } = args;
+      let { messageId } = args;
+      const userId = context?.userId;
+      logger.info({ messageId, queueId, phoneNumber, limit, userId }, 'Executing whatsapp_get_message_status tool');
+
+      if (!messageId && !queueId && !phoneNumber) {
+        return {
+          content: [{ type: 'text', text: '❌ Berikan messageId, queueId, atau phoneNumber.' }],
+          isError: true,
+        };
+      }
+
+      // A queued message only has a message ID once it was sent
+      if (queueId && !messageId) {
+        let queued: OutboundStatus;
+        try {
+          const response = await axios.get(`${WHATSAPP_API_URL}/outbound/${encodeURIComponent(queueId)}`);
+          queued = response.data.data;
+        } catch (error: any) {
+          if (error?.response?.status === 404) {
+            return {
+              content: [{ type: 'text', text: `❌ Antrean ${queueId} tidak ditemukan (atau sudah kedaluwarsa).` }],
+              isError: true,
+            };
+          }
+          throw new Error(apiErrorMessage(error));
+        }
+
+        if (userId) {
+          const validationResult = await validatorRegistry.validate('whatsapp_send_message', queued.chatId, { userId, dryRun: true });
+          if (!validationResult.valid) {
+            return {
+              content: [{ type: 'text', text: `❌ Anda tidak dapat melihat status pesan untuk ${queued.chatId}: ${validationResult.error}` }],
+              isError: true,
+            };
+          }
+        }
+
+        if (queued.state !== 'sent' || !queued.messageId) {
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                queueId: queued.queueId,
+                chatId: queued.chatId,
+                status: OUTBOUND_STATE_LABELS[queued.state],
+                attempts: queued.attempts,
+                error: queued.error,
+                nextAttemptAt: queued.nextAttemptAt ? new Date(queued.nextAttemptAt).toISOString() : undefined,
+              }, null, 2),
+            }],
+          };
+        }
+
+        messageId = queued.messageId;
+      }
+
+      let statuses: MessageStatus[];
+      try {
+        if (messageId) {
+          const response = await axios.get(`${WHATSAPP_API_URL}/messages/${encodeURIComponent(messageId)}/status`);
+          statuses = [response.data.data];
+        } else {
+          const response = await axios.get(`${WHATSAPP_API_URL}/chats/${encodeURIComponent(phoneNumber)}/message-status`, {
+            params: { limit },
+          });
+          statuses = response.data.data;
+        }
+      } catch (error: any) {
+        if (error?.response?.status === 404) {
+          return {
+            content: [{ type: 'text', text: `❌ Status pesan ${messageId} tidak ditemukan (bukan dikirim oleh asisten, atau sudah kedaluwarsa).` }],
+            isError: true,
+          };
+        }
+        throw new Error(apiErrorMessage(error));
+      }
+
+      // Only chats the user may message are visible to them
+      if (userId) {
+        const chatId = statuses[0]?.chatId ?? phoneNumber;
+        const validationResult = await validatorRegistry.validate('whatsapp_send_message', chatId, { userId, dryRun: true });
+        if (!validationResult.valid) {
+          return {
+            content: [{ type: 'text', text: `❌ Anda tidak dapat melihat status pesan untuk ${chatId}: ${validationResult.error}` }],
+            isError: true,
+          };
+        }
+      }
+
+      if (statuses.length === 0) {
+        return {
+          content: [{ type: 'text', text: `Belum ada pesan yang dikirim asisten ke ${phoneNumber}.` }],
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify(statuses.map(formatMessageStatus), null, 2),
+        }],
+      };
+    }
+
     case 'whatsapp_get_messages': {
       const { phoneNumber, limit = 10 } = args;
       logger.info({ phoneNumber, limit }, 'Executing whatsapp_get_messages tool');
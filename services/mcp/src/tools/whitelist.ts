@@ -0,0 +1,143 @@
+import { createLogger } from '@aspri/logger';
+import { approvalStore, validatorRegistry } from '@aspri/utils';
+import { requestApproval } from './approval.js';
+
+const logger = createLogger('mcp-whitelist-tools');
+
+// Whitelist managed by these tools
+const WHITELIST_TOOL = 'whatsapp_send_message';
+
+export const whitelistTools = [
+  {
+    name: 'whitelist_add',
+    description: 'Allow the current user to send WhatsApp messages to a phone number. If the user names a contact (e.g., "allow messaging to Ali"), look up the number with whatsapp_search_contacts first. A number that is not whitelisted yet gets a pending approval; it is only added once the user replies YES with the approval ID.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        phoneNumber: {
+          type: 'string',
+          description: 'Phone number in international format (e.g., 628123456789)',
+        },
+        name: {
+          type: 'string',
+          description: 'Contact name to remember for this number (e.g., "Ali")',
+        },
+      },
+      required: ['phoneNumber'],
+    },
+  },
+  {
+    name: 'whitelist_remove',
+    description: 'Stop allowing the current user to send WhatsApp messages to a phone number',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        phoneNumber: {
+          type: 'string',
+          description: 'Phone number to remove (as shown by whitelist_list)',
+        },
+      },
+      required: ['phoneNumber'],
+    },
+  },
+  {
+    name: 'whitelist_list',
+    description: 'Get the phone numbers the current user is allowed to send WhatsApp messages to',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+];
+
+export async function handleWhitelistTool(name: string, args: any, context?: { userId?: string }) {
+  const userId = context?.userId;
+  if (!userId) {
+    throw new Error('userId is required for whitelist tools');
+  }
+
+  switch (name) {
+    case 'whitelist_add': {
+      const { phoneNumber, name: label } = args;
+      logger.info({ userId, phoneNumber, label }, 'Executing whitelist_add tool');
+
+      // Only the user's "YES <id>" reply adds a new number; the tool itself just relabels whitelisted ones
+      const validator = validatorRegistry.getValidator(WHITELIST_TOOL);
+      const resource = validator?.normalize ? validator.normalize(phoneNumber) : phoneNumber;
+
+      if (!(await validator?.isAllowed(resource, userId))) {
+        // Re-run after a one-time approval: nothing to send, and a one-time approval never whitelists
+        if (await approvalStore.hasGrant(userId, WHITELIST_TOOL, resource)) {
+          return {
+            content: [{
+              type: 'text',
+              text: `ℹ️ Nomor ${resource} tidak ditambahkan ke whitelist karena hanya disetujui sekali. ` +
+                    `Untuk menyimpannya, minta lagi lalu balas YES dengan nomor persetujuannya.`,
+            }],
+          };
+        }
+
+        return await requestApproval(userId, WHITELIST_TOOL, resource, { tool: 'whitelist_add', args });
+      }
+
+      const [entry] = await validatorRegistry.addToWhitelist(
+        WHITELIST_TOOL,
+        userId,
+        [{ resource, label }],
+        userId
+      );
+
+      return {
+        content: [{
+          type: 'text',
+          text: `✅ ${entry.label ? `${entry.label} (${entry.resource})` : entry.resource} ditambahkan ke whitelist`,
+        }],
+      };
+    }
+
+    case 'whitelist_remove': {
+      const { phoneNumber } = args;
+      logger.info({ userId, phoneNumber }, 'Executing whitelist_remove tool');
+
+      const removed = await validatorRegistry.removeFromWhitelist(WHITELIST_TOOL, userId, [phoneNumber]);
+
+      if (removed.length === 0) {
+        return {
+          content: [{
+            type: 'text',
+            text: `❌ Nomor ${phoneNumber} tidak ada dalam whitelist`,
+          }],
+          isError: true,
+        };
+      }
+
+      return {
+        content: [{
+          type: 'text',
+          text: `✅ Nomor ${removed[0]} dihapus dari whitelist`,
+        }],
+      };
+    }
+
+    case 'whitelist_list': {
+      logger.info({ userId }, 'Executing whitelist_list tool');
+      const entries = await validatorRegistry.getWhitelistEntries(WHITELIST_TOOL, userId);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              entries.map((entry) => ({ phoneNumber: entry.resource, name: entry.label })),
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown Whitelist tool: ${name}`);
+  }
+}
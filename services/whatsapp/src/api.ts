@@ -1,17 +1,78 @@
-import { Router } from 'express';
-import { WhatsAppClient } from './whatsapp-client.js';
+import { NextFunction, Request, Response, Router } from 'express';
+import { MediaSource, WhatsAppClient, stageMedia } from './whatsapp-client.js';
+import { OutboundQueue } from './outbound-queue.js';
 import { createLogger } from '@aspri/logger';
-import { ApiResponse } from '@aspri/types';
+import { ApiResponse, OutboundKind } from '@aspri/types';
+import { safeEqual, validatorRegistry, userRegistry } from '@aspri/utils';
 
 const logger = createLogger('whatsapp-api');
 
-export function createApiRouter(whatsappClient: WhatsAppClient): Router {
+// Whitelist managed by the /whitelist endpoints
+const WHITELIST_TOOL = 'whatsapp_send_message';
+
+// How long a send request waits for the queued message to go out before answering 202
+const OUTBOUND_WAIT_MS = parseInt(process.env.OUTBOUND_WAIT_MS || '15000');
+
+/**
+ * Whitelist and user management change who may use the assistant and what it may send,
+ * so they require WHATSAPP_ADMIN_TOKEN (Authorization: Bearer ...) and are refused while it is unset.
+ */
+function requireAdminToken(adminToken: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!adminToken) {
+      return res.status(403).json({
+        success: false,
+        error: { message: 'This endpoint requires WHATSAPP_ADMIN_TOKEN to be set', code: 'FORBIDDEN' },
+      } as ApiResponse);
+    }
+
+    const provided = req.header('authorization')?.replace(/^Bearer\s+/i, '');
+    if (!provided || !safeEqual(provided, adminToken)) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Invalid or missing admin token', code: 'UNAUTHORIZED' },
+      } as ApiResponse);
+    }
+    next();
+  };
+}
+
+export function createApiRouter(whatsappClient: WhatsAppClient, outboundQueue: OutboundQueue): Router {
   const router = Router();
+  router.use(['/whitelist', '/users'], requireAdminToken(process.env.WHATSAPP_ADMIN_TOKEN || ''));
+
+  /**
+   * Queue a message and answer with its result
+   * 200 once sent, 500 when given up, 202 while it is still queued (e.g. the client is reconnecting)
+   */
+  const sendQueued = async (res: Response, kind: OutboundKind, phoneNumber: string, payload: Record<string, any>) => {
+    const queued = await outboundQueue.enqueue(kind, phoneNumber, payload);
+    const status = (await outboundQueue.waitForResult(queued.queueId, OUTBOUND_WAIT_MS)) ?? queued;
+
+    if (status.state === 'sent') {
+      return res.json({
+        success: true,
+        data: { phoneNumber, sent: true, messageId: status.messageId, queueId: status.queueId },
+      } as ApiResponse);
+    }
+
+    if (status.state === 'failed') {
+      return res.status(500).json({
+        success: false,
+        error: { message: status.error || 'Message could not be sent', code: 'SEND_FAILED' },
+      } as ApiResponse);
+    }
+
+    res.status(202).json({
+      success: true,
+      data: { phoneNumber, sent: false, queued: true, queueId: status.queueId, state: status.state },
+    } as ApiResponse);
+  };
 
   // Send message
   router.post('/send-message', async (req, res) => {
     try {
-      const { phoneNumber, message } = req.body;
+      const { phoneNumber, message, quotedMessageId } = req.body;
 
       if (!phoneNumber || !message) {
         return res.status(400).json({
@@ -20,14 +81,161 @@ export function createApiRouter(whatsappClient: WhatsAppClient): Router {
         } as ApiResponse);
       }
 
-      await whatsappClient.sendMessage(phoneNumber, message);
+      await sendQueued(res, 'text', phoneNumber, { message, quotedMessageId });
+    } catch (error: any) {
+      logger.error({ error }, 'Error sending message');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Send an image, video, audio or file
+  router.post('/send-media', async (req, res) => {
+    try {
+      const { phoneNumber, url, blobId, data, text, mimetype, filename, caption, asDocument, quotedMessageId } = req.body;
+      const sources = [url, blobId, data, text].filter((value) => value !== undefined);
+
+      if (!phoneNumber || sources.length !== 1) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'phoneNumber and exactly one of url, blobId, data or text are required' },
+        } as ApiResponse);
+      }
+
+      if (data !== undefined && !mimetype) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'mimetype is required with data' },
+        } as ApiResponse);
+      }
+
+      // Loaded now, so a bad source fails the request instead of the queued message
+      const source = await stageMedia({ url, blobId, data, text, mimetype, filename } as MediaSource);
+      await sendQueued(res, 'media', phoneNumber, { source, options: { caption, asDocument, quotedMessageId } });
+    } catch (error: any) {
+      logger.error({ error }, 'Error sending media');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Send a contact card (vCard)
+  router.post('/send-contact', async (req, res) => {
+    try {
+      const { phoneNumber, contact } = req.body;
+
+      if (!phoneNumber || !contact?.name || !Array.isArray(contact.phoneNumbers) || contact.phoneNumbers.length === 0) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'phoneNumber, contact.name and contact.phoneNumbers are required' },
+        } as ApiResponse);
+      }
+
+      await sendQueued(res, 'contact', phoneNumber, { contact });
+    } catch (error: any) {
+      logger.error({ error }, 'Error sending contact');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Send a location
+  router.post('/send-location', async (req, res) => {
+    try {
+      const { phoneNumber, latitude, longitude, name, address, url } = req.body;
+
+      if (!phoneNumber || typeof latitude !== 'number' || typeof longitude !== 'number') {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'phoneNumber, latitude and longitude (numbers) are required' },
+        } as ApiResponse);
+      }
+
+      if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'latitude must be between -90 and 90, longitude between -180 and 180' },
+        } as ApiResponse);
+      }
+
+      await sendQueued(res, 'location', phoneNumber, { location: { latitude, longitude, name, address, url } });
+    } catch (error: any) {
+      logger.error({ error }, 'Error sending location');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // State of a queued message
+  router.get('/outbound/:queueId', async (req, res) => {
+    try {
+      const status = await outboundQueue.getStatus(req.params.queueId);
+
+      if (!status) {
+        return res.status(404).json({
+          success: false,
+          error: { message: 'Queued message not found (or expired)' },
+        } as ApiResponse);
+      }
+
+      res.json({
+        success: true,
+        data: status,
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error getting outbound status');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Delivery status of an outgoing message
+  router.get('/messages/:messageId/status', async (req, res) => {
+    try {
+      const status = await whatsappClient.getMessageStatus(req.params.messageId);
+
+      if (!status) {
+        return res.status(404).json({
+          success: false,
+          error: { message: 'No status for this message (not sent by this service, or expired)' },
+        } as ApiResponse);
+      }
 
       res.json({
         success: true,
-        data: { phoneNumber, sent: true },
+        data: status,
       } as ApiResponse);
     } catch (error: any) {
-      logger.error({ error }, 'Error sending message');
+      logger.error({ error }, 'Error getting message status');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Delivery status of the latest outgoing messages to a chat
+  router.get('/chats/:phoneNumber/message-status', async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 10;
+      const statuses = await whatsappClient.getChatMessageStatuses(req.params.phoneNumber, limit);
+
+      res.json({
+        success: true,
+        data: statuses,
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error getting chat message statuses');
       res.status(500).json({
         success: false,
         error: { message: error.message },
@@ -102,5 +310,186 @@ export function createApiRouter(whatsappClient: WhatsAppClient): Router {
     }
   });
 
+  // Get whitelist of a user
+  router.get('/whitelist/:userId', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const entries = await validatorRegistry.getWhitelistEntries(WHITELIST_TOOL, userId);
+
+      res.json({
+        success: true,
+        data: entries,
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error getting whitelist');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Add number to whitelist of a user
+  router.post('/whitelist/:userId', async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const { phoneNumber, name } = req.body;
+
+      if (!phoneNumber) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'phoneNumber is required' },
+        } as ApiResponse);
+      }
+
+      let entries;
+      try {
+        entries = await validatorRegistry.addToWhitelist(
+          WHITELIST_TOOL,
+          userId,
+          [{ resource: phoneNumber, label: name }]
+        );
+      } catch (error: any) {
+        return res.status(400).json({
+          success: false,
+          error: { message: error.message },
+        } as ApiResponse);
+      }
+
+      res.status(201).json({
+        success: true,
+        data: entries[0],
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error adding to whitelist');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Remove number from whitelist of a user
+  router.delete('/whitelist/:userId/:phoneNumber', async (req, res) => {
+    try {
+      const { userId, phoneNumber } = req.params;
+      const removed = await validatorRegistry.removeFromWhitelist(WHITELIST_TOOL, userId, [phoneNumber]);
+
+      if (removed.length === 0) {
+        return res.status(404).json({
+          success: false,
+          error: { message: 'Phone number not in whitelist' },
+        } as ApiResponse);
+      }
+
+      res.json({
+        success: true,
+        data: { phoneNumber: removed[0], removed: true },
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error removing from whitelist');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // List registered users
+  router.get('/users', async (req, res) => {
+    try {
+      const users = await userRegistry.list();
+
+      res.json({
+        success: true,
+        data: users,
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error listing users');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Get a registered user
+  router.get('/users/:userId', async (req, res) => {
+    try {
+      const user = await userRegistry.get(req.params.userId);
+
+      if (!user) {
+        return res.status(404).json({
+          success: false,
+          error: { message: 'User not found' },
+        } as ApiResponse);
+      }
+
+      res.json({
+        success: true,
+        data: user,
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error getting user');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Register a user or update role and preferences
+  router.put('/users/:userId', async (req, res) => {
+    try {
+      const { role, displayName, timezone, language } = req.body;
+
+      let user;
+      try {
+        user = await userRegistry.upsert(req.params.userId, { role, displayName, timezone, language });
+      } catch (error: any) {
+        return res.status(400).json({
+          success: false,
+          error: { message: error.message },
+        } as ApiResponse);
+      }
+
+      res.json({
+        success: true,
+        data: user,
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error saving user');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Remove a user (they become an unknown sender again)
+  router.delete('/users/:userId', async (req, res) => {
+    try {
+      const removed = await userRegistry.remove(req.params.userId);
+
+      if (!removed) {
+        return res.status(404).json({
+          success: false,
+          error: { message: 'User not found' },
+        } as ApiResponse);
+      }
+
+      res.json({
+        success: true,
+        data: { userId: req.params.userId, removed: true },
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error removing user');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
   return router;
 }
@@ -0,0 +1,233 @@
+import { NextFunction, Request, Response, Router } from 'express';
+import QRCode from 'qrcode';
+import { createLogger } from '@aspri/logger';
+import { ApiResponse } from '@aspri/types';
+import { safeEqual } from '@aspri/utils';
+import { WhatsAppClient } from './whatsapp-client.js';
+
+const logger = createLogger('whatsapp-auth-api');
+
+// How often the pairing page polls for a rotated QR code
+const PAIRING_REFRESH_MS = 3000;
+
+/**
+ * Pairing endpoints, mounted at /api/auth
+ *
+ * Whoever can see the QR code can link their phone to the assistant, so when WHATSAPP_PAIRING_TOKEN
+ * is set these endpoints require it (?token=... or Authorization: Bearer ...). Without a token,
+ * logout is refused. The pairing page itself holds no data: it asks for the token and sends it
+ * with its requests, so the token never appears in the page or its URL.
+ */
+export function createAuthRouter(whatsappClient: WhatsAppClient): Router {
+  const router = Router();
+  const pairingToken = process.env.WHATSAPP_PAIRING_TOKEN || '';
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    if (!pairingToken || req.path === '/pair') {
+      return next();
+    }
+
+    const provided = req.query.token || req.header('authorization')?.replace(/^Bearer\s+/i, '');
+    if (typeof provided !== 'string' || !safeEqual(provided, pairingToken)) {
+      return res.status(401).json({
+        success: false,
+        error: { message: 'Invalid or missing pairing token', code: 'UNAUTHORIZED' },
+      } as ApiResponse);
+    }
+    next();
+  });
+
+  // Current pairing QR code: ?format=json (default, with a data URL), png or svg
+  router.get('/qr', async (req, res) => {
+    try {
+      const format = (req.query.format as string) || 'json';
+      const state = whatsappClient.getState();
+      const qr = whatsappClient.getQr();
+
+      if (!['json', 'png', 'svg'].includes(format)) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'format must be json, png or svg' },
+        } as ApiResponse);
+      }
+
+      if (!qr) {
+        return res.status(404).json({
+          success: false,
+          error: { message: `No QR code to scan, the session is ${state}`, code: 'NO_QR' },
+        } as ApiResponse);
+      }
+
+      res.set('Cache-Control', 'no-store');
+
+      if (format === 'png') {
+        res.type('png').send(await QRCode.toBuffer(qr.code, { width: 300, margin: 2 }));
+        return;
+      }
+
+      if (format === 'svg') {
+        res.type('svg').send(await QRCode.toString(qr.code, { type: 'svg', margin: 2 }));
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          state,
+          qr: qr.code,
+          dataUrl: await QRCode.toDataURL(qr.code, { width: 300, margin: 2 }),
+          receivedAt: qr.receivedAt,
+        },
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error rendering QR code');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Connection state, polled by the pairing page
+  router.get('/state', (req, res) => {
+    res.json({
+      success: true,
+      data: { state: whatsappClient.getState() },
+    } as ApiResponse);
+  });
+
+  // Browser page showing the QR code, refreshed as it rotates
+  router.get('/pair', (req, res) => {
+    res.set('Cache-Control', 'no-store').type('html').send(renderPairingPage());
+  });
+
+  // Unlink the device; the session reconnects and shows a new QR code
+  router.post('/logout', async (req, res) => {
+    // Without a token anyone who can reach the port could unlink the assistant
+    if (!pairingToken) {
+      return res.status(403).json({
+        success: false,
+        error: { message: 'Logout requires WHATSAPP_PAIRING_TOKEN to be set', code: 'FORBIDDEN' },
+      } as ApiResponse);
+    }
+
+    try {
+      const state = whatsappClient.getState();
+      if (state !== 'ready') {
+        return res.status(409).json({
+          success: false,
+          error: { message: `Cannot log out while the session is ${state}`, code: 'NOT_READY' },
+        } as ApiResponse);
+      }
+
+      await whatsappClient.logout();
+      logger.warn('WhatsApp device unlinked via API');
+
+      res.json({
+        success: true,
+        data: { loggedOut: true },
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error logging out');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  return router;
+}
+
+function renderPairingPage(): string {
+  return `<!DOCTYPE html>
+<html lang="id">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>ASPRI - Hubungkan WhatsApp</title>
+  <style>
+    body { font-family: system-ui, sans-serif; display: flex; flex-direction: column; align-items: center; margin: 3rem 1rem; color: #222; }
+    #qr { width: 300px; height: 300px; border: 1px solid #ddd; display: flex; align-items: center; justify-content: center; }
+    #qr img { width: 100%; height: 100%; }
+    #status { margin-top: 1rem; }
+    #login { margin-top: 1rem; }
+  </style>
+</head>
+<body>
+  <h1>Hubungkan WhatsApp</h1>
+  <p>WhatsApp &gt; Perangkat tertaut &gt; Tautkan perangkat, lalu scan kode ini.</p>
+  <div id="qr">Memuat...</div>
+  <p id="status"></p>
+  <form id="login" hidden>
+    <input id="token" type="password" placeholder="Token pairing" autocomplete="current-password" required>
+    <button type="submit">Masuk</button>
+  </form>
+  <script>
+    const labels = {
+      loading: 'Memuat sesi WhatsApp...',
+      qr_required: 'Menunggu scan. Kode QR diperbarui otomatis.',
+      authenticated: 'Berhasil di-scan, menyiapkan sesi...',
+      ready: '✅ Terhubung. Halaman ini boleh ditutup.',
+      disconnected: 'Terputus, mencoba menghubungkan ulang...'
+    };
+    let shown = null;
+
+    // The token is typed in once and kept for this tab only
+    function get(path) {
+      const token = sessionStorage.getItem('pairingToken');
+      return fetch(path, { cache: 'no-store', headers: token ? { Authorization: 'Bearer ' + token } : {} });
+    }
+
+    document.getElementById('login').addEventListener('submit', (event) => {
+      event.preventDefault();
+      sessionStorage.setItem('pairingToken', document.getElementById('token').value);
+      document.getElementById('login').hidden = true;
+      refresh();
+    });
+
+    async function refresh() {
+      // Wait for the token while the form is shown
+      if (!document.getElementById('login').hidden) {
+        return;
+      }
+
+      try {
+        const response = await get('qr?format=json');
+        const body = await response.json();
+        const qr = document.getElementById('qr');
+
+        if (response.status === 401) {
+          const retry = sessionStorage.getItem('pairingToken') !== null;
+          sessionStorage.removeItem('pairingToken');
+          document.getElementById('login').hidden = false;
+          qr.textContent = '🔒';
+          document.getElementById('status').textContent = retry ? 'Token salah.' : 'Masukkan token pairing.';
+          return;
+        }
+
+        if (response.ok) {
+          if (body.data.qr !== shown) {
+            shown = body.data.qr;
+            qr.innerHTML = '<img alt="QR code" src="' + body.data.dataUrl + '">';
+          }
+          document.getElementById('status').textContent = labels.qr_required;
+          return;
+        }
+
+        const stateResponse = await get('state');
+        const state = stateResponse.ok ? (await stateResponse.json()).data.state : null;
+        shown = null;
+        qr.textContent = state === 'ready' ? '✅' : '...';
+        document.getElementById('status').textContent = labels[state] || body.error?.message || 'Gagal memuat';
+      } catch (error) {
+        document.getElementById('status').textContent = 'Layanan WhatsApp tidak dapat dihubungi.';
+      }
+    }
+
+    refresh();
+    setInterval(refresh, ${PAIRING_REFRESH_MS});
+  </script>
+</body>
+</html>`;
+}
@@ -0,0 +1,272 @@
+import { randomUUID } from 'crypto';
+import { createLogger } from '@aspri/logger';
+import { EventPublisher } from '@aspri/utils';
+import { WhatsAppConnectionState, WhatsAppStateEvent } from '@aspri/types';
+import { WhatsAppClient } from './whatsapp-client.js';
+
+const logger = createLogger('connection-supervisor');
+
+export interface ConnectionSupervisorConfig {
+  streamName: string;
+  readyTimeoutMs: number;     // Reconnect when loading/authenticated does not reach ready within this time
+  reconnectBaseMs: number;    // Delay before the first reconnect, doubled per failed attempt
+  reconnectMaxMs: number;     // Upper bound for the reconnect delay
+  alertWebhookUrl: string;    // Owner alert when a QR scan is required; empty = log only
+  pairingUrl: string;         // Public URL of the pairing page, linked in the alert
+}
+
+export interface ConnectionHealth {
+  state: WhatsAppConnectionState;
+  since: number;              // When the current state was entered
+  reason?: string;            // Why the session last disconnected
+  reconnectAttempts: number;  // Failed attempts since the session was last ready
+  nextReconnectAt?: number;
+}
+
+/**
+ * Keeps the WhatsApp Web session connected
+ *
+ * - A disconnect, auth failure or failed start reconnects with exponential backoff; the counter resets once ready.
+ * - A session stuck in loading/authenticated for readyTimeoutMs is reconnected too.
+ * - qr_required waits for a human to scan, so it is not retried; the owner is alerted once.
+ * - Every state transition is published to the whatsapp:state stream.
+ */
+export class ConnectionSupervisor {
+  private readonly config: ConnectionSupervisorConfig;
+  private since: number = Date.now();
+  private reason?: string;
+  private reconnectAttempts: number = 0;
+  private nextReconnectAt?: number;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private readyTimer: NodeJS.Timeout | null = null;
+  private alerted: boolean = false;
+  private stopped: boolean = false;
+  private notifications: Promise<void> = Promise.resolve();
+
+  constructor(
+    private whatsappClient: WhatsAppClient,
+    private eventPublisher: EventPublisher,
+    config?: Partial<ConnectionSupervisorConfig>
+  ) {
+    this.config = {
+      streamName: config?.streamName ?? process.env.WHATSAPP_STATE_STREAM_NAME ?? 'whatsapp:state',
+      readyTimeoutMs: config?.readyTimeoutMs ?? parseInt(process.env.WHATSAPP_READY_TIMEOUT_SECONDS || '90') * 1000,
+      reconnectBaseMs: config?.reconnectBaseMs ?? parseInt(process.env.WHATSAPP_RECONNECT_BASE_MS || '5000'),
+      reconnectMaxMs: config?.reconnectMaxMs ?? parseInt(process.env.WHATSAPP_RECONNECT_MAX_MS || '300000'),
+      alertWebhookUrl: config?.alertWebhookUrl ?? process.env.WHATSAPP_ALERT_WEBHOOK_URL ?? '',
+      pairingUrl: withoutToken(config?.pairingUrl ?? process.env.WHATSAPP_PAIRING_URL ?? ''),
+    };
+  }
+
+  /**
+   * Connect the client and keep supervising it until stop()
+   * Does not wait for ready: the service runs (and queues outgoing messages) while the session comes up
+   */
+  start(): void {
+    this.whatsappClient.onStateChange((state, previousState, reason) => {
+      const alertText = this.handleStateChange(state, reason);
+      const reconnectAttempts = this.reconnectAttempts;
+
+      // One transition at a time, event first: a slow owner alert must not let a later state be published earlier
+      this.notifications = this.notifications
+        .then(async () => {
+          await this.publish(state, previousState, reason, reconnectAttempts);
+          if (alertText) {
+            await this.alert(alertText, state);
+          }
+        })
+        .catch((error) => {
+          logger.error({ error, state }, 'Failed to handle connection state change');
+        });
+    });
+
+    logger.info({ ...this.config, alertWebhookUrl: !!this.config.alertWebhookUrl }, 'ConnectionSupervisor started');
+    this.armReadyTimer();
+    this.attempt(() => this.whatsappClient.connect());
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.clearTimers();
+  }
+
+  getHealth(): ConnectionHealth {
+    return {
+      state: this.whatsappClient.getState(),
+      since: this.since,
+      reason: this.reason,
+      reconnectAttempts: this.reconnectAttempts,
+      nextReconnectAt: this.nextReconnectAt,
+    };
+  }
+
+  /**
+   * Update timers and counters for a new state
+   * Returns the owner alert to send, if any
+   */
+  private handleStateChange(state: WhatsAppConnectionState, reason?: string): string | null {
+    this.since = Date.now();
+    if (reason) {
+      this.reason = reason;
+    }
+
+    switch (state) {
+      case 'loading':
+      case 'authenticated':
+        this.armReadyTimer();
+        break;
+      case 'ready':
+        this.clearTimers();
+        this.reconnectAttempts = 0;
+        if (this.alerted) {
+          this.alerted = false;
+          return '✅ Sesi WhatsApp asisten sudah terhubung kembali.';
+        }
+        break;
+      case 'qr_required':
+        // Only a human can fix this; reconnecting would just show a new QR
+        this.clearTimers();
+        if (!this.alerted) {
+          this.alerted = true;
+          const where = this.config.pairingUrl ? ` di ${this.config.pairingUrl}` : '';
+          return `⚠️ Sesi WhatsApp asisten keluar (logout). Scan ulang kode QR${where} untuk menghubungkan kembali.`;
+        }
+        break;
+      case 'disconnected':
+        this.scheduleReconnect(reason || 'disconnected');
+        break;
+    }
+
+    return null;
+  }
+
+  /**
+   * Reconnect after the backoff delay; a reconnect already scheduled is kept
+   */
+  private scheduleReconnect(reason: string): void {
+    if (this.stopped || this.reconnectTimer) {
+      return;
+    }
+
+    if (this.readyTimer) {
+      clearTimeout(this.readyTimer);
+      this.readyTimer = null;
+    }
+
+    const delayMs = Math.min(this.config.reconnectBaseMs * 2 ** this.reconnectAttempts, this.config.reconnectMaxMs);
+    this.reconnectAttempts++;
+    this.nextReconnectAt = Date.now() + delayMs;
+
+    logger.warn({ reason, attempt: this.reconnectAttempts, delayMs }, 'Scheduling WhatsApp reconnect');
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.nextReconnectAt = undefined;
+      this.attempt(() => this.whatsappClient.reconnect());
+    }, delayMs);
+  }
+
+  private async attempt(connect: () => Promise<void>): Promise<void> {
+    if (this.stopped) {
+      return;
+    }
+
+    try {
+      await connect();
+    } catch (error: any) {
+      // Usually already scheduled by the resulting disconnected state
+      logger.error({ error, attempt: this.reconnectAttempts }, 'WhatsApp connect failed');
+      this.scheduleReconnect(`connect failed: ${error.message}`);
+    }
+  }
+
+  private armReadyTimer(): void {
+    if (this.readyTimer) {
+      clearTimeout(this.readyTimer);
+    }
+
+    this.readyTimer = setTimeout(() => {
+      this.readyTimer = null;
+      const state = this.whatsappClient.getState();
+      if (state === 'loading' || state === 'authenticated') {
+        logger.error({ state, timeoutMs: this.config.readyTimeoutMs }, 'WhatsApp client did not become ready in time');
+        this.scheduleReconnect(`ready timeout in state ${state}`);
+      }
+    }, this.config.readyTimeoutMs);
+  }
+
+  private clearTimers(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.readyTimer) {
+      clearTimeout(this.readyTimer);
+      this.readyTimer = null;
+    }
+    this.nextReconnectAt = undefined;
+  }
+
+  private async publish(
+    state: WhatsAppConnectionState,
+    previousState: WhatsAppConnectionState,
+    reason: string | undefined,
+    reconnectAttempts: number
+  ): Promise<void> {
+    const event: WhatsAppStateEvent = {
+      eventId: randomUUID(),
+      type: 'whatsapp:state',
+      source: 'whatsapp',
+      timestamp: Date.now(),
+      data: { state, previousState, reason, reconnectAttempts },
+    };
+
+    try {
+      await this.eventPublisher.publish(this.config.streamName, event);
+    } catch (error) {
+      logger.error({ error, state }, 'Failed to publish state event');
+    }
+  }
+
+  /**
+   * Tell the owner about the session
+   * WhatsApp itself cannot deliver this while it is logged out, so it goes to WHATSAPP_ALERT_WEBHOOK_URL
+   * (JSON { text, state, timestamp }, accepted by e.g. Slack/Discord-style webhooks and ntfy)
+   */
+  private async alert(text: string, state: WhatsAppConnectionState): Promise<void> {
+    logger.warn({ state, text }, 'Owner alert');
+
+    if (!this.config.alertWebhookUrl) {
+      return;
+    }
+
+    try {
+      const response = await fetch(this.config.alertWebhookUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, content: text, state, timestamp: new Date().toISOString() }),
+        signal: AbortSignal.timeout(10_000),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status}`);
+      }
+      logger.info({ state }, 'Owner alert sent');
+    } catch (error) {
+      logger.error({ error, state }, 'Failed to send owner alert');
+    }
+  }
+}
+
+/**
+ * Pairing URL without a ?token= parameter: the alert goes to a third-party webhook, so the pairing page asks for it instead
+ */
+function withoutToken(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.searchParams.delete('token');
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+}
@@ -4,8 +4,15 @@ import 'dotenv/config';
 import express from 'express';
 import { createLogger } from '@aspri/logger';
 import { WhatsAppClient } from './whatsapp-client.js';
-import { EventPublisher } from '@aspri/utils';
+import { EventPublisher, initializeValidators, mediaStore } from '@aspri/utils';
 import { createApiRouter } from './api.js';
+import { createAuthRouter } from './auth-api.js';
+import { MessageStatusStore } from './message-status-store.js';
+import { OutboundQueue } from './outbound-queue.js';
+import { ConnectionSupervisor } from './connection-supervisor.js';
+import { createTransport } from './transport.js';
+import { SimulatorTransport } from './simulator-transport.js';
+import { createSimulatorRouter } from './simulator-api.js';
 
 const logger = createLogger('whatsapp-service');
 const PORT = parseInt(process.env.WHATSAPP_PORT || '3001');
@@ -18,9 +25,33 @@ async function main() {
     const eventPublisher = new EventPublisher();
     await eventPublisher.initialize();
 
-    // Initialize WhatsApp Client
-    const whatsappClient = new WhatsAppClient(eventPublisher);
-    await whatsappClient.initialize();
+    // Initialize validators and user registry (whitelist and user management API)
+    await initializeValidators();
+
+    // Downloaded media is stored here for the AI Engine to read
+    await mediaStore.initialize();
+
+    // Delivery status of outgoing messages
+    const statusStore = new MessageStatusStore();
+    await statusStore.initialize();
+
+    // Initialize WhatsApp Client; the supervisor connects it and reconnects after disconnects
+    // WHATSAPP_TRANSPORT selects WhatsApp Web or the in-memory simulator
+    const transport = createTransport();
+    const whatsappClient = new WhatsAppClient(eventPublisher, statusStore, transport);
+    const supervisor = new ConnectionSupervisor(whatsappClient, eventPublisher);
+    supervisor.start();
+
+    // Outgoing messages are queued and sent once the client is ready
+    const outboundQueue = new OutboundQueue(
+      eventPublisher,
+      (message) => whatsappClient.sendOutbound(message),
+      () => whatsappClient.isReady()
+    );
+    await outboundQueue.initialize();
+    outboundQueue.start().catch((error) => {
+      logger.error({ error }, 'Outbound queue stopped unexpectedly');
+    });
 
     // Setup Express API Server
     const app = express();
@@ -28,15 +59,25 @@ async function main() {
 
     // Health check
     app.get('/health', (req, res) => {
+      const health = supervisor.getHealth();
       res.json({
         service: 'whatsapp',
-        status: whatsappClient.isReady() ? 'ready' : 'initializing',
+        status: health.state,
+        since: new Date(health.since).toISOString(),
+        reason: health.reason,
+        reconnectAttempts: health.reconnectAttempts,
+        nextReconnectAt: health.nextReconnectAt ? new Date(health.nextReconnectAt).toISOString() : undefined,
         timestamp: new Date().toISOString(),
       });
     });
 
     // API Routes
-    app.use('/api', createApiRouter(whatsappClient));
+    app.use('/api/auth', createAuthRouter(whatsappClient));
+    if (transport instanceof SimulatorTransport) {
+      app.use('/api/simulator', createSimulatorRouter(transport));
+      logger.warn('WhatsApp simulator enabled, no real messages are sent');
+    }
+    app.use('/api', createApiRouter(whatsappClient, outboundQueue));
 
     // Start server
     const server = app.listen(PORT, () => {
@@ -52,6 +93,10 @@ async function main() {
         logger.info('HTTP server closed');
       });
 
+      // Unfinished messages stay pending and are resumed on the next start
+      outboundQueue.stop();
+      supervisor.stop();
+
       try {
         // Cleanup WhatsApp client with timeout
         const cleanupPromise = whatsappClient.destroy();
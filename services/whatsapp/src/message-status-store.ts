@@ -0,0 +1,198 @@
+import { RedisClientType, WatchError } from 'redis';
+import { createLogger } from '@aspri/logger';
+import { getRedisClient } from '@aspri/utils';
+import { MessageAckStatus, MessageStatus } from '@aspri/types';
+
+const logger = createLogger('message-status-store');
+
+// Acks only move forward; a late or duplicate ack for an earlier state is ignored
+const STATUS_ORDER: MessageAckStatus[] = ['pending', 'sent', 'delivered', 'read', 'played'];
+
+// Acks of one message can race (e.g. delivered and read arriving together), so a conflicting write is retried
+const MAX_RECORD_ATTEMPTS = 5;
+
+export interface MessageStatusStoreConfig {
+  retentionMs: number;    // Statuses older than this expire
+  perChatLimit: number;   // Recent outgoing messages kept in the per-chat index
+}
+
+/**
+ * Delivery and read status of outgoing messages
+ *
+ * Key layout:
+ * - {prefix}:{messageId}     JSON MessageStatus
+ * - {prefix}:chat:{chatId}   ZSET messageId scored by sentAt, for "latest messages to this chat"
+ */
+export class MessageStatusStore {
+  private redis: RedisClientType | null = null;
+  private readonly prefix: string;
+  private readonly config: MessageStatusStoreConfig;
+
+  constructor(prefix?: string, config?: Partial<MessageStatusStoreConfig>) {
+    this.prefix = prefix || process.env.MESSAGE_STATUS_KEY_PREFIX || 'whatsapp:message-status';
+    this.config = {
+      retentionMs: config?.retentionMs ?? parseInt(process.env.MESSAGE_STATUS_RETENTION_DAYS || '30') * 86_400_000,
+      perChatLimit: config?.perChatLimit ?? 50,
+    };
+  }
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+    logger.info({ prefix: this.prefix, ...this.config }, 'MessageStatusStore initialized');
+  }
+
+  /**
+   * Record a status for a message, creating it if unknown (an ack can arrive before the send is recorded)
+   * Returns the previous status and whether this was a transition, or null when it was ignored
+   */
+  async record(
+    messageId: string,
+    chatId: string,
+    status: MessageAckStatus,
+    preview?: string
+  ): Promise<{ status: MessageStatus; previousStatus?: MessageAckStatus } | null> {
+    const redis = this.getClient();
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await redis.executeIsolated((client) => this.compareAndSet(client, messageId, chatId, status, preview));
+      } catch (error) {
+        if (!(error instanceof WatchError) || attempt >= MAX_RECORD_ATTEMPTS) {
+          throw error;
+        }
+        logger.debug({ messageId, status, attempt }, 'Message status changed concurrently, retrying');
+      }
+    }
+  }
+
+  /**
+   * Read, compare and write the status in one WATCH/MULTI transaction
+   * EXEC fails with a WatchError when another ack changed the status in between
+   */
+  private async compareAndSet(
+    client: RedisClientType,
+    messageId: string,
+    chatId: string,
+    status: MessageAckStatus,
+    preview?: string
+  ): Promise<{ status: MessageStatus; previousStatus?: MessageAckStatus } | null> {
+    const statusKey = this.statusKey(messageId);
+    const now = Date.now();
+
+    await client.watch(statusKey);
+    const raw = await client.get(statusKey);
+    const existing: MessageStatus | null = raw ? JSON.parse(raw) : null;
+
+    if (existing && !isTransition(existing.status, status)) {
+      // Still fill in the preview when the ack was recorded first
+      if (preview && !existing.preview) {
+        await client
+          .multi()
+          .set(statusKey, JSON.stringify({ ...existing, preview }), { PX: this.config.retentionMs })
+          .exec();
+      } else {
+        await client.unwatch();
+      }
+      return null;
+    }
+
+    const messageStatus: MessageStatus = {
+      messageId,
+      chatId,
+      preview: existing?.preview ?? preview,
+      sentAt: existing?.sentAt ?? now,
+      updatedAt: now,
+      status,
+      history: [...(existing?.history ?? []), { status, at: now }],
+    };
+
+    const transaction = client
+      .multi()
+      .set(statusKey, JSON.stringify(messageStatus), { PX: this.config.retentionMs });
+
+    if (!existing) {
+      const chatKey = this.chatKey(chatId);
+      transaction
+        .zAdd(chatKey, { score: messageStatus.sentAt, value: messageId })
+        .zRemRangeByRank(chatKey, 0, -(this.config.perChatLimit + 1))
+        .pExpire(chatKey, this.config.retentionMs);
+    }
+
+    await transaction.exec();
+
+    logger.debug({ messageId, chatId, status, previousStatus: existing?.status }, 'Message status recorded');
+    return { status: messageStatus, previousStatus: existing?.status };
+  }
+
+  async get(messageId: string): Promise<MessageStatus | null> {
+    const redis = this.getClient();
+    const raw = await redis.get(this.statusKey(messageId));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  /**
+   * Latest outgoing messages to a chat, newest first
+   */
+  async listByChat(chatId: string, limit: number = 10): Promise<MessageStatus[]> {
+    const redis = this.getClient();
+    const messageIds = await redis.zRange(this.chatKey(chatId), 0, limit - 1, { REV: true });
+
+    if (messageIds.length === 0) {
+      return [];
+    }
+
+    const raws = await redis.mGet(messageIds.map((messageId) => this.statusKey(messageId)));
+    return raws
+      .filter((raw): raw is string => !!raw)
+      .map((raw) => JSON.parse(raw) as MessageStatus);
+  }
+
+  private statusKey(messageId: string): string {
+    return `${this.prefix}:${messageId}`;
+  }
+
+  private chatKey(chatId: string): string {
+    return `${this.prefix}:chat:${chatId}`;
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('MessageStatusStore not initialized');
+    }
+    return this.redis;
+  }
+}
+
+/**
+ * Map a whatsapp-web.js MessageAck value to a status
+ */
+export function ackToStatus(ack: number): MessageAckStatus {
+  switch (ack) {
+    case -1:
+      return 'error';
+    case 1:
+      return 'sent';
+    case 2:
+      return 'delivered';
+    case 3:
+      return 'read';
+    case 4:
+      return 'played';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Whether moving from one status to another is progress
+ * A send can only fail before it reached the recipient's phone
+ */
+function isTransition(from: MessageAckStatus, to: MessageAckStatus): boolean {
+  if (to === 'error') {
+    return from === 'pending' || from === 'sent';
+  }
+  if (from === 'error') {
+    return false;
+  }
+  return STATUS_ORDER.indexOf(to) > STATUS_ORDER.indexOf(from);
+}
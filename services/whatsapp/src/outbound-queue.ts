@@ -0,0 +1,400 @@
+import { RedisClientType, commandOptions } from 'redis';
+import { randomUUID } from 'crypto';
+import { createLogger } from '@aspri/logger';
+import { EventPublisher, getRedisClient } from '@aspri/utils';
+import { OutboundKind, OutboundMessage, OutboundStatus, WhatsAppOutboundEvent } from '@aspri/types';
+import { toChatId } from './whatsapp-client.js';
+
+const logger = createLogger('outbound-queue');
+
+/**
+ * Sends one queued message and returns the serialized ID of the sent message
+ */
+export type OutboundSender = (message: OutboundMessage) => Promise<string>;
+
+export interface OutboundQueueConfig {
+  streamName: string;
+  groupName: string;
+  consumerName: string;     // Fixed, so a restarted service picks up its own unfinished messages
+  maxAttempts: number;      // Failed sends before a message is given up
+  retryBaseMs: number;      // Delay before the first retry, doubled per attempt
+  retryMaxMs: number;       // Upper bound for the retry delay
+  readyPollMs: number;      // How often to check whether the client is ready again
+  statusRetentionMs: number;
+}
+
+type QueuedEntry = { entryId: string; message: OutboundMessage };
+
+/**
+ * Durable outbound queue on a Redis Stream, consumed by the WhatsApp Service
+ *
+ * - Messages wait while the client is not ready (reconnecting); waiting does not count as an attempt.
+ * - Failed sends are retried with exponential backoff, up to maxAttempts.
+ * - Per recipient, messages are sent one at a time in enqueue order: a retrying message holds back
+ *   later messages to the same chat, other chats are not affected.
+ * - A stream entry is acknowledged only once its message is sent or given up, so a restart resumes
+ *   unfinished messages from the pending list.
+ *
+ * Key layout:
+ * - {streamName}                   STREAM of whatsapp:send events
+ * - {streamName}:status:{queueId}  JSON OutboundStatus
+ */
+export class OutboundQueue {
+  private redis: RedisClientType | null = null;
+  private running: boolean = false;
+  private readonly config: OutboundQueueConfig;
+  private chats: Map<string, QueuedEntry[]> = new Map(); // chatId -> unfinished messages, in stream order
+  private workers: Map<string, Promise<void>> = new Map(); // chatId -> worker draining its queue
+  private waiters: Map<string, Array<(status: OutboundStatus | null) => void>> = new Map(); // queueId -> callers waiting for the result
+
+  constructor(
+    private eventPublisher: EventPublisher,
+    private sender: OutboundSender,
+    private isReady: () => boolean,
+    config?: Partial<OutboundQueueConfig>
+  ) {
+    this.config = {
+      streamName: config?.streamName ?? process.env.WHATSAPP_OUTBOUND_STREAM_NAME ?? 'whatsapp:outbound',
+      groupName: config?.groupName ?? 'whatsapp-service',
+      consumerName: config?.consumerName ?? 'sender',
+      maxAttempts: config?.maxAttempts ?? parseInt(process.env.OUTBOUND_MAX_ATTEMPTS || '5'),
+      retryBaseMs: config?.retryBaseMs ?? parseInt(process.env.OUTBOUND_RETRY_BASE_MS || '5000'),
+      retryMaxMs: config?.retryMaxMs ?? parseInt(process.env.OUTBOUND_RETRY_MAX_MS || '300000'),
+      readyPollMs: config?.readyPollMs ?? 1000,
+      statusRetentionMs: config?.statusRetentionMs ?? parseInt(process.env.MESSAGE_STATUS_RETENTION_DAYS || '30') * 86_400_000,
+    };
+  }
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+
+    try {
+      await this.redis.xGroupCreate(this.config.streamName, this.config.groupName, '0', { MKSTREAM: true });
+      logger.info({ streamName: this.config.streamName }, 'Outbound consumer group created');
+    } catch (error: any) {
+      if (!error.message.includes('BUSYGROUP')) {
+        throw error;
+      }
+    }
+
+    logger.info({ ...this.config }, 'OutboundQueue initialized');
+  }
+
+  /**
+   * Add a message to the queue
+   */
+  async enqueue(kind: OutboundKind, phoneNumber: string, payload: Record<string, any>): Promise<OutboundStatus> {
+    const now = Date.now();
+    const message: OutboundMessage = {
+      queueId: randomUUID(),
+      kind,
+      phoneNumber,
+      payload,
+      enqueuedAt: now,
+    };
+    const status: OutboundStatus = {
+      queueId: message.queueId,
+      chatId: toChatId(phoneNumber),
+      kind,
+      state: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.saveStatus(status);
+
+    const event: WhatsAppOutboundEvent = {
+      eventId: randomUUID(),
+      type: 'whatsapp:send',
+      source: 'whatsapp',
+      timestamp: now,
+      data: message,
+    };
+    await this.eventPublisher.publish(this.config.streamName, event);
+
+    logger.info({ queueId: message.queueId, kind, chatId: status.chatId, ready: this.isReady() }, 'Message queued');
+    return status;
+  }
+
+  /**
+   * Wait until a message is sent or given up, for at most timeoutMs
+   * Returns the current status when it is still unfinished by then
+   */
+  async waitForResult(queueId: string, timeoutMs: number): Promise<OutboundStatus | null> {
+    let onResult: (status: OutboundStatus | null) => void = () => undefined;
+    let timer: NodeJS.Timeout | undefined;
+    const finished = new Promise<OutboundStatus | null>((resolve) => {
+      onResult = resolve;
+      timer = setTimeout(() => resolve(null), timeoutMs);
+    });
+
+    // Registered before reading the status, so a result that arrives in between is not missed
+    this.waiters.set(queueId, [...(this.waiters.get(queueId) || []), onResult]);
+
+    try {
+      const current = await this.getStatus(queueId);
+      if (!current || current.state === 'sent' || current.state === 'failed') {
+        return current;
+      }
+
+      return (await finished) ?? (await this.getStatus(queueId));
+    } finally {
+      clearTimeout(timer);
+      const waiting = (this.waiters.get(queueId) || []).filter((waiter) => waiter !== onResult);
+      if (waiting.length > 0) {
+        this.waiters.set(queueId, waiting);
+      } else {
+        this.waiters.delete(queueId);
+      }
+    }
+  }
+
+  async getStatus(queueId: string): Promise<OutboundStatus | null> {
+    const redis = this.getClient();
+    const raw = await redis.get(this.statusKey(queueId));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  /**
+   * Consume the stream until stop() is called
+   * Unfinished messages of a previous run are resumed first
+   */
+  async start(): Promise<void> {
+    const redis = this.getClient();
+    const { streamName, groupName, consumerName } = this.config;
+    this.running = true;
+
+    // Entries delivered before a restart but never acknowledged, in stream order
+    let recovered = 0;
+    let lastId = '0';
+    while (this.running) {
+      const pending = await redis.xReadGroup(groupName, consumerName, [{ key: streamName, id: lastId }], { COUNT: 100 });
+      const entries = pending?.[0]?.messages ?? [];
+      if (entries.length === 0) {
+        break;
+      }
+      for (const entry of entries) {
+        this.schedule(entry);
+        lastId = entry.id;
+        recovered++;
+      }
+    }
+    if (recovered > 0) {
+      logger.info({ recovered }, 'Resuming unfinished outbound messages');
+    }
+
+    logger.info({ streamName }, 'Outbound queue started');
+
+    while (this.running) {
+      try {
+        // Isolated so the blocking read does not stall other commands on the shared client
+        const result = await redis.xReadGroup(
+          commandOptions({ isolated: true }),
+          groupName,
+          consumerName,
+          [{ key: streamName, id: '>' }],
+          { COUNT: 10, BLOCK: 5000 }
+        );
+
+        for (const entry of result?.[0]?.messages ?? []) {
+          this.schedule(entry);
+        }
+      } catch (error) {
+        logger.error({ error, streamName }, 'Error reading outbound stream');
+        await sleep(1000);
+      }
+    }
+
+    await Promise.allSettled(Array.from(this.workers.values()));
+    logger.info('Outbound queue stopped');
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  /**
+   * Append a stream entry to its chat's queue and make sure a worker drains it
+   */
+  private schedule(entry: { id: string; message: Record<string, string> }): void {
+    let message: OutboundMessage;
+    try {
+      message = JSON.parse(entry.message.data);
+    } catch (error) {
+      logger.error({ error, entryId: entry.id }, 'Unparseable outbound entry, dropping');
+      this.getClient().xAck(this.config.streamName, this.config.groupName, entry.id).catch(() => undefined);
+      return;
+    }
+
+    const chatId = toChatId(message.phoneNumber);
+    const queue = this.chats.get(chatId) || [];
+    queue.push({ entryId: entry.id, message });
+    this.chats.set(chatId, queue);
+
+    if (!this.workers.has(chatId)) {
+      const worker = this.drain(chatId).finally(() => this.workers.delete(chatId));
+      this.workers.set(chatId, worker);
+    }
+  }
+
+  /**
+   * Send a chat's messages one at a time, in order
+   */
+  private async drain(chatId: string): Promise<void> {
+    const queue = this.chats.get(chatId)!;
+
+    while (queue.length > 0 && this.running) {
+      const { entryId, message } = queue[0];
+
+      try {
+        if (!(await this.deliver(chatId, message))) {
+          break; // Stopping; left pending for the next start
+        }
+      } catch (error) {
+        // Redis failed before the message was sent: keep it at the head, so later messages to the chat stay behind it
+        logger.error({ error, queueId: message.queueId, chatId, delayMs: this.config.retryBaseMs }, 'Failed to process outbound message, retrying');
+        await sleep(this.config.retryBaseMs);
+        continue;
+      }
+
+      try {
+        await this.getClient().xAck(this.config.streamName, this.config.groupName, entryId);
+      } catch (error) {
+        // The entry stays pending; after a restart its saved status shows it finished, so it is not sent again
+        logger.error({ error, queueId: message.queueId, chatId }, 'Failed to acknowledge outbound message');
+      }
+
+      queue.shift();
+    }
+
+    if (queue.length === 0) {
+      this.chats.delete(chatId);
+    }
+  }
+
+  /**
+   * Try to send a message until it is sent or runs out of attempts
+   * Returns false when the queue was stopped first. Throws only when the message was not sent,
+   * so the caller can safely try again.
+   */
+  private async deliver(chatId: string, message: OutboundMessage): Promise<boolean> {
+    const { queueId } = message;
+    const status: OutboundStatus = (await this.getStatus(queueId)) ?? {
+      queueId,
+      chatId,
+      kind: message.kind,
+      state: 'queued',
+      attempts: 0,
+      createdAt: message.enqueuedAt,
+      updatedAt: Date.now(),
+    };
+
+    // Finished before a restart, only the acknowledgement was lost
+    if (status.state === 'sent' || status.state === 'failed') {
+      return true;
+    }
+
+    while (status.attempts < this.config.maxAttempts) {
+      await this.waitUntilReady();
+      if (!this.running) {
+        return false;
+      }
+
+      await this.updateStatus(status, { state: 'sending', nextAttemptAt: undefined });
+
+      let messageId: string;
+      try {
+        messageId = await this.sender(message);
+      } catch (error: any) {
+        // The client dropped mid-send: wait for it again without using up an attempt
+        if (!this.isReady()) {
+          logger.warn({ queueId, chatId }, 'Client not ready during send, waiting to retry');
+          await this.updateStatus(status, { state: 'queued', error: error.message });
+          continue;
+        }
+
+        const attempts = status.attempts + 1;
+        const delayMs = Math.min(this.config.retryBaseMs * 2 ** (attempts - 1), this.config.retryMaxMs);
+
+        if (attempts >= this.config.maxAttempts) {
+          Object.assign(status, { attempts, error: error.message });
+          break;
+        }
+
+        await this.updateStatus(status, {
+          state: 'retrying',
+          attempts,
+          error: error.message,
+          nextAttemptAt: Date.now() + delayMs,
+        });
+        logger.warn({ error, queueId, chatId, attempts, delayMs }, 'Outbound send failed, retrying');
+        await sleep(delayMs);
+        continue;
+      }
+
+      await this.finish(status, { state: 'sent', attempts: status.attempts + 1, messageId, error: undefined });
+      logger.info({ queueId, chatId, messageId, attempts: status.attempts }, 'Outbound message sent');
+      return true;
+    }
+
+    await this.finish(status, { state: 'failed' });
+    logger.error({ queueId, chatId, attempts: status.attempts, error: status.error }, 'Outbound message given up');
+    return true;
+  }
+
+  /**
+   * Record the final state and tell the waiting callers
+   * A Redis failure is only logged: the message must not be sent again because its result was not saved
+   */
+  private async finish(status: OutboundStatus, updates: Partial<OutboundStatus>): Promise<void> {
+    try {
+      await this.updateStatus(status, updates);
+    } catch (error) {
+      logger.error({ error, queueId: status.queueId, state: status.state }, 'Failed to record outbound result');
+    }
+    this.notify(status);
+  }
+
+  private async waitUntilReady(): Promise<void> {
+    let waited = false;
+    while (this.running && !this.isReady()) {
+      if (!waited) {
+        logger.info('WhatsApp client not ready, holding outbound messages');
+        waited = true;
+      }
+      await sleep(this.config.readyPollMs);
+    }
+  }
+
+  private async updateStatus(status: OutboundStatus, updates: Partial<OutboundStatus>): Promise<void> {
+    Object.assign(status, updates, { updatedAt: Date.now() });
+    await this.saveStatus(status);
+  }
+
+  private async saveStatus(status: OutboundStatus): Promise<void> {
+    const redis = this.getClient();
+    await redis.set(this.statusKey(status.queueId), JSON.stringify(status), { PX: this.config.statusRetentionMs });
+  }
+
+  private notify(status: OutboundStatus): void {
+    const waiting = this.waiters.get(status.queueId) || [];
+    this.waiters.delete(status.queueId);
+    waiting.forEach((resolve) => resolve({ ...status }));
+  }
+
+  private statusKey(queueId: string): string {
+    return `${this.config.streamName}:status:${queueId}`;
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('OutboundQueue not initialized');
+    }
+    return this.redis;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
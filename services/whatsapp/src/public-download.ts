@@ -0,0 +1,153 @@
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+
+const MAX_REDIRECTS = 5;
+const DOWNLOAD_TIMEOUT_MS = 30_000;
+
+// Addresses of this host, its network and cloud metadata endpoints
+const BLOCKED_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],   // Carrier-grade NAT
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],  // Link-local, incl. cloud metadata (169.254.169.254)
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'],     // Multicast and reserved
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],        // Unique local
+  ['fe80::', 10, 'ipv6'],       // Link-local
+  ['ff00::', 8, 'ipv6'],        // Multicast
+];
+
+const blockList = new net.BlockList();
+for (const [address, prefix, family] of BLOCKED_RANGES) {
+  blockList.addSubnet(address, prefix, family);
+}
+
+export interface DownloadedFile {
+  mimetype: string;
+  data: Buffer;
+}
+
+/**
+ * Download a file from a public http(s) URL
+ *
+ * URLs come from the AI, so anything that is not on the public internet (internal services, localhost,
+ * cloud metadata) is refused: the resolved address of every request, redirects included, is checked.
+ * The body is streamed and aborted as soon as it exceeds maxBytes.
+ */
+export async function downloadPublicUrl(url: string, maxBytes: number): Promise<DownloadedFile> {
+  const signal = AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS);
+  let current = parseUrl(url);
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await get(current, signal);
+    const status = response.statusCode || 0;
+
+    if (status >= 300 && status < 400 && response.headers.location) {
+      response.resume();
+      if (redirects >= MAX_REDIRECTS) {
+        throw new Error(`Too many redirects downloading ${url}`);
+      }
+      current = parseUrl(new URL(response.headers.location, current).toString());
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new Error(`Failed to download media from ${url} (HTTP ${status})`);
+    }
+
+    // Reject before downloading when the server announces the size
+    const announcedSize = parseInt(response.headers['content-length'] || '0');
+    if (announcedSize > maxBytes) {
+      response.destroy();
+      throw new Error(`Media is too large (${announcedSize} bytes, max ${maxBytes})`);
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        response.destroy();
+        throw new Error(`Media is too large (over ${maxBytes} bytes)`);
+      }
+      chunks.push(chunk);
+    }
+
+    return {
+      mimetype: (response.headers['content-type'] || 'application/octet-stream').split(';')[0].trim(),
+      data: Buffer.concat(chunks),
+    };
+  }
+}
+
+/**
+ * Only http(s) URLs, and no IP literals in blocked ranges (those are connected to without a lookup)
+ */
+function parseUrl(value: string): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid media URL: ${value}`);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported media URL scheme: ${url.protocol} (only http and https)`);
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isBlockedAddress(host)) {
+    throw new Error(`Refusing to download media from private address ${host}`);
+  }
+
+  return url;
+}
+
+function get(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const request = client.get(url, { signal, lookup: publicLookup }, resolve);
+    request.on('error', reject);
+  });
+}
+
+/**
+ * dns.lookup that fails when the host resolves to a blocked address
+ * Checked at connect time, so a host cannot resolve to a public address first and a private one later
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, '', 0);
+    }
+
+    const blocked = addresses.find((entry) => isBlockedAddress(entry.address));
+    if (blocked) {
+      return callback(new Error(`Refusing to download media from private address ${blocked.address} (${hostname})`), '', 0);
+    }
+
+    if (options.all) {
+      return (callback as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:127.0.0.1) is checked as IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return blockList.check(mapped[1], 'ipv4');
+  }
+  return blockList.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+}
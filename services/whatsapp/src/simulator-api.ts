@@ -0,0 +1,148 @@
+import { Router } from 'express';
+import { createLogger } from '@aspri/logger';
+import { ApiResponse, MessageAckStatus } from '@aspri/types';
+import { SimulatorTransport } from './simulator-transport.js';
+
+const logger = createLogger('whatsapp-simulator-api');
+
+const ACK_STATUSES: MessageAckStatus[] = ['pending', 'sent', 'delivered', 'read', 'played', 'error'];
+
+/**
+ * Simulator controls, mounted at /api/simulator when WHATSAPP_TRANSPORT=simulator
+ * End-to-end tests inject incoming messages here and assert on what the assistant sent back.
+ */
+export function createSimulatorRouter(simulator: SimulatorTransport): Router {
+  const router = Router();
+
+  // Inject an incoming message
+  router.post('/inbound', async (req, res) => {
+    try {
+      const { from, body, author, senderName, mentionsMe, mentionedIds, type, media } = req.body;
+
+      if (!from) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'from is required' },
+        } as ApiResponse);
+      }
+
+      if (!body && !media) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'body or media is required' },
+        } as ApiResponse);
+      }
+
+      if (media && (!media.data || !media.mimetype)) {
+        return res.status(400).json({
+          success: false,
+          error: { message: 'media requires data (base64) and mimetype' },
+        } as ApiResponse);
+      }
+
+      const message = await simulator.inject({ from, body, author, senderName, mentionsMe, mentionedIds, type, media });
+
+      res.status(201).json({
+        success: true,
+        data: message,
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error injecting message');
+      res.status(500).json({
+        success: false,
+        error: { message: error.message },
+      } as ApiResponse);
+    }
+  });
+
+  // Messages sent by the assistant, optionally for one chat and since a time (ms)
+  router.get('/outbound', (req, res) => {
+    const chatId = req.query.chatId as string | undefined;
+    const since = req.query.since ? parseInt(req.query.since as string) : undefined;
+
+    res.json({
+      success: true,
+      data: simulator.getOutbound({ chatId, since }),
+    } as ApiResponse);
+  });
+
+  router.delete('/outbound', (req, res) => {
+    simulator.clearOutbound();
+    res.json({
+      success: true,
+      data: { cleared: true },
+    } as ApiResponse);
+  });
+
+  // Report a delivery or read receipt for a sent message
+  router.post('/outbound/:messageId/ack', async (req, res) => {
+    try {
+      const status = req.body.status as MessageAckStatus;
+
+      if (!ACK_STATUSES.includes(status)) {
+        return res.status(400).json({
+          success: false,
+          error: { message: `status must be one of: ${ACK_STATUSES.join(', ')}` },
+        } as ApiResponse);
+      }
+
+      const sent = await simulator.ack(req.params.messageId, status);
+
+      res.json({
+        success: true,
+        data: sent,
+      } as ApiResponse);
+    } catch (error: any) {
+      logger.error({ error }, 'Error acking message');
+      res.status(404).json({
+        success: false,
+        error: { message: error.message, code: 'NOT_FOUND' },
+      } as ApiResponse);
+    }
+  });
+
+  // Make the next sends fail
+  router.post('/fail', (req, res) => {
+    const count = parseInt(req.body.count ?? '1');
+
+    if (isNaN(count) || count < 0) {
+      return res.status(400).json({
+        success: false,
+        error: { message: 'count must be a non-negative number' },
+      } as ApiResponse);
+    }
+
+    simulator.failNextSends(count);
+    res.json({
+      success: true,
+      data: { failNextSends: count },
+    } as ApiResponse);
+  });
+
+  // Drop the session; the connection supervisor reconnects it
+  router.post('/disconnect', (req, res) => {
+    simulator.disconnect(req.body.reason);
+    res.json({
+      success: true,
+      data: { disconnected: true },
+    } as ApiResponse);
+  });
+
+  // Scan the QR code after a logout
+  router.post('/scan', (req, res) => {
+    try {
+      simulator.scan();
+      res.json({
+        success: true,
+        data: { paired: true },
+      } as ApiResponse);
+    } catch (error: any) {
+      res.status(409).json({
+        success: false,
+        error: { message: error.message, code: 'ALREADY_PAIRED' },
+      } as ApiResponse);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,337 @@
+import { randomUUID } from 'crypto';
+import { createLogger } from '@aspri/logger';
+import { MessageAckStatus, WhatsAppChat, WhatsAppContact, WhatsAppMessage } from '@aspri/types';
+import type {
+  LocationInput,
+  SendMediaOptions,
+  SentMessage,
+  TransportHandlers,
+  TransportMedia,
+  WhatsAppTransport,
+} from './transport.js';
+
+const logger = createLogger('simulator-transport');
+
+/**
+ * An incoming message to inject, as a phone would send it
+ */
+export interface SimulatedInbound {
+  from: string;               // Sender number or chat ID; the group ID for group messages
+  body?: string;
+  author?: string;            // Sender within a group
+  senderName?: string;        // Contact name, returned by contact search
+  mentionsMe?: boolean;       // Mention the assistant (group messages)
+  mentionedIds?: string[];
+  type?: string;              // Defaults to chat, or the media kind
+  media?: TransportMedia;
+}
+
+/**
+ * A message sent through the simulator
+ */
+export interface SimulatedOutbound {
+  messageId: string;
+  chatId: string;
+  kind: 'text' | 'media' | 'contact' | 'location';
+  body?: string;              // Text, caption or vCard
+  media?: { mimetype: string; filename?: string; size: number; asDocument?: boolean };
+  location?: LocationInput;
+  quotedMessageId?: string;
+  status: MessageAckStatus;
+  timestamp: number;          // Unix timestamp (ms)
+}
+
+export interface SimulatorConfig {
+  ownId: string;              // Chat ID of the simulated assistant account
+  maxRecorded: number;        // Recorded outbound messages kept, oldest dropped first
+}
+
+/**
+ * In-memory WhatsApp for local development and end-to-end tests, without a phone or browser
+ *
+ * - Incoming messages are injected (see simulator-api.ts) and flow through the normal pipeline.
+ * - Sent messages are recorded, and can be acked (delivered, read) or made to fail.
+ * - The session can be disconnected or logged out; after a logout a QR is shown until scan() is called.
+ */
+export class SimulatorTransport implements WhatsAppTransport {
+  readonly name = 'simulator';
+  private handlers: TransportHandlers | null = null;
+  private readonly config: SimulatorConfig;
+  private connected: boolean = false;
+  private paired: boolean = true;
+  private failures: number = 0; // Upcoming sends that fail
+  private messages: Map<string, WhatsAppMessage[]> = new Map(); // chatId -> history, oldest first
+  private contacts: Map<string, WhatsAppContact> = new Map();
+  private outbound: SimulatedOutbound[] = [];
+
+  constructor(config?: Partial<SimulatorConfig>) {
+    this.config = {
+      ownId: config?.ownId ?? process.env.SIMULATOR_OWN_ID ?? '6280000000000@c.us',
+      maxRecorded: config?.maxRecorded ?? 1000,
+    };
+  }
+
+  setHandlers(handlers: TransportHandlers): void {
+    this.handlers = handlers;
+  }
+
+  async connect(): Promise<void> {
+    this.connected = false;
+
+    // Events follow the resolved connect, as with whatsapp-web.js
+    setImmediate(() => {
+      if (!this.paired) {
+        this.getHandlers().qr(`SIMULATOR-QR-${randomUUID()}`);
+        return;
+      }
+      this.connected = true;
+      this.getHandlers().authenticated();
+      this.getHandlers().ready();
+    });
+  }
+
+  async logout(): Promise<void> {
+    this.connected = false;
+    this.paired = false;
+  }
+
+  async destroy(): Promise<void> {
+    this.connected = false;
+  }
+
+  /**
+   * Pair after a logout, as if the QR code was scanned
+   */
+  scan(): void {
+    if (this.paired) {
+      throw new Error('Simulator is already paired');
+    }
+    this.paired = true;
+    this.connected = true;
+    this.getHandlers().authenticated();
+    this.getHandlers().ready();
+  }
+
+  /**
+   * Drop the session, as when the phone loses its connection
+   */
+  disconnect(reason: string = 'SIMULATED'): void {
+    this.connected = false;
+    this.getHandlers().disconnected(reason);
+  }
+
+  /**
+   * Make the next sends fail, e.g. to exercise outbound retries
+   */
+  failNextSends(count: number): void {
+    this.failures = count;
+  }
+
+  /**
+   * Deliver an incoming message to the service
+   */
+  async inject(input: SimulatedInbound): Promise<WhatsAppMessage> {
+    if (!this.connected) {
+      throw new Error('Simulator is not connected');
+    }
+
+    const isGroup = input.from.endsWith('@g.us');
+    const from = toChatId(input.from);
+    const sender = input.author ? toChatId(input.author) : from;
+    const mentionedIds = [...(input.mentionedIds ?? []), ...(input.mentionsMe ? [this.config.ownId] : [])];
+    const id = randomUUID().replace(/-/g, '').slice(0, 20).toUpperCase();
+
+    const message: WhatsAppMessage = {
+      id,
+      serializedId: `false_${from}_${id}`,
+      from,
+      to: this.config.ownId,
+      author: isGroup ? sender : undefined,
+      groupId: isGroup ? from : undefined,
+      mentionedIds: mentionedIds.length > 0 ? mentionedIds : undefined,
+      mentionsMe: mentionedIds.includes(this.config.ownId),
+      body: input.body ?? '',
+      type: input.type ?? (input.media ? mediaType(input.media.mimetype) : 'chat'),
+      hasMedia: input.media ? true : undefined,
+      timestamp: Math.floor(Date.now() / 1000),
+      fromMe: false,
+    };
+
+    if (input.senderName) {
+      this.contacts.set(sender, {
+        id: sender,
+        name: input.senderName,
+        number: sender.split('@')[0],
+        isMyContact: true,
+      });
+    }
+
+    this.remember(from, message);
+    logger.info({ from, author: message.author, type: message.type }, 'Simulated incoming message');
+
+    await this.getHandlers().message({
+      message,
+      reportedSize: input.media ? Buffer.byteLength(input.media.data, 'base64') : undefined,
+      downloadMedia: async () => input.media ?? null,
+    });
+
+    return message;
+  }
+
+  /**
+   * Report a new status for a sent message, as the recipient's phone would
+   */
+  async ack(messageId: string, status: MessageAckStatus): Promise<SimulatedOutbound> {
+    const sent = this.outbound.find((message) => message.messageId === messageId);
+    if (!sent) {
+      throw new Error(`Unknown simulated message: ${messageId}`);
+    }
+
+    sent.status = status;
+    await this.getHandlers().ack(messageId, sent.chatId, status);
+    return sent;
+  }
+
+  /**
+   * Recorded outgoing messages, oldest first
+   */
+  getOutbound(filter: { chatId?: string; since?: number } = {}): SimulatedOutbound[] {
+    return this.outbound.filter((message) =>
+      (!filter.chatId || message.chatId === toChatId(filter.chatId)) &&
+      (!filter.since || message.timestamp >= filter.since)
+    );
+  }
+
+  clearOutbound(): void {
+    this.outbound = [];
+  }
+
+  async sendText(chatId: string, text: string, options: { quotedMessageId?: string } = {}): Promise<SentMessage> {
+    return this.record({ chatId, kind: 'text', body: text, quotedMessageId: options.quotedMessageId });
+  }
+
+  async sendMedia(chatId: string, media: TransportMedia, options: SendMediaOptions = {}): Promise<SentMessage> {
+    return this.record({
+      chatId,
+      kind: 'media',
+      body: options.caption,
+      media: {
+        mimetype: media.mimetype,
+        filename: media.filename,
+        size: Buffer.byteLength(media.data, 'base64'),
+        asDocument: options.asDocument,
+      },
+      quotedMessageId: options.quotedMessageId,
+    });
+  }
+
+  async sendContact(chatId: string, vCard: string): Promise<SentMessage> {
+    return this.record({ chatId, kind: 'contact', body: vCard });
+  }
+
+  async sendLocation(chatId: string, location: LocationInput): Promise<SentMessage> {
+    return this.record({ chatId, kind: 'location', location });
+  }
+
+  async getMessages(chatId: string, limit: number): Promise<WhatsAppMessage[]> {
+    return (this.messages.get(chatId) ?? []).slice(-limit);
+  }
+
+  async getChats(limit: number): Promise<WhatsAppChat[]> {
+    return Array.from(this.messages.entries())
+      .map(([chatId, history]) => {
+        const last = history[history.length - 1];
+        return {
+          id: chatId,
+          name: this.contacts.get(chatId)?.name || chatId,
+          isGroup: chatId.endsWith('@g.us'),
+          unreadCount: 0,
+          lastMessage: last ? { body: last.body, timestamp: last.timestamp } : undefined,
+        };
+      })
+      .sort((a, b) => (b.lastMessage?.timestamp ?? 0) - (a.lastMessage?.timestamp ?? 0))
+      .slice(0, limit);
+  }
+
+  async searchContacts(query: string): Promise<WhatsAppContact[]> {
+    return Array.from(this.contacts.values()).filter(
+      (contact) => contact.name.toLowerCase().includes(query.toLowerCase()) || contact.number.includes(query)
+    );
+  }
+
+  private record(message: Omit<SimulatedOutbound, 'messageId' | 'status' | 'timestamp'>): SentMessage {
+    if (!this.connected) {
+      throw new Error('Simulator is not connected');
+    }
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Simulated send failure');
+    }
+
+    const id = randomUUID().replace(/-/g, '').slice(0, 20).toUpperCase();
+    const sent: SimulatedOutbound = {
+      ...message,
+      messageId: `true_${message.chatId}_${id}`,
+      status: 'sent',
+      timestamp: Date.now(),
+    };
+
+    this.outbound.push(sent);
+    if (this.outbound.length > this.config.maxRecorded) {
+      this.outbound.shift();
+    }
+
+    this.remember(message.chatId, {
+      id,
+      serializedId: sent.messageId,
+      from: this.config.ownId,
+      to: message.chatId,
+      body: message.body ?? '',
+      type: message.kind === 'text' ? 'chat' : message.kind,
+      timestamp: Math.floor(sent.timestamp / 1000),
+      fromMe: true,
+    });
+
+    logger.info({ chatId: message.chatId, kind: message.kind, messageId: sent.messageId }, 'Simulated outgoing message');
+    return { messageId: sent.messageId, chatId: message.chatId, status: sent.status };
+  }
+
+  private remember(chatId: string, message: WhatsAppMessage): void {
+    const history = this.messages.get(chatId) ?? [];
+    history.push(message);
+    if (history.length > this.config.maxRecorded) {
+      history.shift();
+    }
+    this.messages.set(chatId, history);
+  }
+
+  private getHandlers(): TransportHandlers {
+    if (!this.handlers) {
+      throw new Error('SimulatorTransport has no handlers');
+    }
+    return this.handlers;
+  }
+}
+
+/**
+ * Same normalization as the WhatsApp client: bare numbers become @c.us chat IDs
+ */
+function toChatId(phoneNumber: string): string {
+  return phoneNumber.includes('@') ? phoneNumber : `${phoneNumber.replace(/\D/g, '')}@c.us`;
+}
+
+/**
+ * WhatsApp message type for a mimetype
+ */
+function mediaType(mimetype: string): string {
+  if (mimetype.startsWith('image/')) {
+    return 'image';
+  }
+  if (mimetype.startsWith('video/')) {
+    return 'video';
+  }
+  if (mimetype.startsWith('audio/')) {
+    return 'ptt';
+  }
+  return 'document';
+}
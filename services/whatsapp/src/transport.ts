@@ -0,0 +1,112 @@
+import { createLogger } from '@aspri/logger';
+import { MessageAckStatus, WhatsAppChat, WhatsAppContact, WhatsAppMessage } from '@aspri/types';
+import { WhatsAppWebTransport } from './whatsapp-web-transport.js';
+import { SimulatorTransport } from './simulator-transport.js';
+
+const logger = createLogger('whatsapp-transport');
+
+/**
+ * Media content as sent or received through a transport
+ */
+export interface TransportMedia {
+  mimetype: string;
+  data: string;       // Base64
+  filename?: string;
+}
+
+export interface SendMediaOptions {
+  caption?: string;
+  asDocument?: boolean;     // Send as a file instead of an inline image/video
+  quotedMessageId?: string;
+}
+
+export interface LocationInput {
+  latitude: number;
+  longitude: number;
+  name?: string;
+  address?: string;
+  url?: string;
+}
+
+/**
+ * A message as it left the transport
+ */
+export interface SentMessage {
+  messageId: string;          // Serialized message ID
+  chatId: string;
+  status: MessageAckStatus;   // Status right after sending, usually pending or sent
+}
+
+/**
+ * An incoming message; media is downloaded on demand
+ */
+export interface InboundMessage {
+  message: Omit<WhatsAppMessage, 'media'>;
+  reportedSize?: number;      // Media size announced by WhatsApp, before downloading
+  downloadMedia?: () => Promise<TransportMedia | null>; // null when the media is no longer available
+}
+
+/**
+ * Session and message events of a transport
+ */
+export interface TransportHandlers {
+  qr(code: string): void;
+  authenticated(): void;
+  ready(): void;
+  disconnected(reason: string): void; // Also for auth failures
+  message(inbound: InboundMessage): Promise<void>;
+  ack(messageId: string, chatId: string, status: MessageAckStatus): Promise<void>;
+}
+
+/**
+ * Connection to WhatsApp used by WhatsAppClient
+ * The client keeps the connection state, media, delivery tracking and events; a transport only talks to WhatsApp.
+ */
+export interface WhatsAppTransport {
+  readonly name: string;
+
+  setHandlers(handlers: TransportHandlers): void;
+
+  /**
+   * Start a session, replacing the previous one if any
+   * Resolves once started; progress is reported through the handlers
+   */
+  connect(): Promise<void>;
+
+  /**
+   * Unlink the device and delete the saved session
+   */
+  logout(): Promise<void>;
+
+  destroy(): Promise<void>;
+
+  sendText(chatId: string, text: string, options?: { quotedMessageId?: string }): Promise<SentMessage>;
+  sendMedia(chatId: string, media: TransportMedia, options?: SendMediaOptions): Promise<SentMessage>;
+  sendContact(chatId: string, vCard: string): Promise<SentMessage>;
+  sendLocation(chatId: string, location: LocationInput): Promise<SentMessage>;
+
+  getMessages(chatId: string, limit: number): Promise<WhatsAppMessage[]>;
+  getChats(limit: number): Promise<WhatsAppChat[]>;
+  searchContacts(query: string): Promise<WhatsAppContact[]>;
+}
+
+type TransportType = 'whatsapp-web' | 'simulator';
+
+/**
+ * Create the transport configured by WHATSAPP_TRANSPORT
+ */
+export function createTransport(transport: string = process.env.WHATSAPP_TRANSPORT || 'whatsapp-web'): WhatsAppTransport {
+  const type = transport.toLowerCase() as TransportType;
+  let created: WhatsAppTransport;
+
+  if (type === 'whatsapp-web') {
+    created = new WhatsAppWebTransport();
+  } else if (type === 'simulator') {
+    created = new SimulatorTransport();
+  } else {
+    throw new Error(`Unsupported WhatsApp transport: ${transport}`);
+  }
+
+  logger.info({ transport: created.name }, 'WhatsApp transport configured');
+  return created;
+}
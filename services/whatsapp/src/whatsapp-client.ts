@@ -1,242 +1,552 @@
-import WhatsAppWebJS from 'whatsapp-web.js';
-import qrcode from 'qrcode-terminal';
 import { createLogger } from '@aspri/logger';
-import { EventPublisher } from '@aspri/utils';
-import { WhatsAppMessage, WhatsAppChat, WhatsAppContact, WhatsAppMessageEvent } from '@aspri/types';
+import { EventPublisher, mediaStore } from '@aspri/utils';
+import {
+  MessageAckStatus,
+  MessageStatus,
+  OutboundMessage,
+  WhatsAppAckEvent,
+  WhatsAppMessage,
+  WhatsAppChat,
+  WhatsAppConnectionState,
+  WhatsAppContact,
+  WhatsAppMedia,
+  WhatsAppMessageEvent,
+} from '@aspri/types';
 import path from 'path';
-import { fileURLToPath } from 'url';
 import { randomUUID } from 'crypto';
-
-const { Client, LocalAuth } = WhatsAppWebJS;
+import { MessageStatusStore } from './message-status-store.js';
+import { downloadPublicUrl } from './public-download.js';
+import {
+  InboundMessage,
+  LocationInput,
+  SendMediaOptions,
+  SentMessage,
+  TransportMedia,
+  WhatsAppTransport,
+} from './transport.js';
+
+export type { LocationInput, SendMediaOptions } from './transport.js';
 
 const logger = createLogger('whatsapp-client');
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
 
+/**
+ * Where outgoing media comes from; exactly one of url, blobId, data or text is set
+ */
+export interface MediaSource {
+  url?: string;       // Downloaded by the WhatsApp Service
+  blobId?: string;    // Media in the blob store, e.g. received earlier
+  data?: string;      // Base64 content, requires mimetype
+  text?: string;      // Content of a generated text document (e.g. a CSV or Markdown report)
+  mimetype?: string;
+  filename?: string;
+}
+
+export interface VCardContact {
+  name: string;
+  phoneNumbers: string[];
+  organization?: string;
+  email?: string;
+}
+
+// Mimetypes of generated text documents, by file extension
+const TEXT_DOCUMENT_MIMETYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.html': 'text/html',
+};
+
+export type StateListener = (state: WhatsAppConnectionState, previousState: WhatsAppConnectionState, reason?: string) => void;
+
+/**
+ * WhatsApp session of the service, on top of a transport (whatsapp-web.js or the simulator)
+ * Keeps the connection state, stores incoming media, tracks delivery status and publishes events.
+ */
 export class WhatsAppClient {
-  private client: any;
-  private ready: boolean = false;
+  private state: WhatsAppConnectionState = 'loading';
+  private qr: { code: string; receivedAt: number } | null = null; // Current pairing QR, rotated by WhatsApp every ~20s
+  private stateListeners: StateListener[] = [];
   private eventPublisher: EventPublisher;
+  private statusStore: MessageStatusStore;
+  private transport: WhatsAppTransport;
 
-  constructor(eventPublisher: EventPublisher) {
+  constructor(eventPublisher: EventPublisher, statusStore: MessageStatusStore, transport: WhatsAppTransport) {
     this.eventPublisher = eventPublisher;
+    this.statusStore = statusStore;
+    this.transport = transport;
+    this.setupEventHandlers();
+  }
 
-    const authDataPath = path.resolve(__dirname, '../.wwebjs_auth');
+  private setupEventHandlers() {
+    this.transport.setHandlers({
+      qr: (code) => {
+        logger.info('QR Code received, scan with your WhatsApp (or open /api/auth/pair)');
+        this.qr = { code, receivedAt: Date.now() };
+        this.setState('qr_required');
+      },
 
-    this.client = new Client({
-      authStrategy: new LocalAuth({
-        dataPath: authDataPath,
-      }),
-      puppeteer: {
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox'],
+      authenticated: () => {
+        logger.info('WhatsApp client authenticated - waiting for ready event...');
+        this.setState('authenticated');
       },
-    });
 
-    logger.info({ authDataPath }, 'WhatsApp auth data path');
-    this.setupEventHandlers();
-  }
+      ready: () => {
+        logger.info('WhatsApp client is ready!');
+        this.setState('ready');
+      },
 
-  private setupEventHandlers() {
-    this.client.on('qr', (qr: any) => {
-      logger.info('QR Code received, scan with your WhatsApp:');
-      qrcode.generate(qr, { small: true }, (qrCode) => {
-        console.error(qrCode);
-      });
-    });
+      disconnected: (reason) => {
+        logger.warn({ reason }, 'WhatsApp client disconnected');
+        this.setState('disconnected', reason);
+      },
 
-    this.client.on('ready', () => {
-      logger.info('WhatsApp client is ready!');
-      this.ready = true;
-    });
+      // Delivery and read receipts of outgoing messages
+      ack: (messageId, chatId, status) => this.trackStatus(messageId, chatId, status),
 
-    this.client.on('authenticated', () => {
-      logger.info('WhatsApp client authenticated - waiting for ready event...');
+      // Message handler - Publish to Redis Stream
+      message: (inbound) => this.handleMessage(inbound),
     });
+  }
 
-    this.client.on('auth_failure', (msg: any) => {
-      logger.error({ msg }, 'WhatsApp authentication failed');
-    });
+  private async handleMessage(inbound: InboundMessage): Promise<void> {
+    const { message } = inbound;
 
-    this.client.on('disconnected', (reason: any) => {
-      logger.warn({ reason }, 'WhatsApp client disconnected');
-      this.ready = false;
-    });
+    logger.info({
+      from: message.from,
+      author: message.author,
+      type: message.type,
+      hasMedia: message.hasMedia,
+      message: message.body,
+      messageLength: message.body.length
+    }, 'Received incoming WhatsApp message');
+
+    const media = message.hasMedia ? await this.downloadMedia(inbound) : undefined;
+    const whatsappMessage: WhatsAppMessage = { ...message, media };
+
+    // Publish event to Redis Stream
+    try {
+      const event: WhatsAppMessageEvent = {
+        eventId: randomUUID(),
+        type: 'whatsapp:message',
+        source: 'whatsapp',
+        timestamp: Date.now(),
+        data: whatsappMessage,
+      };
 
-    this.client.on('loading_screen', (percent: any, message: any) => {
-      logger.info({ percent, message }, 'WhatsApp client loading...');
-    });
+      const streamName = process.env.WHATSAPP_STREAM_NAME || 'whatsapp:messages';
+      await this.eventPublisher.publish(streamName, event);
+    } catch (error) {
+      logger.error({ error, from: message.from }, 'Failed to publish message event');
+    }
+  }
 
-    this.client.on('change_state', (state: any) => {
-      logger.info({ state }, 'WhatsApp client state changed');
-    });
+  /**
+   * Download the media of an incoming message into the media store
+   * Returns undefined when it is too large, expired on the phone, or fails to download;
+   * the message is still published so the AI can tell the user
+   */
+  private async downloadMedia(inbound: InboundMessage): Promise<WhatsAppMedia | undefined> {
+    const { message, reportedSize } = inbound;
+
+    // Skip the download when WhatsApp already reports a size over the limit
+    if (reportedSize && reportedSize > mediaStore.getMaxBytes()) {
+      logger.warn({ from: message.from, type: message.type, size: reportedSize }, 'Media too large, not downloaded');
+      return undefined;
+    }
 
-    // Message handler - Publish to Redis Stream
-    this.client.on('message', async (message: any) => {
-      if (message.fromMe) {
-        return;
+    try {
+      const downloaded = inbound.downloadMedia ? await inbound.downloadMedia() : null;
+      if (!downloaded) {
+        logger.warn({ from: message.from, type: message.type }, 'Media no longer available for download');
+        return undefined;
       }
 
+      const media = await mediaStore.put(
+        Buffer.from(downloaded.data, 'base64'),
+        downloaded.mimetype,
+        downloaded.filename || undefined,
+        message.author || message.from
+      );
+
       logger.info({
         from: message.from,
-        message: message.body,
-        messageLength: message.body.length
-      }, 'Received incoming WhatsApp message');
+        type: message.type,
+        blobId: media.blobId,
+        mimetype: media.mimetype,
+        size: media.size
+      }, 'Media downloaded');
 
-      const whatsappMessage: WhatsAppMessage = {
-        id: message.id.id,
-        from: message.from,
-        to: message.to,
-        body: message.body,
-        timestamp: message.timestamp,
-        fromMe: message.fromMe,
-      };
+      return media;
+    } catch (error) {
+      logger.error({ error, from: message.from, type: message.type }, 'Failed to download media');
+      return undefined;
+    }
+  }
 
-      // Publish event to Redis Stream
-      try {
-        const event: WhatsAppMessageEvent = {
-          eventId: randomUUID(),
-          type: 'whatsapp:message',
-          source: 'whatsapp',
-          timestamp: Date.now(),
-          data: whatsappMessage,
-        };
-
-        const streamName = process.env.WHATSAPP_STREAM_NAME || 'whatsapp:messages';
-        await this.eventPublisher.publish(streamName, event);
-      } catch (error) {
-        logger.error({ error, from: message.from }, 'Failed to publish message event');
-      }
-    });
+  /**
+   * Start the WhatsApp session
+   * Resolves once started; the state then moves on to qr_required or authenticated and ready.
+   * Waiting for ready and recovering from failures is up to the ConnectionSupervisor.
+   */
+  async connect(): Promise<void> {
+    logger.info({ transport: this.transport.name }, 'Initializing WhatsApp client...');
+    this.setState('loading');
+
+    try {
+      await this.transport.connect();
+    } catch (error: any) {
+      this.setState('disconnected', `initialize failed: ${error.message}`);
+      throw error;
+    }
   }
 
-  async initialize(): Promise<void> {
-    logger.info('Initializing WhatsApp client...');
-    await this.client.initialize();
+  /**
+   * Start a new session in place of the current one
+   * The saved session is reused, so no new QR scan is needed unless the device was logged out
+   */
+  async reconnect(): Promise<void> {
+    await this.connect();
+  }
 
-    // Wait for client to be ready
-    const timeout = 90000;
-    const startTime = Date.now();
+  /**
+   * Unlink this device from the WhatsApp account and delete the saved session
+   * The session then disconnects; reconnecting shows a new QR code to pair again
+   */
+  async logout(): Promise<void> {
+    if (this.state !== 'ready') {
+      throw new Error(`Cannot log out while the session is ${this.state}`);
+    }
 
-    while (!this.ready) {
-      const elapsed = Date.now() - startTime;
-      if (elapsed > timeout) {
-        logger.error({
-          timeoutMs: timeout,
-          elapsedMs: elapsed,
-        }, 'WhatsApp client initialization timeout - ready event never fired');
-        throw new Error(`WhatsApp client initialization timeout after ${elapsed}ms`);
-      }
+    logger.warn('Logging out WhatsApp session');
+    await this.transport.logout();
+    this.setState('disconnected', 'logout');
+  }
 
-      // Log progress every 10 seconds
-      if (elapsed % 10000 < 1000) {
-        logger.info({ elapsedMs: elapsed, ready: this.ready }, 'Waiting for WhatsApp client to be ready...');
-      }
+  getState(): WhatsAppConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Current pairing QR code, or null when the session does not need one
+   */
+  getQr(): { code: string; receivedAt: number } | null {
+    return this.state === 'qr_required' ? this.qr : null;
+  }
+
+  onStateChange(listener: StateListener): void {
+    this.stateListeners.push(listener);
+  }
+
+  private setState(state: WhatsAppConnectionState, reason?: string): void {
+    const previousState = this.state;
+    if (state === previousState) {
+      return;
+    }
 
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    this.state = state;
+    if (state !== 'qr_required') {
+      this.qr = null;
     }
+    logger.info({ state, previousState, reason }, 'WhatsApp connection state changed');
 
-    logger.info('WhatsApp client initialized and ready');
+    for (const listener of this.stateListeners) {
+      try {
+        listener(state, previousState, reason);
+      } catch (error) {
+        logger.error({ error, state }, 'State listener failed');
+      }
+    }
   }
 
-  async sendMessage(phoneNumber: string, message: string): Promise<void> {
-    if (!this.ready) {
+  /**
+   * Send a text message to a contact or group
+   * quotedMessageId (a serialized message ID) sends it as a reply quoting that message
+   * Returns the serialized ID of the sent message, used to look up its delivery status
+   */
+  async sendMessage(phoneNumber: string, message: string, options: { quotedMessageId?: string } = {}): Promise<string> {
+    if (!this.isReady()) {
       throw new Error('WhatsApp client is not ready');
     }
 
-    const chatId = phoneNumber.includes('@c.us')
-      ? phoneNumber
-      : `${phoneNumber.replace(/\D/g, '')}@c.us`;
+    const chatId = toChatId(phoneNumber);
 
-    await this.client.sendMessage(chatId, message);
+    const sent = await this.transport.sendText(chatId, message, options);
     logger.info({
       to: chatId,
       message: message,
-      messageLength: message.length
+      messageLength: message.length,
+      quotedMessageId: options.quotedMessageId
     }, 'Sent outgoing WhatsApp message');
+
+    return this.trackSent(sent, message);
   }
 
-  async getMessages(phoneNumber: string, limit: number = 10): Promise<WhatsAppMessage[]> {
-    if (!this.ready) {
+  /**
+   * Send an image, video, audio or file
+   */
+  async sendMedia(phoneNumber: string, source: MediaSource, options: SendMediaOptions = {}): Promise<string> {
+    if (!this.isReady()) {
       throw new Error('WhatsApp client is not ready');
     }
 
-    const chatId = phoneNumber.includes('@c.us')
-      ? phoneNumber
-      : `${phoneNumber.replace(/\D/g, '')}@c.us`;
+    const chatId = toChatId(phoneNumber);
+    const media = await loadMedia(source);
 
-    const chat = await this.client.getChatById(chatId);
-    const messages = await chat.fetchMessages({ limit });
+    const sent = await this.transport.sendMedia(chatId, media, options);
+    logger.info({
+      to: chatId,
+      mimetype: media.mimetype,
+      filename: media.filename,
+      asDocument: !!options.asDocument
+    }, 'Sent outgoing WhatsApp media');
 
-    return messages.map((msg: any) => ({
-      id: msg.id.id,
-      from: msg.from,
-      to: msg.to,
-      body: msg.body,
-      timestamp: msg.timestamp,
-      fromMe: msg.fromMe,
-    }));
+    return this.trackSent(sent, options.caption || media.filename || media.mimetype);
+  }
+
+  /**
+   * Send a contact card
+   */
+  async sendContact(phoneNumber: string, contact: VCardContact): Promise<string> {
+    if (!this.isReady()) {
+      throw new Error('WhatsApp client is not ready');
+    }
+
+    const chatId = toChatId(phoneNumber);
+
+    const sent = await this.transport.sendContact(chatId, buildVCard(contact));
+    logger.info({ to: chatId, contactName: contact.name }, 'Sent outgoing WhatsApp contact');
+
+    return this.trackSent(sent, `Contact: ${contact.name}`);
+  }
+
+  async sendLocation(phoneNumber: string, location: LocationInput): Promise<string> {
+    if (!this.isReady()) {
+      throw new Error('WhatsApp client is not ready');
+    }
+
+    const chatId = toChatId(phoneNumber);
+    const { latitude, longitude, name } = location;
+
+    const sent = await this.transport.sendLocation(chatId, location);
+    logger.info({ to: chatId, latitude, longitude }, 'Sent outgoing WhatsApp location');
+
+    return this.trackSent(sent, `Location: ${name || `${latitude}, ${longitude}`}`);
+  }
+
+  /**
+   * Send a message taken from the outbound queue
+   */
+  async sendOutbound(message: OutboundMessage): Promise<string> {
+    const { phoneNumber, payload } = message;
+
+    switch (message.kind) {
+      case 'text':
+        return this.sendMessage(phoneNumber, payload.message, { quotedMessageId: payload.quotedMessageId });
+      case 'media':
+        return this.sendMedia(phoneNumber, payload.source, payload.options);
+      case 'contact':
+        return this.sendContact(phoneNumber, payload.contact);
+      case 'location':
+        return this.sendLocation(phoneNumber, payload.location);
+    }
+  }
+
+  /**
+   * Delivery status of an outgoing message, or null if unknown (not sent by this service, or expired)
+   */
+  async getMessageStatus(messageId: string): Promise<MessageStatus | null> {
+    return this.statusStore.get(messageId);
+  }
+
+  /**
+   * Latest outgoing messages to a contact or group with their delivery status, newest first
+   */
+  async getChatMessageStatuses(phoneNumber: string, limit: number = 10): Promise<MessageStatus[]> {
+    return this.statusStore.listByChat(toChatId(phoneNumber), limit);
+  }
+
+  /**
+   * Start tracking a sent message and return its serialized ID
+   */
+  private async trackSent(sent: SentMessage, preview: string): Promise<string> {
+    await this.trackStatus(sent.messageId, sent.chatId, sent.status, preview.slice(0, 100));
+    return sent.messageId;
+  }
+
+  /**
+   * Persist an ack transition and publish it as a whatsapp:ack event
+   * Tracking failures are logged only: the message itself was sent
+   */
+  private async trackStatus(messageId: string, chatId: string, status: MessageAckStatus, preview?: string): Promise<void> {
+    try {
+      const result = await this.statusStore.record(messageId, chatId, status, preview);
+      if (!result) {
+        return;
+      }
+
+      const event: WhatsAppAckEvent = {
+        eventId: randomUUID(),
+        type: 'whatsapp:ack',
+        source: 'whatsapp',
+        timestamp: Date.now(),
+        data: {
+          messageId,
+          chatId: result.status.chatId,
+          status: result.status.status,
+          previousStatus: result.previousStatus,
+        },
+      };
+
+      const streamName = process.env.WHATSAPP_ACK_STREAM_NAME || 'whatsapp:ack';
+      await this.eventPublisher.publish(streamName, event);
+    } catch (error) {
+      logger.error({ error, messageId, status }, 'Failed to track message status');
+    }
+  }
+
+  async getMessages(phoneNumber: string, limit: number = 10): Promise<WhatsAppMessage[]> {
+    if (!this.isReady()) {
+      throw new Error('WhatsApp client is not ready');
+    }
+
+    return this.transport.getMessages(toChatId(phoneNumber), limit);
   }
 
   async getChats(limit: number = 20): Promise<WhatsAppChat[]> {
-    if (!this.ready) {
+    if (!this.isReady()) {
       throw new Error('WhatsApp client is not ready');
     }
 
-    const chats = await this.client.getChats();
-    const limitedChats = chats.slice(0, limit);
-
-    return Promise.all(
-      limitedChats.map(async (chat: any) => {
-        const lastMessage = await chat.fetchMessages({ limit: 1 });
-        return {
-          id: chat.id._serialized,
-          name: chat.name || 'Unknown',
-          isGroup: chat.isGroup,
-          unreadCount: chat.unreadCount,
-          lastMessage: lastMessage.length > 0
-            ? {
-                body: lastMessage[0].body,
-                timestamp: lastMessage[0].timestamp,
-              }
-            : undefined,
-        };
-      })
-    );
+    return this.transport.getChats(limit);
   }
 
   async searchContacts(query: string): Promise<WhatsAppContact[]> {
-    if (!this.ready) {
+    if (!this.isReady()) {
       throw new Error('WhatsApp client is not ready');
     }
 
-    const contacts = await this.client.getContacts();
-    const filteredContacts = contacts.filter(
-      (contact: any) =>
-        contact.name?.toLowerCase().includes(query.toLowerCase()) ||
-        contact.number?.includes(query)
-    );
-
-    return filteredContacts.map((contact: any) => ({
-      id: contact.id._serialized,
-      name: contact.name || contact.pushname || 'Unknown',
-      number: contact.number,
-      isMyContact: contact.isMyContact,
-    }));
+    return this.transport.searchContacts(query);
   }
 
   isReady(): boolean {
-    return this.ready;
+    return this.state === 'ready';
   }
 
   async destroy(): Promise<void> {
     try {
       logger.info('Destroying WhatsApp client...');
-      await this.client.destroy();
-      this.ready = false;
+      await this.transport.destroy();
+      this.setState('disconnected', 'shutdown');
       logger.info('WhatsApp client destroyed');
     } catch (error) {
       logger.error({ error }, 'Error destroying client');
     }
   }
 }
+
+/**
+ * Chat ID for a phone number; IDs that already have a suffix (@c.us, @g.us) are used as is
+ */
+export function toChatId(phoneNumber: string): string {
+  return phoneNumber.includes('@')
+    ? phoneNumber
+    : `${phoneNumber.replace(/\D/g, '')}@c.us`;
+}
+
+/**
+ * Put outgoing media in the blob store, so a queued message only carries its blob ID
+ * Fails early when the media cannot be loaded or is too large
+ */
+export async function stageMedia(source: MediaSource): Promise<MediaSource> {
+  if (source.blobId) {
+    if (!(await mediaStore.get(source.blobId))) {
+      throw new Error(`Media ${source.blobId} not found (it may have expired)`);
+    }
+    return { blobId: source.blobId, filename: source.filename };
+  }
+
+  const media = await loadMedia(source);
+  const stored = await mediaStore.put(Buffer.from(media.data, 'base64'), media.mimetype, media.filename || undefined);
+  return { blobId: stored.blobId, filename: source.filename };
+}
+
+/**
+ * Load outgoing media from its source
+ * Media larger than MEDIA_MAX_SIZE_MB is rejected
+ */
+async function loadMedia(source: MediaSource): Promise<TransportMedia> {
+  let media: TransportMedia;
+
+  if (source.url) {
+    media = await downloadUrl(source.url, source.filename);
+  } else if (source.blobId) {
+    const stored = await mediaStore.get(source.blobId);
+    if (!stored) {
+      throw new Error(`Media ${source.blobId} not found (it may have expired)`);
+    }
+    media = {
+      mimetype: stored.media.mimetype,
+      data: stored.data.toString('base64'),
+      filename: source.filename || stored.media.filename,
+    };
+  } else if (source.data) {
+    if (!source.mimetype) {
+      throw new Error('mimetype is required with data');
+    }
+    media = { mimetype: source.mimetype, data: source.data, filename: source.filename };
+  } else if (source.text !== undefined) {
+    const filename = source.filename || 'document.txt';
+    const mimetype = source.mimetype || TEXT_DOCUMENT_MIMETYPES[path.extname(filename).toLowerCase()] || 'text/plain';
+    media = { mimetype, data: Buffer.from(source.text, 'utf-8').toString('base64'), filename };
+  } else {
+    throw new Error('One of url, blobId, data or text is required');
+  }
+
+  const size = Buffer.byteLength(media.data, 'base64');
+  if (size > mediaStore.getMaxBytes()) {
+    throw new Error(`Media is too large (${size} bytes, max ${mediaStore.getMaxBytes()})`);
+  }
+
+  return media;
+}
+
+/**
+ * Download media from a public URL; the mimetype comes from the response, the filename from the URL path
+ */
+async function downloadUrl(url: string, filename?: string): Promise<TransportMedia> {
+  const downloaded = await downloadPublicUrl(url, mediaStore.getMaxBytes());
+
+  return {
+    mimetype: downloaded.mimetype,
+    data: downloaded.data.toString('base64'),
+    filename: filename || path.basename(new URL(url).pathname) || undefined,
+  };
+}
+
+/**
+ * vCard 3.0 text for a contact; waid makes the numbers tappable in WhatsApp
+ */
+function buildVCard(contact: VCardContact): string {
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/[,;]/g, '\\$&').replace(/\r?\n/g, '\\n');
+  const lines = [
+    'BEGIN:VCARD',
+    'VERSION:3.0',
+    `FN:${escape(contact.name)}`,
+  ];
+
+  if (contact.organization) {
+    lines.push(`ORG:${escape(contact.organization)}`);
+  }
+  for (const phoneNumber of contact.phoneNumbers) {
+    // Local 08… numbers are Indonesian, as in the WhatsApp validator
+    const digits = phoneNumber.replace(/\D/g, '').replace(/^0/, '62');
+    lines.push(`TEL;type=CELL;type=VOICE;waid=${digits}:+${digits}`);
+  }
+  if (contact.email) {
+    lines.push(`EMAIL:${escape(contact.email)}`);
+  }
+
+  lines.push('END:VCARD');
+  return lines.join('\n');
+}
@@ -0,0 +1,275 @@
+import WhatsAppWebJS from 'whatsapp-web.js';
+import qrcode from 'qrcode-terminal';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createLogger } from '@aspri/logger';
+import { WhatsAppChat, WhatsAppContact, WhatsAppMessage } from '@aspri/types';
+import { ackToStatus } from './message-status-store.js';
+import type {
+  LocationInput,
+  SendMediaOptions,
+  SentMessage,
+  TransportHandlers,
+  TransportMedia,
+  WhatsAppTransport,
+} from './transport.js';
+
+const { Client, LocalAuth, Location, MessageMedia } = WhatsAppWebJS;
+
+const logger = createLogger('whatsapp-web-transport');
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+/**
+ * WhatsApp Web through whatsapp-web.js and a headless Chromium (Puppeteer)
+ * The session is saved with LocalAuth, so a reconnect does not need a new QR scan.
+ */
+export class WhatsAppWebTransport implements WhatsAppTransport {
+  readonly name = 'whatsapp-web';
+  private client: any = null;
+  private handlers: TransportHandlers | null = null;
+  private readonly authDataPath = path.resolve(__dirname, '../.wwebjs_auth');
+
+  constructor() {
+    logger.info({ authDataPath: this.authDataPath }, 'WhatsApp auth data path');
+  }
+
+  setHandlers(handlers: TransportHandlers): void {
+    this.handlers = handlers;
+  }
+
+  /**
+   * A disconnected whatsapp-web.js client cannot be re-initialized, so every connect creates a new one
+   */
+  async connect(): Promise<void> {
+    const previous = this.client;
+    this.client = this.createClient();
+
+    if (previous) {
+      try {
+        await previous.destroy();
+      } catch (error) {
+        logger.warn({ error }, 'Error destroying previous client');
+      }
+    }
+
+    await this.client.initialize();
+  }
+
+  async logout(): Promise<void> {
+    await this.getClient().logout();
+  }
+
+  async destroy(): Promise<void> {
+    if (this.client) {
+      await this.client.destroy();
+    }
+  }
+
+  async sendText(chatId: string, text: string, options: { quotedMessageId?: string } = {}): Promise<SentMessage> {
+    const sent = await this.getClient().sendMessage(
+      chatId,
+      text,
+      options.quotedMessageId ? { quotedMessageId: options.quotedMessageId } : undefined
+    );
+    return toSentMessage(sent);
+  }
+
+  async sendMedia(chatId: string, media: TransportMedia, options: SendMediaOptions = {}): Promise<SentMessage> {
+    const sent = await this.getClient().sendMessage(chatId, new MessageMedia(media.mimetype, media.data, media.filename), {
+      caption: options.caption || undefined,
+      sendMediaAsDocument: options.asDocument || undefined,
+      quotedMessageId: options.quotedMessageId || undefined,
+    });
+    return toSentMessage(sent);
+  }
+
+  async sendContact(chatId: string, vCard: string): Promise<SentMessage> {
+    // whatsapp-web.js turns a vCard text into a contact card
+    const sent = await this.getClient().sendMessage(chatId, vCard, { parseVCards: true });
+    return toSentMessage(sent);
+  }
+
+  async sendLocation(chatId: string, location: LocationInput): Promise<SentMessage> {
+    const { latitude, longitude, ...details } = location;
+    const sent = await this.getClient().sendMessage(chatId, new Location(latitude, longitude, details));
+    return toSentMessage(sent);
+  }
+
+  async getMessages(chatId: string, limit: number): Promise<WhatsAppMessage[]> {
+    const chat = await this.getClient().getChatById(chatId);
+    const messages = await chat.fetchMessages({ limit });
+
+    return messages.map((msg: any) => ({
+      id: msg.id.id,
+      serializedId: msg.id._serialized,
+      from: msg.from,
+      to: msg.to,
+      author: msg.author || undefined,
+      body: msg.body,
+      type: msg.type,
+      hasMedia: msg.hasMedia || undefined,
+      timestamp: msg.timestamp,
+      fromMe: msg.fromMe,
+    }));
+  }
+
+  async getChats(limit: number): Promise<WhatsAppChat[]> {
+    const chats = await this.getClient().getChats();
+    const limitedChats = chats.slice(0, limit);
+
+    return Promise.all(
+      limitedChats.map(async (chat: any) => {
+        const lastMessage = await chat.fetchMessages({ limit: 1 });
+        return {
+          id: chat.id._serialized,
+          name: chat.name || 'Unknown',
+          isGroup: chat.isGroup,
+          unreadCount: chat.unreadCount,
+          lastMessage: lastMessage.length > 0
+            ? {
+                body: lastMessage[0].body,
+                timestamp: lastMessage[0].timestamp,
+              }
+            : undefined,
+        };
+      })
+    );
+  }
+
+  async searchContacts(query: string): Promise<WhatsAppContact[]> {
+    const contacts = await this.getClient().getContacts();
+    const filteredContacts = contacts.filter(
+      (contact: any) =>
+        contact.name?.toLowerCase().includes(query.toLowerCase()) ||
+        contact.number?.includes(query)
+    );
+
+    return filteredContacts.map((contact: any) => ({
+      id: contact.id._serialized,
+      name: contact.name || contact.pushname || 'Unknown',
+      number: contact.number,
+      isMyContact: contact.isMyContact,
+    }));
+  }
+
+  private createClient(): any {
+    const client = new Client({
+      authStrategy: new LocalAuth({
+        dataPath: this.authDataPath,
+      }),
+      puppeteer: {
+        headless: true,
+        args: ['--no-sandbox', '--disable-setuid-sandbox'],
+      },
+    });
+
+    this.setupEventHandlers(client);
+    return client;
+  }
+
+  private setupEventHandlers(client: any) {
+    // Events of a client that was already replaced are ignored
+    const current = () => client === this.client && this.handlers;
+
+    client.on('qr', (qr: any) => {
+      if (!current()) {
+        return;
+      }
+      qrcode.generate(qr, { small: true }, (qrCode) => {
+        console.error(qrCode);
+      });
+      this.handlers!.qr(qr);
+    });
+
+    client.on('ready', () => {
+      if (current()) {
+        this.handlers!.ready();
+      }
+    });
+
+    client.on('authenticated', () => {
+      if (current()) {
+        this.handlers!.authenticated();
+      }
+    });
+
+    client.on('auth_failure', (msg: any) => {
+      if (current()) {
+        this.handlers!.disconnected(`auth_failure: ${msg}`);
+      }
+    });
+
+    client.on('disconnected', (reason: any) => {
+      if (current()) {
+        this.handlers!.disconnected(String(reason));
+      }
+    });
+
+    client.on('loading_screen', (percent: any, message: any) => {
+      logger.info({ percent, message }, 'WhatsApp client loading...');
+    });
+
+    client.on('change_state', (state: any) => {
+      logger.info({ state }, 'WhatsApp client state changed');
+    });
+
+    // Delivery and read receipts of outgoing messages
+    client.on('message_ack', async (message: any, ack: number) => {
+      if (!message.fromMe || !current()) {
+        return;
+      }
+      await this.handlers!.ack(message.id._serialized, message.to, ackToStatus(ack));
+    });
+
+    client.on('message', async (message: any) => {
+      if (message.fromMe || !current()) {
+        return;
+      }
+
+      const isGroup = message.from.endsWith('@g.us');
+      const mentionedIds: string[] = message.mentionedIds || [];
+      const ownId = client.info?.wid?._serialized;
+
+      await this.handlers!.message({
+        message: {
+          id: message.id.id,
+          serializedId: message.id._serialized,
+          from: message.from,
+          to: message.to,
+          author: isGroup ? message.author : undefined,
+          groupId: isGroup ? message.from : undefined,
+          mentionedIds: mentionedIds.length > 0 ? mentionedIds : undefined,
+          mentionsMe: !!ownId && mentionedIds.includes(ownId),
+          body: message.body,
+          type: message.type,
+          hasMedia: message.hasMedia || undefined,
+          timestamp: message.timestamp,
+          fromMe: message.fromMe,
+        },
+        reportedSize: message._data?.size,
+        downloadMedia: async () => {
+          const downloaded = await message.downloadMedia();
+          return downloaded?.data
+            ? { mimetype: downloaded.mimetype, data: downloaded.data, filename: downloaded.filename || undefined }
+            : null;
+        },
+      });
+    });
+  }
+
+  private getClient(): any {
+    if (!this.client) {
+      throw new Error('WhatsApp Web transport not connected');
+    }
+    return this.client;
+  }
+}
+
+function toSentMessage(sent: any): SentMessage {
+  return {
+    messageId: sent.id._serialized,
+    chatId: sent.to,
+    status: ackToStatus(sent.ack ?? 0),
+  };
+}
@@ -5,13 +5,81 @@
 // WhatsApp Message Types
 export interface WhatsAppMessage {
   id: string;
-  from: string;
+  serializedId?: string; // Full message ID, used to quote this message in a reply
+  from: string; // Sender, or the group ID for group messages
   to: string;
-  body: string;
+  author?: string; // Group messages: who wrote the message
+  groupId?: string; // Group messages: the group chat ID (...@g.us)
+  mentionedIds?: string[]; // Users mentioned in the message
+  mentionsMe?: boolean; // The assistant's own account is mentioned
+  body: string; // Text, or the caption of a media message
+  type?: string; // whatsapp-web.js message type (chat, image, document, ptt, audio, video, sticker, ...)
+  hasMedia?: boolean; // Message carries media, even if it could not be downloaded
+  media?: WhatsAppMedia; // Downloaded media, stored in the media blob store
   timestamp: number;
   fromMe: boolean;
 }
 
+export interface WhatsAppMedia {
+  blobId: string; // Key in the media blob store
+  mimetype: string;
+  filename?: string;
+  size: number; // Bytes
+  ownerId?: string; // User who sent the media; only they may have it forwarded
+}
+
+export interface MediaTranscript {
+  text: string;
+  confidence?: number; // 0..1, if the speech-to-text backend reports one
+  language?: string;
+  engine: string; // Speech-to-text backend that produced it
+  createdAt: number;
+}
+
+// Delivery state of an outgoing message, from whatsapp-web.js message acks
+// error = failed to send, pending = not on the server yet, sent = on the server, delivered = on the recipient's phone
+export type MessageAckStatus = 'error' | 'pending' | 'sent' | 'delivered' | 'read' | 'played';
+
+export interface MessageStatus {
+  messageId: string; // Serialized message ID
+  chatId: string;
+  status: MessageAckStatus;
+  preview?: string; // Start of the text, or the media caption/filename
+  sentAt: number;
+  updatedAt: number;
+  history: Array<{ status: MessageAckStatus; at: number }>; // Every transition, oldest first
+}
+
+// Outbound queue: every send goes through it, so messages survive reconnects and keep their order per recipient
+export type OutboundKind = 'text' | 'media' | 'contact' | 'location';
+
+// queued = waiting (e.g. for the client to be ready), retrying = an attempt failed, sent/failed = final
+export type OutboundState = 'queued' | 'sending' | 'retrying' | 'sent' | 'failed';
+
+export interface OutboundMessage {
+  queueId: string;
+  kind: OutboundKind;
+  phoneNumber: string; // Recipient: a number or chat ID
+  payload: Record<string, any>; // Kind-specific content (text and options, resolved media, contact, location)
+  enqueuedAt: number;
+}
+
+export interface OutboundStatus {
+  queueId: string;
+  chatId: string;
+  kind: OutboundKind;
+  state: OutboundState;
+  attempts: number;
+  messageId?: string; // Set once sent
+  error?: string; // Last error
+  nextAttemptAt?: number; // When retrying
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Connection state of the WhatsApp Web session
+export type WhatsAppConnectionState = 'loading' | 'qr_required' | 'authenticated' | 'ready' | 'disconnected';
+
 export interface WhatsAppChat {
   id: string;
   name: string;
@@ -43,6 +111,34 @@ export interface WhatsAppMessageEvent extends BaseEvent {
   data: WhatsAppMessage;
 }
 
+export interface WhatsAppAckEvent extends BaseEvent {
+  type: 'whatsapp:ack';
+  source: 'whatsapp';
+  data: {
+    messageId: string;
+    chatId: string;
+    status: MessageAckStatus;
+    previousStatus?: MessageAckStatus;
+  };
+}
+
+export interface WhatsAppOutboundEvent extends BaseEvent {
+  type: 'whatsapp:send';
+  source: 'whatsapp';
+  data: OutboundMessage;
+}
+
+export interface WhatsAppStateEvent extends BaseEvent {
+  type: 'whatsapp:state';
+  source: 'whatsapp';
+  data: {
+    state: WhatsAppConnectionState;
+    previousState: WhatsAppConnectionState;
+    reason?: string; // Why the session disconnected
+    reconnectAttempts: number;
+  };
+}
+
 export interface CronjobEvent extends BaseEvent {
   type: 'cronjob:trigger';
   source: 'cronjob';
@@ -54,7 +150,19 @@ export interface CronjobEvent extends BaseEvent {
   };
 }
 
-export type AppEvent = WhatsAppMessageEvent | CronjobEvent;
+export interface CronjobResultEvent extends BaseEvent {
+  type: 'cronjob:result';
+  source: 'ai-engine';
+  data: {
+    jobId: string;
+    eventId: string; // eventId of the cronjob:trigger event that was processed
+    outcome: JobRunOutcome;
+    detail?: string; // Response preview or error message
+    completedAt: number;
+  };
+}
+
+export type AppEvent = WhatsAppMessageEvent | WhatsAppAckEvent | WhatsAppOutboundEvent | WhatsAppStateEvent | CronjobEvent | CronjobResultEvent;
 
 // API Response Types
 export interface ApiResponse<T = any> {
@@ -73,12 +181,77 @@ export interface CronjobDefinition {
   id: string;
   name: string;
   type: JobType; // 'recurring' or 'one-time'
+  ownerId?: string; // User (WhatsApp ID) who owns the job
   schedule?: string; // Cron expression (required for recurring)
   scheduledTime?: number; // Unix timestamp (required for one-time)
+  timezone?: string; // IANA timezone for the cron schedule and wall-clock times (e.g., 'Asia/Jakarta')
   enabled: boolean;
   executed?: boolean; // For one-time jobs: has it been executed?
   executedAt?: number; // For one-time jobs: when was it executed?
+  failed?: boolean; // For one-time jobs: was it given up after its event could not be published?
   payload?: Record<string, any>;
   createdAt: Date;
   updatedAt: Date;
 }
+
+// Outcome reported back by ai-engine after processing a cronjob:trigger event
+export type JobRunOutcome = 'succeeded' | 'failed' | 'skipped';
+
+// 'pending' = published, no outcome reported yet; 'publish_failed' = event never reached the stream
+export type JobRunStatus = 'pending' | 'publish_failed' | JobRunOutcome;
+
+export interface JobRun {
+  eventId: string; // eventId of the published cronjob:trigger event
+  jobId: string;
+  firedAt: number;
+  status: JobRunStatus;
+  messageId?: string; // Redis Stream entry ID returned by XADD
+  detail?: string; // Publish error, response preview or processing error
+  completedAt?: number; // When ai-engine reported the outcome
+}
+
+// Whitelist Types
+export interface WhitelistEntry {
+  resource: string; // Normalized resource (e.g., phone number)
+  label?: string; // Human-friendly name (e.g., contact name)
+  addedAt: number;
+  addedBy?: string; // User who added the entry
+}
+
+// Approval Types
+export interface PendingApproval {
+  id: number; // Short per-user ID the user can reply with (e.g., "YES 3")
+  userId: string;
+  toolName: string; // Validator whose whitelist blocked the action
+  resource: string; // Normalized resource awaiting approval
+  action: {
+    tool: string; // MCP tool to call again once approved
+    args: Record<string, any>;
+  };
+  createdAt: number;
+  expiresAt: number;
+}
+
+// User Types
+// owner = full access, member = regular user, guest = limited access, blocked = ignored
+export type UserRole = 'owner' | 'member' | 'guest' | 'blocked';
+
+export interface UserProfile {
+  userId: string; // Normalized WhatsApp ID (e.g., 628123456789)
+  role: UserRole;
+  displayName?: string;
+  timezone?: string; // IANA timezone (e.g., 'Asia/Jakarta')
+  language?: string; // Preferred reply language (e.g., 'id', 'en')
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Todo Types
+export interface TodoItem {
+  id: number;
+  list: string;
+  text: string;
+  completed: boolean;
+  createdAt: number;
+  completedAt?: number;
+}
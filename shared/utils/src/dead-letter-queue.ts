@@ -0,0 +1,146 @@
+import { RedisClientType } from 'redis';
+import { createLogger } from '@aspri/logger';
+import { getRedisClient } from './redis-client.js';
+
+const logger = createLogger('dead-letter-queue');
+
+// Metadata fields added next to the original event fields in a dead-letter entry
+export const DEAD_LETTER_FIELD_PREFIX = 'dlq:';
+
+/**
+ * Default dead-letter stream for a source stream
+ */
+export function getDeadLetterStreamName(streamName: string): string {
+  return `${streamName}:dead`;
+}
+
+export interface DeadLetterEntry {
+  id: string; // Entry ID in the dead-letter stream
+  originalStream: string;
+  originalId: string;
+  groupName: string;
+  deliveries: number;
+  deadLetteredAt: number;
+  lastError?: string;
+  fields: Record<string, string>; // Original event fields (eventId, type, source, timestamp, data)
+}
+
+/**
+ * Inspect and replay events that EventConsumer gave up on
+ */
+export class DeadLetterQueue {
+  private redis: RedisClientType | null = null;
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+    logger.info('DeadLetterQueue initialized');
+  }
+
+  /**
+   * List dead-lettered entries, oldest first
+   */
+  async list(deadLetterStream: string, count: number = 50): Promise<DeadLetterEntry[]> {
+    const redis = this.getClient();
+    const entries = await redis.xRange(deadLetterStream, '-', '+', { COUNT: count });
+    return entries.map((entry) => toDeadLetterEntry(entry.id, entry.message));
+  }
+
+  /**
+   * Number of entries in a dead-letter stream
+   */
+  async count(deadLetterStream: string): Promise<number> {
+    const redis = this.getClient();
+    return redis.xLen(deadLetterStream);
+  }
+
+  /**
+   * Re-publish a dead-lettered event to its original stream and remove it from the dead-letter stream
+   * Returns the new message ID in the original stream
+   */
+  async replay(deadLetterStream: string, id: string): Promise<string> {
+    const redis = this.getClient();
+    const [raw] = await redis.xRange(deadLetterStream, id, id);
+
+    if (!raw) {
+      throw new Error(`Dead-letter entry not found: ${id}`);
+    }
+
+    const entry = toDeadLetterEntry(raw.id, raw.message);
+    const results = await redis
+      .multi()
+      .xAdd(entry.originalStream, '*', entry.fields)
+      .xDel(deadLetterStream, id)
+      .exec();
+    const messageId = results[0] as unknown as string;
+
+    logger.info({
+      deadLetterStream,
+      id,
+      originalStream: entry.originalStream,
+      eventId: entry.fields.eventId,
+      messageId,
+    }, 'Dead-lettered event replayed');
+
+    return messageId;
+  }
+
+  /**
+   * Replay every entry in a dead-letter stream
+   * Returns the number of replayed events
+   */
+  async replayAll(deadLetterStream: string): Promise<number> {
+    let replayed = 0;
+    let batch = await this.list(deadLetterStream, 100);
+
+    while (batch.length > 0) {
+      for (const entry of batch) {
+        await this.replay(deadLetterStream, entry.id);
+        replayed++;
+      }
+      batch = await this.list(deadLetterStream, 100);
+    }
+
+    return replayed;
+  }
+
+  /**
+   * Permanently discard a dead-lettered event
+   */
+  async remove(deadLetterStream: string, id: string): Promise<boolean> {
+    const redis = this.getClient();
+    const removed = await redis.xDel(deadLetterStream, id);
+    logger.info({ deadLetterStream, id, removed: removed > 0 }, 'Dead-lettered event removed');
+    return removed > 0;
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('DeadLetterQueue not initialized');
+    }
+    return this.redis;
+  }
+}
+
+function toDeadLetterEntry(id: string, message: Record<string, string>): DeadLetterEntry {
+  const fields: Record<string, string> = {};
+  const meta: Record<string, string> = {};
+
+  for (const [key, value] of Object.entries(message)) {
+    if (key.startsWith(DEAD_LETTER_FIELD_PREFIX)) {
+      meta[key.slice(DEAD_LETTER_FIELD_PREFIX.length)] = value;
+    } else {
+      fields[key] = value;
+    }
+  }
+
+  return {
+    id,
+    originalStream: meta.originalStream,
+    originalId: meta.originalId,
+    groupName: meta.groupName,
+    deliveries: parseInt(meta.deliveries || '0'),
+    deadLetteredAt: parseInt(meta.deadLetteredAt || '0'),
+    lastError: meta.lastError,
+    fields,
+  };
+}
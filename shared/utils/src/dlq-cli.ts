@@ -0,0 +1,74 @@
+#!/usr/bin/env node
+
+/**
+ * Inspect and replay dead-lettered events
+ *
+ * Usage:
+ *   npm run dlq -- list <stream> [count]
+ *   npm run dlq -- replay <stream> <entryId|--all>
+ *   npm run dlq -- remove <stream> <entryId>
+ *
+ * <stream> is the source stream (e.g. whatsapp:messages); its dead-letter stream is derived from it.
+ */
+
+import { DeadLetterQueue, getDeadLetterStreamName } from './dead-letter-queue.js';
+import { closeRedisClient } from './redis-client.js';
+
+const USAGE = 'Usage: dlq <list|replay|remove> <stream> [count|entryId|--all]';
+
+async function main() {
+  const [command, streamName, arg] = process.argv.slice(2);
+
+  if (!command || !streamName) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const deadLetterStream = getDeadLetterStreamName(streamName);
+  const dlq = new DeadLetterQueue();
+  await dlq.initialize();
+
+  try {
+    switch (command) {
+      case 'list': {
+        const entries = await dlq.list(deadLetterStream, arg ? parseInt(arg) : undefined);
+        const total = await dlq.count(deadLetterStream);
+        console.log(JSON.stringify({ deadLetterStream, total, entries }, null, 2));
+        break;
+      }
+
+      case 'replay': {
+        if (!arg) {
+          throw new Error('replay requires an entry ID or --all');
+        }
+        if (arg === '--all') {
+          const replayed = await dlq.replayAll(deadLetterStream);
+          console.log(`Replayed ${replayed} event(s) from ${deadLetterStream}`);
+        } else {
+          const messageId = await dlq.replay(deadLetterStream, arg);
+          console.log(`Replayed ${arg} to ${streamName} as ${messageId}`);
+        }
+        break;
+      }
+
+      case 'remove': {
+        if (!arg) {
+          throw new Error('remove requires an entry ID');
+        }
+        const removed = await dlq.remove(deadLetterStream, arg);
+        console.log(removed ? `Removed ${arg}` : `Entry not found: ${arg}`);
+        break;
+      }
+
+      default:
+        throw new Error(`Unknown command: ${command}. ${USAGE}`);
+    }
+  } finally {
+    await closeRedisClient();
+  }
+}
+
+main().catch((error) => {
+  console.error(error?.message || error);
+  process.exit(1);
+});
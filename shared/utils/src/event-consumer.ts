@@ -1,24 +1,44 @@
-import { RedisClientType } from 'redis';
+import { RedisClientType, commandOptions } from 'redis';
 import { createLogger } from '@aspri/logger';
 import { AppEvent } from '@aspri/types';
 import { getRedisClient } from './redis-client.js';
+import { getDeadLetterStreamName, DEAD_LETTER_FIELD_PREFIX } from './dead-letter-queue.js';
 
 const logger = createLogger('event-consumer');
 
 export type EventHandler = (event: AppEvent) => Promise<void>;
 
+// Events with the same key are processed one at a time, in stream order
+export type PartitionKeyFn = (event: AppEvent) => string | undefined;
+
+type StreamMessage = { id: string; message: Record<string, string> };
+
 export interface ConsumerConfig {
   streamName: string;
   groupName: string;
   consumerName: string;
   blockMs?: number;
   count?: number;
+  maxAttempts?: number; // Deliveries before a message is dead-lettered (default: 5)
+  retryBaseMs?: number; // Idle time before the first retry, doubled per delivery; must exceed reclaimIntervalMs (default: 60000)
+  retryMaxMs?: number; // Upper bound for the retry backoff (default: 900000)
+  reclaimIntervalMs?: number; // How often pending messages are checked (default: 10000)
+  deadLetterStream?: string; // Default: "<streamName>:dead"
+  concurrency?: number; // Messages processed in parallel by this consumer (default: 1)
+  partitionKey?: PartitionKeyFn; // Serialize events per key, also across consumers in the group
+  partitionPollMs?: number; // How often to re-check an earlier message of the same key on another consumer (default: 250)
 }
 
+type ResolvedConsumerConfig = Required<Omit<ConsumerConfig, 'partitionKey'>> & Pick<ConsumerConfig, 'partitionKey'>;
+
 export class EventConsumer {
   private redis: RedisClientType | null = null;
   private running: boolean = false;
   private handlers: Map<string, EventHandler> = new Map();
+  private lastErrors: Map<string, string> = new Map(); // messageId -> last handler error
+  private inFlight: Set<Promise<void>> = new Set();
+  private scheduled: Set<string> = new Set(); // IDs of messages held by this consumer: waiting for a slot, their partition, or running
+  private partitionTails: Map<string, Promise<void>> = new Map(); // partition key -> last scheduled task
 
   async initialize(): Promise<void> {
     this.redis = await getRedisClient();
@@ -41,7 +61,8 @@ export class EventConsumer {
       throw new Error('EventConsumer not initialized');
     }
 
-    const { streamName, groupName, consumerName, blockMs = 5000, count = 10 } = config;
+    const resolved = this.resolveConfig(config);
+    const { streamName, groupName, consumerName, blockMs, count } = resolved;
 
     // Create consumer group if it doesn't exist
     try {
@@ -60,11 +81,16 @@ export class EventConsumer {
     this.running = true;
     logger.info({ streamName, groupName, consumerName }, 'Starting event consumer');
 
+    // Retry failed/abandoned messages alongside the main loop
+    const reclaimLoop = this.runReclaimLoop(resolved);
+
     // Main consumption loop
     while (this.running) {
       try {
         // Read new messages from the stream
+        // Isolated so the blocking read does not stall other commands on the shared client
         const messages = await this.redis.xReadGroup(
+          commandOptions({ isolated: true }),
           groupName,
           consumerName,
           [{ key: streamName, id: '>' }],
@@ -81,7 +107,7 @@ export class EventConsumer {
         // Process messages
         for (const stream of messages) {
           for (const message of stream.messages) {
-            await this.processMessage(streamName, groupName, message);
+            await this.dispatch(resolved, message);
           }
         }
       } catch (error) {
@@ -91,9 +117,288 @@ export class EventConsumer {
       }
     }
 
+    await reclaimLoop;
+    await Promise.allSettled(Array.from(this.inFlight));
+    await this.removeIdleConsumer(resolved);
     logger.info('Event consumer stopped');
   }
 
+  private resolveConfig(config: ConsumerConfig): ResolvedConsumerConfig {
+    return {
+      blockMs: 5000,
+      count: 10,
+      maxAttempts: 5,
+      retryBaseMs: 60_000,
+      retryMaxMs: 900_000,
+      reclaimIntervalMs: 10_000,
+      deadLetterStream: getDeadLetterStreamName(config.streamName),
+      concurrency: 1,
+      partitionPollMs: 250,
+      ...Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)),
+    } as ResolvedConsumerConfig;
+  }
+
+  /**
+   * Periodically retry pending messages until the consumer stops
+   */
+  private async runReclaimLoop(config: ResolvedConsumerConfig): Promise<void> {
+    while (this.running) {
+      await new Promise((resolve) => setTimeout(resolve, config.reclaimIntervalMs));
+      if (!this.running) {
+        break;
+      }
+
+      try {
+        await this.refreshOwnership(config);
+        await this.reclaimPending(config);
+      } catch (error) {
+        logger.error({ error, streamName: config.streamName }, 'Error reclaiming pending messages');
+      }
+    }
+  }
+
+  /**
+   * Reset the idle time of the messages this consumer holds
+   * A message waiting for a slot or running a long handler would otherwise look abandoned after its backoff,
+   * and be claimed and processed a second time. JUSTID does not count as a delivery.
+   */
+  private async refreshOwnership(config: ResolvedConsumerConfig): Promise<void> {
+    if (this.scheduled.size === 0) {
+      return;
+    }
+
+    const { streamName, groupName, consumerName } = config;
+    await this.redis!.xClaimJustId(streamName, groupName, consumerName, 0, Array.from(this.scheduled));
+  }
+
+  /**
+   * Inspect the pending entries list and, per message:
+   * - dead-letter it once it has been delivered maxAttempts times
+   * - otherwise claim and reprocess it when it has been idle longer than its backoff
+   *
+   * Messages stay pending when a handler throws or a consumer crashes mid-processing,
+   * so this also recovers messages abandoned by other consumers in the group.
+   */
+  private async reclaimPending(config: ResolvedConsumerConfig): Promise<void> {
+    const { streamName, groupName, consumerName, count, maxAttempts } = config;
+
+    const pending = await this.redis!.xPendingRange(streamName, groupName, '-', '+', count, {
+      IDLE: config.retryBaseMs,
+    });
+
+    for (const entry of pending) {
+      const messageId = entry.id.toString();
+      const backoffMs = this.getBackoffMs(config, entry.deliveriesCounter);
+
+      // Still held by this consumer, not failed or abandoned
+      if (this.scheduled.has(messageId)) {
+        continue;
+      }
+
+      if (entry.millisecondsSinceLastDelivery < backoffMs) {
+        continue;
+      }
+
+      if (entry.deliveriesCounter >= maxAttempts) {
+        await this.deadLetter(config, messageId, entry.deliveriesCounter);
+        continue;
+      }
+
+      // XCLAIM re-checks the idle time, so only one consumer wins the message
+      const claimed = await this.redis!.xClaim(streamName, groupName, consumerName, backoffMs, messageId);
+      for (const message of claimed) {
+        if (!message) {
+          continue;
+        }
+
+        logger.info({
+          streamName,
+          messageId,
+          attempt: entry.deliveriesCounter + 1,
+          maxAttempts,
+        }, 'Retrying pending message');
+
+        await this.dispatch(config, message);
+      }
+    }
+  }
+
+  /**
+   * Schedule a message for processing once a concurrency slot is free
+   * Returns as soon as the message is scheduled; with concurrency 1 that means after it was processed
+   */
+  private async dispatch(config: ResolvedConsumerConfig, message: StreamMessage): Promise<void> {
+    this.scheduled.add(message.id);
+
+    while (this.inFlight.size >= config.concurrency) {
+      await Promise.race(this.inFlight);
+    }
+
+    const key = this.getPartitionKey(config, message);
+    const previous = key ? this.partitionTails.get(key) : undefined;
+
+    const task = (async () => {
+      // Earlier messages of the same key on this consumer finish first
+      if (previous) {
+        await previous;
+      }
+      // ...and so do those delivered to other consumers in the group
+      if (key) {
+        try {
+          await this.waitForEarlierMessages(config, message.id, key);
+        } catch (error) {
+          logger.warn({ error, messageId: message.id, key }, 'Failed to check partition order, processing anyway');
+        }
+      }
+      await this.processMessage(config.streamName, config.groupName, message);
+    })();
+
+    this.inFlight.add(task);
+    if (key) {
+      this.partitionTails.set(key, task);
+    }
+
+    task.finally(() => {
+      this.scheduled.delete(message.id);
+      this.inFlight.delete(task);
+      if (key && this.partitionTails.get(key) === task) {
+        this.partitionTails.delete(key);
+      }
+    });
+
+    if (config.concurrency <= 1) {
+      await task;
+    }
+  }
+
+  private getPartitionKey(config: ResolvedConsumerConfig, message: StreamMessage): string | undefined {
+    if (!config.partitionKey) {
+      return undefined;
+    }
+
+    try {
+      return config.partitionKey(this.parseEvent(message.message));
+    } catch {
+      // Unparseable messages fail in processMessage and follow the normal retry path
+      return undefined;
+    }
+  }
+
+  /**
+   * Wait while an earlier message with the same partition key is being processed by another consumer
+   *
+   * Every message before this one in the stream was already delivered, so any such message is either
+   * acknowledged or in the pending entries list. Entries idle longer than retryBaseMs are failed or
+   * abandoned; they are left to the reclaim loop instead of blocking the partition.
+   */
+  private async waitForEarlierMessages(config: ResolvedConsumerConfig, messageId: string, key: string): Promise<void> {
+    const { streamName, groupName, consumerName, count, retryBaseMs, partitionPollMs } = config;
+    const deadline = Date.now() + retryBaseMs;
+
+    while (this.running && Date.now() < deadline) {
+      const pending = await this.redis!.xPendingRange(streamName, groupName, '-', messageId, count * 10);
+      const candidates = pending.filter((entry) =>
+        entry.id.toString() !== messageId &&
+        entry.owner.toString() !== consumerName &&
+        entry.millisecondsSinceLastDelivery < retryBaseMs
+      );
+
+      let blocked = false;
+      for (const entry of candidates) {
+        const [earlier] = await this.redis!.xRange(streamName, entry.id, entry.id);
+        if (earlier && this.getPartitionKey(config, earlier) === key) {
+          blocked = true;
+          break;
+        }
+      }
+
+      if (!blocked) {
+        return;
+      }
+
+      logger.debug({ streamName, messageId, key }, 'Waiting for earlier message of the same partition');
+      await new Promise((resolve) => setTimeout(resolve, partitionPollMs));
+    }
+  }
+
+  /**
+   * Remove this consumer from the group on shutdown unless it still owns pending messages
+   * Keeps the group clean when consumer names are unique per process
+   */
+  private async removeIdleConsumer(config: ResolvedConsumerConfig): Promise<void> {
+    const { streamName, groupName, consumerName } = config;
+
+    try {
+      const owned = await this.redis!.xPendingRange(streamName, groupName, '-', '+', 1, { consumer: consumerName });
+      if (owned.length === 0) {
+        await this.redis!.xGroupDelConsumer(streamName, groupName, consumerName);
+        logger.debug({ streamName, groupName, consumerName }, 'Consumer removed from group');
+      }
+    } catch (error) {
+      logger.warn({ error, streamName, consumerName }, 'Failed to remove consumer from group');
+    }
+  }
+
+  /**
+   * Parse an event from Redis Stream message fields
+   */
+  private parseEvent(messageData: Record<string, string>): AppEvent {
+    return {
+      eventId: messageData.eventId,
+      type: messageData.type as any,
+      source: messageData.source,
+      timestamp: parseInt(messageData.timestamp),
+      data: JSON.parse(messageData.data),
+    } as AppEvent;
+  }
+
+  /**
+   * Exponential backoff based on how often the message was delivered
+   */
+  private getBackoffMs(config: ResolvedConsumerConfig, deliveries: number): number {
+    return Math.min(config.retryBaseMs * 2 ** Math.max(deliveries - 1, 0), config.retryMaxMs);
+  }
+
+  /**
+   * Copy a message to the dead-letter stream and acknowledge it on the source stream
+   */
+  private async deadLetter(config: ResolvedConsumerConfig, messageId: string, deliveries: number): Promise<void> {
+    const { streamName, groupName, deadLetterStream } = config;
+    const [original] = await this.redis!.xRange(streamName, messageId, messageId);
+
+    if (original) {
+      const lastError = this.lastErrors.get(messageId);
+      await this.redis!
+        .multi()
+        .xAdd(deadLetterStream, '*', {
+          ...original.message,
+          [`${DEAD_LETTER_FIELD_PREFIX}originalStream`]: streamName,
+          [`${DEAD_LETTER_FIELD_PREFIX}originalId`]: messageId,
+          [`${DEAD_LETTER_FIELD_PREFIX}groupName`]: groupName,
+          [`${DEAD_LETTER_FIELD_PREFIX}deliveries`]: deliveries.toString(),
+          [`${DEAD_LETTER_FIELD_PREFIX}deadLetteredAt`]: Date.now().toString(),
+          ...(lastError ? { [`${DEAD_LETTER_FIELD_PREFIX}lastError`]: lastError } : {}),
+        })
+        .xAck(streamName, groupName, messageId)
+        .exec();
+
+      logger.warn({
+        streamName,
+        deadLetterStream,
+        messageId,
+        eventId: original.message.eventId,
+        deliveries,
+        lastError,
+      }, 'Message exceeded max attempts, moved to dead-letter stream');
+    } else {
+      // Entry was trimmed from the stream, nothing left to retry
+      await this.redis!.xAck(streamName, groupName, messageId);
+      logger.warn({ streamName, messageId, deliveries }, 'Pending message no longer in stream, acknowledged');
+    }
+
+    this.lastErrors.delete(messageId);
+  }
+
   /**
    * Process a single message
    */
@@ -106,13 +411,7 @@ export class EventConsumer {
 
     try {
       // Parse event from Redis Stream message
-      const event: AppEvent = {
-        eventId: messageData.eventId,
-        type: messageData.type as any,
-        source: messageData.source,
-        timestamp: parseInt(messageData.timestamp),
-        data: JSON.parse(messageData.data),
-      };
+      const event = this.parseEvent(messageData);
 
       logger.debug({ eventId: event.eventId, type: event.type }, 'Processing event');
 
@@ -127,9 +426,11 @@ export class EventConsumer {
 
       // Acknowledge message (remove from pending list)
       await this.redis!.xAck(streamName, groupName, messageId);
-    } catch (error) {
+      this.lastErrors.delete(messageId);
+    } catch (error: any) {
       logger.error({ error, messageId }, 'Error processing message');
-      // Message will remain in pending list and can be retried
+      // Message will remain in pending list and is retried by the reclaim loop
+      this.lastErrors.set(messageId, error?.message || String(error));
     }
   }
 
@@ -1,4 +1,10 @@
 export * from './redis-client.js';
+export * from './user-id.js';
+export * from './timezone.js';
 export * from './event-publisher.js';
 export * from './event-consumer.js';
+export * from './dead-letter-queue.js';
+export * from './user-registry.js';
+export * from './media-store.js';
 export * from './validators/index.js';
+export * from './secure-compare.js';
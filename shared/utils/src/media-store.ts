@@ -0,0 +1,178 @@
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { createLogger } from '@aspri/logger';
+import { MediaTranscript, WhatsAppMedia } from '@aspri/types';
+
+const logger = createLogger('media-store');
+
+// Blob IDs are UUIDs; anything else is rejected so an ID can never point outside the store
+const BLOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export interface MediaStoreConfig {
+  maxBytes: number;      // Larger media is not stored
+  retentionMs: number;   // Blobs older than this are removed
+}
+
+/**
+ * Local blob store for downloaded WhatsApp media
+ * The WhatsApp Service writes blobs, the AI Engine reads them, so both must use the same directory.
+ *
+ * File layout:
+ * - {dir}/{blobId}                   raw media
+ * - {dir}/{blobId}.json              WhatsAppMedia metadata
+ * - {dir}/{blobId}.transcript.json   MediaTranscript of audio, written by the AI Engine
+ */
+export class MediaStore {
+  private readonly dir: string;
+  private readonly config: MediaStoreConfig;
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(dir?: string, config?: Partial<MediaStoreConfig>) {
+    this.dir = path.resolve(dir || process.env.MEDIA_STORAGE_DIR || path.join(tmpdir(), 'aspri-media'));
+    this.config = {
+      maxBytes: config?.maxBytes ?? parseInt(process.env.MEDIA_MAX_SIZE_MB || '16') * 1024 * 1024,
+      retentionMs: config?.retentionMs ?? parseInt(process.env.MEDIA_RETENTION_HOURS || '72') * 3_600_000,
+    };
+  }
+
+  async initialize(): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await this.cleanup();
+
+    // Expired blobs are removed hourly; the timer must not keep the process alive
+    if (!this.cleanupTimer) {
+      this.cleanupTimer = setInterval(() => {
+        this.cleanup().catch((error) => logger.error({ error }, 'Media cleanup failed'));
+      }, 3_600_000);
+      this.cleanupTimer.unref();
+    }
+
+    logger.info({ dir: this.dir, maxBytes: this.config.maxBytes }, 'MediaStore initialized');
+  }
+
+  getMaxBytes(): number {
+    return this.config.maxBytes;
+  }
+
+  /**
+   * Store media and return its reference
+   * ownerId records who sent the media, so it can only be forwarded on their behalf
+   * Throws if the media is larger than maxBytes
+   */
+  async put(data: Buffer, mimetype: string, filename?: string, ownerId?: string): Promise<WhatsAppMedia> {
+    if (data.length > this.config.maxBytes) {
+      throw new Error(`Media is too large (${data.length} bytes, max ${this.config.maxBytes})`);
+    }
+
+    const media: WhatsAppMedia = {
+      blobId: randomUUID(),
+      mimetype,
+      filename: filename || undefined,
+      size: data.length,
+      ownerId: ownerId || undefined,
+    };
+
+    await writeFile(this.blobPath(media.blobId), data);
+    await writeFile(`${this.blobPath(media.blobId)}.json`, JSON.stringify(media));
+
+    logger.debug({ blobId: media.blobId, mimetype, size: media.size }, 'Media stored');
+    return media;
+  }
+
+  /**
+   * Read a blob, or null if it does not exist (anymore)
+   */
+  async get(blobId: string): Promise<{ media: WhatsAppMedia; data: Buffer } | null> {
+    try {
+      const file = this.blobPath(blobId);
+      const media: WhatsAppMedia = JSON.parse(await readFile(`${file}.json`, 'utf-8'));
+      const data = await readFile(file);
+      return { media, data };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Metadata of a blob without reading its content, or null if it does not exist (anymore)
+   */
+  async getInfo(blobId: string): Promise<WhatsAppMedia | null> {
+    try {
+      return JSON.parse(await readFile(`${this.blobPath(blobId)}.json`, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Transcript of an audio blob, or null if it was not transcribed yet
+   */
+  async getTranscript(blobId: string): Promise<MediaTranscript | null> {
+    try {
+      return JSON.parse(await readFile(`${this.blobPath(blobId)}.transcript.json`, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async putTranscript(blobId: string, transcript: MediaTranscript): Promise<void> {
+    await writeFile(`${this.blobPath(blobId)}.transcript.json`, JSON.stringify(transcript));
+  }
+
+  async remove(blobId: string): Promise<void> {
+    const file = this.blobPath(blobId);
+    await rm(file, { force: true });
+    await rm(`${file}.json`, { force: true });
+    await rm(`${file}.transcript.json`, { force: true });
+  }
+
+  /**
+   * Remove blobs older than the retention period
+   * Returns the number of files removed
+   */
+  async cleanup(): Promise<number> {
+    const cutoff = Date.now() - this.config.retentionMs;
+    let removed = 0;
+
+    for (const name of await readdir(this.dir)) {
+      const file = path.join(this.dir, name);
+      try {
+        if ((await stat(file)).mtimeMs < cutoff) {
+          await rm(file, { force: true });
+          removed++;
+        }
+      } catch (error: any) {
+        // Removed concurrently by another process
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+
+    if (removed > 0) {
+      logger.info({ removed }, 'Expired media removed');
+    }
+    return removed;
+  }
+
+  private blobPath(blobId: string): string {
+    if (!BLOB_ID_PATTERN.test(blobId)) {
+      throw new Error(`Invalid blob ID: "${blobId}"`);
+    }
+    return path.join(this.dir, blobId);
+  }
+}
+
+// Singleton instance
+export const mediaStore = new MediaStore();
@@ -0,0 +1,11 @@
+import { createHash, timingSafeEqual } from 'crypto';
+
+/**
+ * Compare a provided secret (API token, pairing token) with the expected one in constant time
+ * Both are hashed first, so their lengths do not leak either
+ */
+export function safeEqual(provided: string, expected: string): boolean {
+  const a = createHash('sha256').update(provided).digest();
+  const b = createHash('sha256').update(expected).digest();
+  return timingSafeEqual(a, b);
+}
@@ -0,0 +1,14 @@
+/**
+ * Check if a value is a valid IANA timezone name (e.g., "Asia/Jakarta")
+ * @param timezone - Timezone name to check
+ * @returns true if the runtime recognises the timezone, false otherwise
+ */
+export function isValidTimezone(timezone: any): boolean {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
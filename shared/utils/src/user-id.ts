@@ -0,0 +1,6 @@
+/**
+ * Strip the WhatsApp suffix (@c.us) so "628xxx" and "628xxx@c.us" refer to the same user
+ */
+export function normalizeUserId(userId: string): string {
+  return userId.trim().replace(/@.*$/, '');
+}
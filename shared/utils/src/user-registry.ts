@@ -0,0 +1,153 @@
+import { RedisClientType } from 'redis';
+import { createLogger } from '@aspri/logger';
+import { UserProfile, UserRole } from '@aspri/types';
+import { getRedisClient } from './redis-client.js';
+import { normalizeUserId } from './user-id.js';
+import { isValidTimezone } from './timezone.js';
+
+const logger = createLogger('user-registry');
+
+export const USER_ROLES: UserRole[] = ['owner', 'member', 'guest', 'blocked'];
+
+export interface UserRegistryConfig {
+  ownerIds: string[];     // Seeded as owners on startup
+  notifyTtlMs: number;    // How long to wait before replying to the same unknown sender again
+}
+
+/**
+ * Who may use the assistant, and their preferences
+ *
+ * Key layout:
+ * - {prefix}                     HASH userId -> JSON UserProfile
+ * - {prefix}:notified:{userId}   set while an unknown sender was recently told they are not registered
+ */
+export class UserRegistry {
+  private redis: RedisClientType | null = null;
+  private readonly prefix: string;
+  private readonly config: UserRegistryConfig;
+
+  constructor(prefix?: string, config?: Partial<UserRegistryConfig>) {
+    this.prefix = prefix || process.env.USER_REGISTRY_KEY_PREFIX || 'users';
+    this.config = {
+      ownerIds: (config?.ownerIds ?? (process.env.OWNER_USER_IDS || process.env.ADMIN_USER_IDS || '').split(','))
+        .map(normalizeUserId)
+        .filter(Boolean),
+      notifyTtlMs: config?.notifyTtlMs ?? parseInt(process.env.UNKNOWN_SENDER_REPLY_INTERVAL_HOURS || '24') * 3_600_000,
+    };
+  }
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+
+    // Configured owners always keep the owner role
+    for (const ownerId of this.config.ownerIds) {
+      const profile = await this.get(ownerId);
+      if (profile?.role !== 'owner') {
+        await this.upsert(ownerId, { role: 'owner' });
+      }
+    }
+
+    if (this.config.ownerIds.length === 0) {
+      logger.warn('No OWNER_USER_IDS configured; only users added to the registry can use the assistant');
+    }
+
+    logger.info({ prefix: this.prefix, owners: this.config.ownerIds.length }, 'UserRegistry initialized');
+  }
+
+  async get(userId: string): Promise<UserProfile | null> {
+    const redis = this.getClient();
+    const raw = await redis.hGet(this.prefix, normalizeUserId(userId));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async list(): Promise<UserProfile[]> {
+    const redis = this.getClient();
+    const users = await redis.hGetAll(this.prefix);
+
+    return Object.values(users)
+      .map((raw) => JSON.parse(raw) as UserProfile)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Create a user or update some fields; new users default to the member role
+   */
+  async upsert(
+    userId: string,
+    updates: Partial<Pick<UserProfile, 'role' | 'displayName' | 'timezone' | 'language'>>
+  ): Promise<UserProfile> {
+    const redis = this.getClient();
+    const id = normalizeUserId(userId);
+
+    if (updates.role && !USER_ROLES.includes(updates.role)) {
+      throw new Error(`Invalid role: "${updates.role}". Must be one of: ${USER_ROLES.join(', ')}`);
+    }
+    if (updates.timezone && !isValidTimezone(updates.timezone)) {
+      throw new Error(`Invalid timezone: "${updates.timezone}". Expected an IANA timezone such as "Asia/Jakarta"`);
+    }
+
+    const existing = await this.get(id);
+    const now = Date.now();
+    const profile: UserProfile = {
+      role: 'member',
+      ...existing,
+      ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+      userId: id,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await redis.hSet(this.prefix, id, JSON.stringify(profile));
+    logger.info({ userId: id, role: profile.role, created: !existing }, 'User saved');
+    return profile;
+  }
+
+  async remove(userId: string): Promise<boolean> {
+    const redis = this.getClient();
+    const id = normalizeUserId(userId);
+    const removed = (await redis.hDel(this.prefix, id)) > 0;
+
+    if (removed) {
+      logger.info({ userId: id }, 'User removed');
+    }
+    return removed;
+  }
+
+  /**
+   * Roles used by tool policy rules: the user's role, plus "admin" for ADMIN_USER_IDS
+   * Unknown users have no roles
+   */
+  async getRoles(userId: string): Promise<string[]> {
+    const profile = await this.get(userId);
+    const roles: string[] = profile ? [profile.role] : [];
+
+    const adminIds = (process.env.ADMIN_USER_IDS || '').split(',').map(normalizeUserId).filter(Boolean);
+    if (adminIds.includes(normalizeUserId(userId))) {
+      roles.push('admin');
+    }
+    return roles;
+  }
+
+  /**
+   * Record that an unknown sender was answered
+   * Returns false if they were already answered recently, so the reply is not repeated
+   */
+  async markNotified(userId: string): Promise<boolean> {
+    const redis = this.getClient();
+    const result = await redis.set(`${this.prefix}:notified:${normalizeUserId(userId)}`, Date.now().toString(), {
+      PX: this.config.notifyTtlMs,
+      NX: true,
+    });
+    return result === 'OK';
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('UserRegistry not initialized');
+    }
+    return this.redis;
+  }
+}
+
+// Singleton instance
+export const userRegistry = new UserRegistry();
@@ -0,0 +1,217 @@
+import { RedisClientType } from 'redis';
+import { createLogger } from '@aspri/logger';
+import { PendingApproval } from '@aspri/types';
+import { getRedisClient } from '../redis-client.js';
+import { normalizeUserId } from '../user-id.js';
+
+const logger = createLogger('approval-store');
+
+export interface ApprovalStoreConfig {
+  ttlMs: number; // How long a pending approval waits for a reply
+  grantTtlMs: number; // How long a one-shot grant stays usable
+}
+
+/**
+ * Why a one-shot grant was given: an approved action, or the assistant's reply into a chat
+ */
+export type GrantKind = 'approval' | 'reply';
+
+/**
+ * Resource a scheduled job was approved to use on every run
+ */
+export interface JobGrant {
+  userId: string;
+  toolName: string;
+  resource: string;
+}
+
+/**
+ * Pending approvals for actions blocked by a whitelist, plus one-shot and job grants
+ *
+ * Key layout:
+ * - {prefix}:{userId}:seq                         counter used to allocate short approval IDs
+ * - {prefix}:{userId}:req:{id}                    JSON PendingApproval, expires after ttlMs
+ * - {prefix}:{userId}:grant:{toolName}:{resource} one-shot allowance (GrantKind), deleted when used
+ * - {prefix}:job:{jobId}                          JSON JobGrant, kept until the job is deleted
+ */
+export class ApprovalStore {
+  private redis: RedisClientType | null = null;
+  private readonly prefix: string;
+  private readonly config: ApprovalStoreConfig;
+
+  constructor(prefix?: string, config?: Partial<ApprovalStoreConfig>) {
+    this.prefix = prefix || process.env.APPROVAL_KEY_PREFIX || 'approval';
+    this.config = {
+      ttlMs: config?.ttlMs ?? parseInt(process.env.APPROVAL_TTL_MINUTES || '30') * 60_000,
+      grantTtlMs: config?.grantTtlMs ?? parseInt(process.env.APPROVAL_GRANT_TTL_HOURS || '24') * 3_600_000,
+    };
+  }
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+    logger.info({ prefix: this.prefix, ...this.config }, 'ApprovalStore initialized');
+  }
+
+  /**
+   * Create a pending approval that expires automatically
+   */
+  async create(
+    userId: string,
+    request: Pick<PendingApproval, 'toolName' | 'resource' | 'action'>
+  ): Promise<PendingApproval> {
+    const redis = this.getClient();
+    const user = normalizeUserId(userId);
+    const id = await redis.incr(this.seqKey(user));
+    const now = Date.now();
+
+    const approval: PendingApproval = {
+      id,
+      userId: user,
+      ...request,
+      createdAt: now,
+      expiresAt: now + this.config.ttlMs,
+    };
+
+    await redis.set(this.requestKey(user, id), JSON.stringify(approval), { PX: this.config.ttlMs });
+    logger.info({ userId: user, id, toolName: request.toolName, resource: request.resource }, 'Pending approval created');
+    return approval;
+  }
+
+  /**
+   * List pending (not yet expired) approvals, oldest first
+   */
+  async list(userId: string): Promise<PendingApproval[]> {
+    const redis = this.getClient();
+    const user = normalizeUserId(userId);
+    const approvals: PendingApproval[] = [];
+
+    for await (const key of redis.scanIterator({ MATCH: `${this.prefix}:${user}:req:*`, COUNT: 100 })) {
+      const raw = await redis.get(key);
+      if (raw) {
+        approvals.push(JSON.parse(raw));
+      }
+    }
+
+    return approvals.sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Remove a pending approval and return it, so it can be resolved exactly once
+   * Without an ID, the most recent pending approval is taken
+   */
+  async take(userId: string, id?: number): Promise<PendingApproval | null> {
+    const redis = this.getClient();
+    const user = normalizeUserId(userId);
+
+    let approvalId = id;
+    if (approvalId === undefined) {
+      const pending = await this.list(user);
+      approvalId = pending[pending.length - 1]?.id;
+    }
+    if (approvalId === undefined) {
+      return null;
+    }
+
+    const key = this.requestKey(user, approvalId);
+    const raw = await redis.get(key);
+
+    // Another reply may resolve the same approval concurrently; only the one that deletes it wins
+    if (!raw || (await redis.del(key)) === 0) {
+      return null;
+    }
+
+    return JSON.parse(raw);
+  }
+
+  /**
+   * Allow a single use of a resource without whitelisting it
+   */
+  async grantOnce(userId: string, toolName: string, resource: string, kind: GrantKind = 'approval'): Promise<void> {
+    const redis = this.getClient();
+    const user = normalizeUserId(userId);
+    await redis.set(this.grantKey(user, toolName, resource), kind, { PX: this.config.grantTtlMs });
+    logger.info({ userId: user, toolName, resource, kind }, 'One-shot grant created');
+  }
+
+  async hasGrant(userId: string, toolName: string, resource: string): Promise<boolean> {
+    return (await this.getGrant(userId, toolName, resource)) !== null;
+  }
+
+  /**
+   * Kind of an unused one-shot grant, or null if there is none
+   */
+  async getGrant(userId: string, toolName: string, resource: string): Promise<GrantKind | null> {
+    const redis = this.getClient();
+    const raw = await redis.get(this.grantKey(normalizeUserId(userId), toolName, resource));
+    if (raw === null) {
+      return null;
+    }
+    return raw === 'reply' ? 'reply' : 'approval';
+  }
+
+  /**
+   * Use up a one-shot grant
+   * Returns false if there was none
+   */
+  async consumeGrant(userId: string, toolName: string, resource: string): Promise<boolean> {
+    const redis = this.getClient();
+    const user = normalizeUserId(userId);
+    const consumed = (await redis.del(this.grantKey(user, toolName, resource))) > 0;
+
+    if (consumed) {
+      logger.info({ userId: user, toolName, resource }, 'One-shot grant consumed');
+    }
+    return consumed;
+  }
+
+  /**
+   * Let a job use a resource on each run, for as long as the job exists
+   * A one-shot approval of a scheduled action (e.g. a reminder) is tied to the job this way, because the
+   * job may run after the one-shot grant expired, or more than once.
+   */
+  async grantForJob(jobId: string, userId: string, toolName: string, resource: string): Promise<void> {
+    const redis = this.getClient();
+    const grant: JobGrant = { userId: normalizeUserId(userId), toolName, resource };
+    await redis.set(this.jobGrantKey(jobId), JSON.stringify(grant));
+    logger.info({ jobId, ...grant }, 'Job grant created');
+  }
+
+  async getJobGrant(jobId: string): Promise<JobGrant | null> {
+    const redis = this.getClient();
+    const raw = await redis.get(this.jobGrantKey(jobId));
+    return raw ? JSON.parse(raw) : null;
+  }
+
+  async revokeJobGrant(jobId: string): Promise<void> {
+    const redis = this.getClient();
+    if ((await redis.del(this.jobGrantKey(jobId))) > 0) {
+      logger.info({ jobId }, 'Job grant revoked');
+    }
+  }
+
+  private seqKey(userId: string): string {
+    return `${this.prefix}:${userId}:seq`;
+  }
+
+  private requestKey(userId: string, id: number): string {
+    return `${this.prefix}:${userId}:req:${id}`;
+  }
+
+  private grantKey(userId: string, toolName: string, resource: string): string {
+    return `${this.prefix}:${userId}:grant:${toolName}:${resource}`;
+  }
+
+  private jobGrantKey(jobId: string): string {
+    return `${this.prefix}:job:${jobId}`;
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('ApprovalStore not initialized');
+    }
+    return this.redis;
+  }
+}
+
+// Singleton instance
+export const approvalStore = new ApprovalStore();
@@ -1,4 +1,7 @@
 import { createLogger } from '@aspri/logger';
+import { UserProfile, WhitelistEntry } from '@aspri/types';
+import { GrantKind, approvalStore } from './approval-store.js';
+import { IValidationPolicy, PolicyRequest, PolicyResult } from './policies/policy.js';
 
 const logger = createLogger('validator-base');
 
@@ -7,8 +10,10 @@ const logger = createLogger('validator-base');
  */
 export interface ValidationResult {
   valid: boolean;
+  needsApproval?: boolean;  // Not allowed yet, but the user may approve it
   error?: string;
   details?: Record<string, any>;
+  release?: () => Promise<void>; // Give back the counts and grant of a valid action that was not carried out (e.g. the send failed)
 }
 
 /**
@@ -16,6 +21,7 @@ export interface ValidationResult {
  */
 export interface ValidationContext {
   userId: string;           // Who is performing the action
+  user?: UserProfile | null; // Registry profile of userId (null = unknown sender), filled in by the registry
   dryRun?: boolean;         // Is this a simulation?
   additionalContext?: any;  // Tool-specific context
 }
@@ -34,6 +40,11 @@ export interface IToolValidator {
    */
   readonly resourceType: string;
 
+  /**
+   * Whether a blocked resource can be approved by the user instead of being rejected outright
+   */
+  readonly approvable?: boolean;
+
   /**
    * Get whitelist for a specific user
    * Each tool maintains its own whitelist
@@ -55,6 +66,23 @@ export interface IToolValidator {
    * Optional: Normalize resource format (e.g., format phone number)
    */
   normalize?(resource: string): string;
+
+  /**
+   * Optional: Whitelist management for validators backed by a persisted whitelist
+   */
+  getWhitelistEntries?(userId: string): Promise<WhitelistEntry[]>;
+  addToWhitelist?(
+    userId: string,
+    entries: Array<{ resource: string; label?: string }>,
+    addedBy?: string
+  ): Promise<WhitelistEntry[]>;
+  removeFromWhitelist?(userId: string, resources: string[]): Promise<string[]>;
+
+  /**
+   * Optional: Policies (rate limits, quotas, quiet hours) evaluated after the whitelist check
+   */
+  addPolicy?(policy: IValidationPolicy): void;
+  getPolicies?(): IValidationPolicy[];
 }
 
 /**
@@ -63,11 +91,30 @@ export interface IToolValidator {
 export abstract class BaseToolValidator implements IToolValidator {
   abstract readonly toolName: string;
   abstract readonly resourceType: string;
+  readonly approvable: boolean = false;
 
   protected logger = createLogger(`validator:${this.constructor.name}`);
+  protected policies: IValidationPolicy[] = [];
 
   abstract getWhitelist(userId: string): Promise<string[]>;
 
+  addPolicy(policy: IValidationPolicy): void {
+    this.policies.push(policy);
+    this.logger.info({ toolName: this.toolName, policy: policy.name }, 'Policy added');
+  }
+
+  getPolicies(): IValidationPolicy[] {
+    return [...this.policies];
+  }
+
+  /**
+   * Whether a resource belongs to the user (e.g., their own phone number)
+   * Policies can exempt such resources
+   */
+  protected isOwnResource(resource: string, userId: string): boolean {
+    return false;
+  }
+
   async isAllowed(resource: string, userId: string): Promise<boolean> {
     const whitelist = await this.getWhitelist(userId);
     const normalizedResource = this.normalize ? this.normalize(resource) : resource;
@@ -89,37 +136,79 @@ export abstract class BaseToolValidator implements IToolValidator {
         toolName: this.toolName
       }, 'Validating resource');
 
-      // Check whitelist
-      const allowed = await this.isAllowed(normalizedResource, context.userId);
+      // Check whitelist, then a one-shot grant (from an approval, or for a reply into a group)
+      let allowed = await this.isAllowed(normalizedResource, context.userId);
+      let grant: GrantKind | null = null;
+      if (!allowed) {
+        grant = await approvalStore.getGrant(context.userId, this.toolName, normalizedResource);
+        allowed = grant !== null;
+      }
 
       if (!allowed) {
-        const error = `${this.resourceType} "${normalizedResource}" is not in whitelist for user ${context.userId}`;
-        this.logger.warn({
+        return this.notWhitelisted(normalizedResource, context);
+      }
+
+      // Policies apply to real actions only; a dry run just checks the target
+      if (!context.dryRun) {
+        const request: PolicyRequest = {
+          toolName: this.toolName,
           resource: normalizedResource,
-          userId: context.userId,
-          toolName: this.toolName
-        }, 'Validation failed: not in whitelist');
+          userId: this.normalize ? this.normalize(context.userId) : context.userId,
+          // Replying into the chat the user wrote from counts as their own, so policies exempt it like a self-message
+          isOwnResource: grant === 'reply' || this.isOwnResource(normalizedResource, context.userId),
+          timestamp: Date.now(),
+          context,
+        };
 
-        return {
-          valid: false,
-          error,
-          details: {
-            resource: normalizedResource,
-            userId: context.userId,
-            resourceType: this.resourceType
+        for (const policy of this.policies) {
+          const result = await policy.check(request);
+          if (!result.allowed) {
+            return this.rejectedByPolicy(policy, result, normalizedResource, context);
+          }
+        }
+
+        // Everything passed: count the action and use up the one-shot grant. Both are atomic, so concurrent
+        // actions cannot share the last slot or the grant; the caller gives them back if the action fails.
+        const reserved: IValidationPolicy[] = [];
+        const releaseReserved = async () => {
+          for (const policy of reserved) {
+            await policy.release?.(request);
           }
         };
-      }
 
-      // Success
-      if (context.dryRun) {
-        this.logger.info({
-          resource: normalizedResource,
-          userId: context.userId,
-          toolName: this.toolName
-        }, 'Dry-run validation passed');
+        for (const policy of this.policies) {
+          const result = policy.reserve ? await policy.reserve(request) : { allowed: true };
+          if (!result.allowed) {
+            await releaseReserved();
+            return this.rejectedByPolicy(policy, result, normalizedResource, context);
+          }
+          reserved.push(policy);
+        }
+
+        if (grant && !(await approvalStore.consumeGrant(context.userId, this.toolName, normalizedResource))) {
+          // Another action used the grant in the meantime
+          await releaseReserved();
+          return this.notWhitelisted(normalizedResource, context);
+        }
+
+        return {
+          valid: true,
+          release: async () => {
+            await releaseReserved();
+            if (grant) {
+              await approvalStore.grantOnce(context.userId, this.toolName, normalizedResource, grant);
+            }
+            this.logger.info({ resource: normalizedResource, userId: context.userId, toolName: this.toolName }, 'Validated action released');
+          },
+        };
       }
 
+      this.logger.info({
+        resource: normalizedResource,
+        userId: context.userId,
+        toolName: this.toolName
+      }, 'Dry-run validation passed');
+
       return { valid: true };
 
     } catch (error: any) {
@@ -133,4 +222,54 @@ export abstract class BaseToolValidator implements IToolValidator {
   }
 
   normalize?(resource: string): string;
+
+  private notWhitelisted(resource: string, context: ValidationContext): ValidationResult {
+    const error = `${this.resourceType} "${resource}" is not in whitelist for user ${context.userId}`;
+    this.logger.warn({
+      resource,
+      userId: context.userId,
+      toolName: this.toolName
+    }, 'Validation failed: not in whitelist');
+
+    return {
+      valid: false,
+      needsApproval: this.approvable,
+      error,
+      details: {
+        resource,
+        userId: context.userId,
+        resourceType: this.resourceType
+      }
+    };
+  }
+
+  private rejectedByPolicy(
+    policy: IValidationPolicy,
+    result: PolicyResult,
+    resource: string,
+    context: ValidationContext
+  ): ValidationResult {
+    this.logger.warn({
+      resource,
+      userId: context.userId,
+      toolName: this.toolName,
+      policy: policy.name,
+      code: result.code
+    }, 'Validation failed: rejected by policy');
+
+    return {
+      valid: false,
+      error: result.reason || `Rejected by policy ${policy.name}`,
+      details: {
+        resource,
+        userId: context.userId,
+        resourceType: this.resourceType,
+        policy: policy.name,
+        code: result.code,
+        reason: result.reason,
+        retryAfterMs: result.retryAfterMs,
+        ...result.details
+      }
+    };
+  }
 }
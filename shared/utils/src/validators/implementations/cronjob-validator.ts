@@ -0,0 +1,303 @@
+import { IToolValidator, ValidationContext, ValidationResult } from '../base.js';
+import { validatorRegistry } from '../registry.js';
+import { createLogger } from '@aspri/logger';
+
+/**
+ * Job being created or updated, passed as ValidationContext.additionalContext
+ */
+export interface CronjobValidationInput {
+  type: 'recurring' | 'one-time';
+  schedule?: string;        // Cron expression (recurring jobs)
+  scheduledTime?: number;   // Unix timestamp in ms (one-time jobs)
+  payload?: Record<string, any>;
+  activeJobCount: number;   // Active jobs the user already owns, not counting this one
+}
+
+export interface CronjobValidatorConfig {
+  minIntervalMs: number;    // Shortest allowed gap between two runs of a recurring job
+  maxActiveJobs: number;    // Max enabled, not yet executed jobs per user
+  maxHorizonMs: number;     // How far ahead a one-time job may be scheduled; the scheduler re-arms timers past setTimeout's ~24.8 day limit
+}
+
+// Keys in a payload that hold a WhatsApp recipient
+const RECIPIENT_KEYS = ['recipient', 'recipients', 'phoneNumber', 'to'];
+
+// Phone numbers written in a prompt: +<country><number>, 62… or 08…, optionally with @c.us
+const PHONE_NUMBER_PATTERN = /(?<![\w.])(?:\+\d{8,15}|(?:62|0)8\d{7,12})(?:@c\.us)?(?![\w.])/g;
+
+/**
+ * Cron job validator
+ * Limits how often and how far ahead jobs run, how many jobs a user keeps active,
+ * and requires WhatsApp recipients named in the payload to pass the WhatsApp whitelist
+ *
+ * Registered once per tool that schedules jobs (cronjob_create, cronjob_update)
+ */
+export class CronjobValidator implements IToolValidator {
+  readonly resourceType = 'cronjob';
+  private readonly config: CronjobValidatorConfig;
+  private logger = createLogger('validator:CronjobValidator');
+
+  constructor(readonly toolName: string, config?: Partial<CronjobValidatorConfig>) {
+    this.config = {
+      minIntervalMs: config?.minIntervalMs ?? parseInt(process.env.CRONJOB_MIN_INTERVAL_MINUTES || '15') * 60_000,
+      maxActiveJobs: config?.maxActiveJobs ?? parseInt(process.env.CRONJOB_MAX_ACTIVE_JOBS_PER_USER || '20'),
+      maxHorizonMs: config?.maxHorizonMs ?? parseInt(process.env.CRONJOB_MAX_HORIZON_DAYS || '365') * 86_400_000,
+    };
+  }
+
+  /**
+   * Cron jobs have no per-resource whitelist; the limits are checked in validate()
+   */
+  async getWhitelist(userId: string): Promise<string[]> {
+    return [];
+  }
+
+  async isAllowed(resource: string, userId: string): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Validate a job
+   * @param resource Job name (used in messages only)
+   * @param context additionalContext must be a CronjobValidationInput
+   */
+  async validate(resource: string, context: ValidationContext): Promise<ValidationResult> {
+    const input = context.additionalContext as CronjobValidationInput | undefined;
+    if (!input) {
+      return this.reject(resource, context, 'invalid_job', 'Job details are required to validate a cron job');
+    }
+
+    const { maxActiveJobs, minIntervalMs, maxHorizonMs } = this.config;
+
+    if (input.activeJobCount >= maxActiveJobs) {
+      return this.reject(
+        resource,
+        context,
+        'max_active_jobs',
+        `You already have ${input.activeJobCount} active jobs (max ${maxActiveJobs}). Stop or delete a job first`,
+        { activeJobCount: input.activeJobCount, maxActiveJobs }
+      );
+    }
+
+    if (input.type === 'recurring' && input.schedule) {
+      const intervalMs = getMinCronIntervalMs(input.schedule);
+      if (intervalMs === null) {
+        return this.reject(resource, context, 'invalid_schedule', `Invalid cron expression: "${input.schedule}"`);
+      }
+      if (intervalMs < minIntervalMs) {
+        return this.reject(
+          resource,
+          context,
+          'min_interval',
+          `Schedule "${input.schedule}" runs every ${formatDuration(intervalMs)}; ` +
+          `recurring jobs may run at most every ${formatDuration(minIntervalMs)}`,
+          { intervalMs, minIntervalMs }
+        );
+      }
+    }
+
+    if (input.type === 'one-time' && input.scheduledTime !== undefined) {
+      const aheadMs = input.scheduledTime - Date.now();
+      if (aheadMs > maxHorizonMs) {
+        return this.reject(
+          resource,
+          context,
+          'max_horizon',
+          `One-time jobs may be scheduled at most ${formatDuration(maxHorizonMs)} ahead`,
+          { scheduledTime: input.scheduledTime, maxHorizonMs }
+        );
+      }
+    }
+
+    // Scheduled messages go out later without the user watching, so their recipients must already be allowed
+    for (const recipient of extractRecipients(input.payload)) {
+      const result = await validatorRegistry.validate('whatsapp_send_message', recipient, {
+        userId: context.userId,
+        dryRun: true,
+      });
+
+      if (!result.valid) {
+        return this.reject(
+          resource,
+          context,
+          'recipient_not_allowed',
+          `Recipient ${result.details?.resource ?? recipient} is not in the WhatsApp whitelist. Add it to the whitelist first`,
+          { recipient: result.details?.resource ?? recipient }
+        );
+      }
+    }
+
+    return { valid: true };
+  }
+
+  private reject(
+    resource: string,
+    context: ValidationContext,
+    code: string,
+    error: string,
+    details?: Record<string, any>
+  ): ValidationResult {
+    this.logger.warn({ resource, userId: context.userId, toolName: this.toolName, code }, 'Validation failed');
+
+    return {
+      valid: false,
+      error,
+      details: {
+        resource,
+        userId: context.userId,
+        resourceType: this.resourceType,
+        code,
+        ...details
+      }
+    };
+  }
+}
+
+/**
+ * Collect WhatsApp recipients from a job payload:
+ * recipient-like fields at any depth, plus phone numbers written in the prompt
+ */
+function extractRecipients(payload?: Record<string, any>): string[] {
+  const recipients = new Set<string>();
+
+  const visit = (value: any, key?: string) => {
+    if (typeof value === 'string') {
+      if (key && RECIPIENT_KEYS.includes(key)) {
+        recipients.add(value);
+      } else if (key === 'prompt') {
+        for (const match of value.match(PHONE_NUMBER_PATTERN) || []) {
+          recipients.add(match);
+        }
+      }
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => visit(item, key));
+    } else if (value && typeof value === 'object') {
+      Object.entries(value).forEach(([childKey, child]) => visit(child, childKey));
+    }
+  };
+
+  visit(payload);
+  return [...recipients];
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Shortest gap between two runs of a cron expression (node-cron syntax, optional seconds field)
+ * Returns null for an invalid expression and Infinity when it runs at most once within two years
+ */
+export function getMinCronIntervalMs(expression: string): number | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5 && fields.length !== 6) {
+    return null;
+  }
+  if (fields.length === 5) {
+    fields.unshift('0');
+  }
+
+  const seconds = parseCronField(fields[0], 0, 59);
+  const minutes = parseCronField(fields[1], 0, 59);
+  const hours = parseCronField(fields[2], 0, 23);
+  const daysOfMonth = parseCronField(fields[3], 1, 31);
+  const months = parseCronField(fields[4], 1, 12, MONTH_NAMES, 1);
+  const daysOfWeek = parseCronField(fields[5], 0, 7, DAY_NAMES, 0);
+  if (!seconds || !minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return null;
+  }
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.add(0);
+  }
+
+  // Every matching day runs at the same times of day
+  const times: number[] = [];
+  for (const hour of [...hours].sort((a, b) => a - b)) {
+    for (const minute of [...minutes].sort((a, b) => a - b)) {
+      for (const second of [...seconds].sort((a, b) => a - b)) {
+        times.push(hour * 3600 + minute * 60 + second);
+      }
+    }
+  }
+
+  let minGap = Infinity;
+  for (let i = 1; i < times.length; i++) {
+    minGap = Math.min(minGap, times[i] - times[i - 1]);
+  }
+
+  // Day, month and weekday must all match (node-cron semantics); walk two years of calendar days
+  const today = new Date();
+  let previousDay: number | null = null;
+  for (let day = 0; day < 731; day++) {
+    const date = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate() + day));
+    const matches = daysOfMonth.has(date.getUTCDate())
+      && months.has(date.getUTCMonth() + 1)
+      && daysOfWeek.has(date.getUTCDay());
+    if (!matches) {
+      continue;
+    }
+    if (previousDay !== null) {
+      minGap = Math.min(minGap, (day - previousDay) * 86_400 - times[times.length - 1] + times[0]);
+    }
+    previousDay = day;
+  }
+
+  return minGap === Infinity ? Infinity : minGap * 1000;
+}
+
+/**
+ * Expand a cron field ("*", "1-5", "*\/15", "mon,wed", "10-40/10") into its values
+ */
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  names?: string[],
+  nameOffset = 0
+): Set<number> | null {
+  const toNumber = (token: string): number => {
+    const nameIndex = names ? names.indexOf(token.toLowerCase()) : -1;
+    return nameIndex >= 0 ? nameIndex + nameOffset : (/^\d+$/.test(token) ? parseInt(token, 10) : NaN);
+  };
+
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepToken, ...rest] = part.split('/');
+    const step = stepToken === undefined ? 1 : parseInt(stepToken, 10);
+    if (rest.length > 0 || !(step > 0)) {
+      return null;
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = toNumber(to);
+    } else {
+      start = toNumber(range);
+      end = stepToken === undefined ? start : max;
+    }
+
+    if (isNaN(start) || isNaN(end) || start < min || end > max || start > end) {
+      return null;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function formatDuration(ms: number): string {
+  const units: Array<[number, string]> = [[86_400_000, 'd'], [3_600_000, 'h'], [60_000, 'm'], [1000, 's']];
+  for (const [unitMs, unit] of units) {
+    if (ms >= unitMs && ms % unitMs === 0) {
+      return `${ms / unitMs}${unit}`;
+    }
+  }
+  return `${Math.round(ms / 1000)}s`;
+}
@@ -1,16 +1,25 @@
+import { WhitelistEntry } from '@aspri/types';
 import { BaseToolValidator } from '../base.js';
+import { WhitelistStore, whitelistStore } from '../whitelist-store.js';
+
+const GROUP_ID_PATTERN = /^[\d-]+@g\.us$/;
 
 /**
  * WhatsApp-specific validator
- * Validates phone numbers against WhatsApp whitelist
+ * Validates phone numbers (and group IDs, kept as "<id>@g.us") against WhatsApp whitelist
  */
 export class WhatsAppValidator extends BaseToolValidator {
   readonly toolName = 'whatsapp_send_message';
   readonly resourceType = 'phone_number';
+  readonly approvable = process.env.WHITELIST_APPROVAL_ENABLED !== 'false';
+
+  constructor(private readonly store: WhitelistStore = whitelistStore) {
+    super();
+  }
 
   /**
    * Get WhatsApp whitelist for a user
-   * TODO: Replace with database query
+   * The user can always message themselves; other numbers come from the whitelist store
    */
   async getWhitelist(userId: string): Promise<string[]> {
     // Normalize userId to extract phone number (remove @c.us if present)
@@ -19,23 +28,8 @@ export class WhatsAppValidator extends BaseToolValidator {
     // Default: user can only message themselves
     const whitelist = [normalizedUserId];
 
-    // Hardcoded whitelist for testing
-    // TODO: Replace with database query
-    const hardcodedWhitelists: Record<string, string[]> = {
-      '6281321127717': ['6281321127717', '628111222333', '628999888777', '628555666777'],
-      '628123456789': ['628111111111', '628222222222'],
-    };
-
-    if (hardcodedWhitelists[normalizedUserId]) {
-      whitelist.push(...hardcodedWhitelists[normalizedUserId]);
-    }
-
-    // Future: Fetch from database
-    // const dbWhitelist = await db.query(
-    //   'SELECT phone_number FROM whatsapp_whitelist WHERE user_id = ?',
-    //   [normalizedUserId]
-    // );
-    // whitelist.push(...dbWhitelist.map(row => row.phone_number));
+    const entries = await this.store.list(this.toolName, normalizedUserId);
+    whitelist.push(...entries.map((entry) => entry.resource));
 
     this.logger.debug({
       userId,
@@ -46,11 +40,53 @@ export class WhatsAppValidator extends BaseToolValidator {
     return [...new Set(whitelist)]; // Remove duplicates
   }
 
+  protected isOwnResource(resource: string, userId: string): boolean {
+    return this.normalize(resource) === this.normalize(userId);
+  }
+
+  async getWhitelistEntries(userId: string): Promise<WhitelistEntry[]> {
+    return this.store.list(this.toolName, this.normalize(userId));
+  }
+
+  async addToWhitelist(
+    userId: string,
+    entries: Array<{ resource: string; label?: string }>,
+    addedBy?: string
+  ): Promise<WhitelistEntry[]> {
+    const normalized = entries.map((entry) => ({ ...entry, resource: this.normalize(entry.resource) }));
+
+    for (const entry of normalized) {
+      if (!/^\d{6,15}$/.test(entry.resource) && !GROUP_ID_PATTERN.test(entry.resource)) {
+        throw new Error(`Invalid phone number: "${entry.resource}"`);
+      }
+    }
+
+    return this.store.add(
+      this.toolName,
+      this.normalize(userId),
+      normalized,
+      addedBy ? this.normalize(addedBy) : undefined
+    );
+  }
+
+  async removeFromWhitelist(userId: string, resources: string[]): Promise<string[]> {
+    return this.store.remove(
+      this.toolName,
+      this.normalize(userId),
+      resources.map((resource) => this.normalize(resource))
+    );
+  }
+
   /**
    * Normalize phone number format
    * Removes spaces, dashes, WhatsApp suffix (@c.us), and ensures consistent format
    */
   normalize(phoneNumber: string): string {
+    // Group IDs keep their suffix so they never collide with phone numbers
+    if (GROUP_ID_PATTERN.test(phoneNumber.trim())) {
+      return phoneNumber.trim();
+    }
+
     // Remove WhatsApp suffix (@c.us, @s.whatsapp.net, etc.)
     let normalized = phoneNumber.replace(/@.*$/, '');
 
@@ -5,21 +5,52 @@ const logger = createLogger('validators');
 // Export types and interfaces
 export * from './base.js';
 export * from './registry.js';
+export * from './whitelist-store.js';
+export * from './approval-store.js';
+export * from './tool-policy.js';
+export * from './policies/index.js';
 export * from './implementations/whatsapp-validator.js';
+export * from './implementations/cronjob-validator.js';
 
 // Import implementations
 import { validatorRegistry } from './registry.js';
+import { whitelistStore } from './whitelist-store.js';
+import { approvalStore } from './approval-store.js';
+import {
+  policyCounterStore,
+  parseRateSpec,
+  RateLimitPolicy,
+  DailyQuotaPolicy,
+  QuietHoursPolicy,
+} from './policies/index.js';
 import { WhatsAppValidator } from './implementations/whatsapp-validator.js';
+import { CronjobValidator } from './implementations/cronjob-validator.js';
+import { loadToolPolicyFile, parseValidatorMode } from './tool-policy.js';
+import { userRegistry } from '../user-registry.js';
 
 /**
  * Initialize and register all validators
  * Call this once at application startup
  */
-export function initializeValidators(): void {
+export async function initializeValidators(): Promise<void> {
   logger.info('Initializing validators...');
 
+  // Persisted whitelists are read on every validation
+  await whitelistStore.initialize();
+  await approvalStore.initialize();
+  await policyCounterStore.initialize();
+
+  // Users and their roles (consulted by validate() and tool policy rules)
+  await userRegistry.initialize();
+  validatorRegistry.setRoleResolver((userId) => userRegistry.getRoles(userId));
+
   // Register WhatsApp validator
   validatorRegistry.register(new WhatsAppValidator());
+  configureWhatsAppPolicies();
+
+  // Register cron job validators (schedule limits, embedded WhatsApp recipients)
+  validatorRegistry.register(new CronjobValidator('cronjob_create'));
+  validatorRegistry.register(new CronjobValidator('cronjob_update'));
 
   // Future: Register other validators
   // validatorRegistry.register(new EmailValidator());
@@ -29,5 +60,51 @@ export function initializeValidators(): void {
   logger.info({ stats }, 'Validators initialized successfully');
 }
 
+/**
+ * Load the tool policy file (TOOL_POLICY_FILE) and validator mode (VALIDATOR_MODE)
+ * VALIDATOR_MODE overrides the mode from the file; without either, the registry stays permissive
+ * Call after initializeValidators so rules can reference registered validators
+ */
+export function loadToolPolicy(path: string | undefined = process.env.TOOL_POLICY_FILE): void {
+  if (path) {
+    validatorRegistry.setToolPolicy(loadToolPolicyFile(path), path);
+  }
+
+  if (process.env.VALIDATOR_MODE) {
+    validatorRegistry.setMode(parseValidatorMode(process.env.VALIDATOR_MODE));
+  }
+
+  logger.info({ stats: validatorRegistry.getStats() }, 'Tool policy applied');
+}
+
+/**
+ * Attach WhatsApp send policies configured via environment
+ * Empty values disable a policy
+ */
+function configureWhatsAppPolicies(): void {
+  const toolName = 'whatsapp_send_message';
+  const timezone = process.env.DEFAULT_TIMEZONE || 'Asia/Jakarta';
+
+  if (process.env.WHATSAPP_RATE_LIMIT_PER_USER) {
+    const { limit, windowMs } = parseRateSpec(process.env.WHATSAPP_RATE_LIMIT_PER_USER);
+    validatorRegistry.addPolicy(toolName, new RateLimitPolicy({ scope: 'user', limit, windowMs }));
+  }
+
+  if (process.env.WHATSAPP_RATE_LIMIT_PER_RECIPIENT) {
+    const { limit, windowMs } = parseRateSpec(process.env.WHATSAPP_RATE_LIMIT_PER_RECIPIENT);
+    validatorRegistry.addPolicy(toolName, new RateLimitPolicy({ scope: 'recipient', limit, windowMs }));
+  }
+
+  if (process.env.WHATSAPP_DAILY_QUOTA) {
+    const limit = parseInt(process.env.WHATSAPP_DAILY_QUOTA);
+    validatorRegistry.addPolicy(toolName, new DailyQuotaPolicy({ limit, timezone }));
+  }
+
+  if (process.env.WHATSAPP_QUIET_HOURS) {
+    const [start, end] = process.env.WHATSAPP_QUIET_HOURS.split('-').map((part) => part.trim());
+    validatorRegistry.addPolicy(toolName, new QuietHoursPolicy({ start, end, timezone }));
+  }
+}
+
 // Export singleton registry
 export { validatorRegistry };
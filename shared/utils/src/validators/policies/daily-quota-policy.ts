@@ -0,0 +1,80 @@
+import { IValidationPolicy, PolicyRequest, PolicyResult, getLocalTime } from './policy.js';
+import { PolicyCounterStore, policyCounterStore } from './policy-counter-store.js';
+
+// Keep a counter a bit longer than a day so DST shifts never reset it early
+const COUNTER_TTL_MS = 48 * 3_600_000;
+
+export interface DailyQuotaPolicyOptions {
+  limit: number;                  // Max actions per user per local day
+  timezone: string;               // Day boundary (IANA timezone); the user's profile timezone takes precedence
+  appliesToOwnResource?: boolean; // Default false: messages to the user themselves do not count
+}
+
+/**
+ * Per-user daily quota, reset at local midnight
+ */
+export class DailyQuotaPolicy implements IValidationPolicy {
+  readonly name = 'daily_quota';
+
+  constructor(
+    private readonly options: DailyQuotaPolicyOptions,
+    private readonly counters: PolicyCounterStore = policyCounterStore
+  ) {}
+
+  async check(request: PolicyRequest): Promise<PolicyResult> {
+    if (this.isExempt(request)) {
+      return { allowed: true };
+    }
+
+    const count = await this.counters.get(this.key(request));
+    return count < this.options.limit ? { allowed: true } : this.rejection(request, count);
+  }
+
+  async reserve(request: PolicyRequest): Promise<PolicyResult> {
+    if (this.isExempt(request)) {
+      return { allowed: true };
+    }
+
+    const count = await this.counters.increment(this.key(request), COUNTER_TTL_MS);
+    if (count <= this.options.limit) {
+      return { allowed: true };
+    }
+
+    await this.counters.decrement(this.key(request), COUNTER_TTL_MS);
+    return this.rejection(request, count - 1);
+  }
+
+  async release(request: PolicyRequest): Promise<void> {
+    if (this.isExempt(request)) {
+      return;
+    }
+    await this.counters.decrement(this.key(request), COUNTER_TTL_MS);
+  }
+
+  private isExempt(request: PolicyRequest): boolean {
+    return request.isOwnResource && !this.options.appliesToOwnResource;
+  }
+
+  private timezone(request: PolicyRequest): string {
+    return request.context.user?.timezone || this.options.timezone;
+  }
+
+  private rejection(request: PolicyRequest, count: number): PolicyResult {
+    const { limit } = this.options;
+    const timezone = this.timezone(request);
+    const { date, minutes } = getLocalTime(request.timestamp, timezone);
+
+    return {
+      allowed: false,
+      code: 'quota_exceeded',
+      reason: `Daily quota reached: max ${limit} ${request.toolName} call(s) per day (${timezone}). Resets at midnight`,
+      retryAfterMs: (24 * 60 - minutes) * 60_000,
+      details: { limit, count, date, timezone },
+    };
+  }
+
+  private key(request: PolicyRequest): string {
+    const { date } = getLocalTime(request.timestamp, this.timezone(request));
+    return `quota:${request.toolName}:${request.userId}:${date}`;
+  }
+}
@@ -0,0 +1,5 @@
+export * from './policy.js';
+export * from './policy-counter-store.js';
+export * from './rate-limit-policy.js';
+export * from './daily-quota-policy.js';
+export * from './quiet-hours-policy.js';
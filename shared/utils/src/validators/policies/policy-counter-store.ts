@@ -0,0 +1,68 @@
+import { RedisClientType } from 'redis';
+import { createLogger } from '@aspri/logger';
+import { getRedisClient } from '../../redis-client.js';
+
+const logger = createLogger('policy-counter-store');
+
+/**
+ * Expiring Redis counters shared by rate limit and quota policies
+ *
+ * Key layout:
+ * - {prefix}:{policy-specific key}  counter, expires with its window
+ */
+export class PolicyCounterStore {
+  private redis: RedisClientType | null = null;
+  private readonly prefix: string;
+
+  constructor(prefix?: string) {
+    this.prefix = prefix || process.env.POLICY_KEY_PREFIX || 'policy';
+  }
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+    logger.info({ prefix: this.prefix }, 'PolicyCounterStore initialized');
+  }
+
+  async get(key: string): Promise<number> {
+    const redis = this.getClient();
+    return parseInt((await redis.get(`${this.prefix}:${key}`)) || '0', 10);
+  }
+
+  /**
+   * Increment a counter; the expiry is set when the counter is created
+   */
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const redis = this.getClient();
+    const fullKey = `${this.prefix}:${key}`;
+    const [count] = await redis
+      .multi()
+      .incr(fullKey)
+      .pExpire(fullKey, ttlMs, 'NX')
+      .exec();
+    return Number(count);
+  }
+
+  /**
+   * Undo an increment; the expiry is only set if the counter expired in the meantime
+   */
+  async decrement(key: string, ttlMs: number): Promise<number> {
+    const redis = this.getClient();
+    const fullKey = `${this.prefix}:${key}`;
+    const [count] = await redis
+      .multi()
+      .decr(fullKey)
+      .pExpire(fullKey, ttlMs, 'NX')
+      .exec();
+    return Number(count);
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('PolicyCounterStore not initialized');
+    }
+    return this.redis;
+  }
+}
+
+// Singleton instance
+export const policyCounterStore = new PolicyCounterStore();
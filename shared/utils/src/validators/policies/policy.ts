@@ -0,0 +1,89 @@
+import { ValidationContext } from '../base.js';
+
+/**
+ * Request evaluated by a policy after the whitelist check passed
+ */
+export interface PolicyRequest {
+  toolName: string;
+  resource: string;          // Normalized resource (e.g., recipient phone number)
+  userId: string;            // Normalized user ID
+  isOwnResource: boolean;    // Resource belongs to the user (e.g., replying to themselves)
+  timestamp: number;         // When the action was validated; counters are keyed by it, so a release hits the same window
+  context: ValidationContext;
+}
+
+/**
+ * Policy decision
+ * `code` and `details` are surfaced in ValidationResult.details so the AI can explain the rejection
+ */
+export interface PolicyResult {
+  allowed: boolean;
+  code?: string;             // e.g., 'rate_limited', 'quota_exceeded', 'quiet_hours'
+  reason?: string;
+  retryAfterMs?: number;
+  details?: Record<string, any>;
+}
+
+/**
+ * Composable rule evaluated on top of a validator's whitelist
+ */
+export interface IValidationPolicy {
+  readonly name: string;
+
+  /**
+   * Decide without side effects
+   */
+  check(request: PolicyRequest): Promise<PolicyResult>;
+
+  /**
+   * Count an action that passed every check (not called for dry runs)
+   * The counter is incremented first and the new count compared against the limit, so concurrent
+   * actions cannot both take the last slot; a rejected reservation is rolled back before returning.
+   */
+  reserve?(request: PolicyRequest): Promise<PolicyResult>;
+
+  /**
+   * Give back a reservation whose action was not carried out (a later policy rejected it, or the send failed)
+   */
+  release?(request: PolicyRequest): Promise<void>;
+}
+
+/**
+ * Parse a rate spec such as "30/1m", "5/30s", "100/1h" or "200/1d"
+ */
+export function parseRateSpec(spec: string): { limit: number; windowMs: number } {
+  const match = spec.trim().match(/^(\d+)\s*\/\s*(\d+)?\s*([smhd])$/);
+  if (!match) {
+    throw new Error(`Invalid rate spec: "${spec}". Expected "<count>/<n><s|m|h|d>", e.g. "30/1m"`);
+  }
+
+  const unitMs: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+  return {
+    limit: parseInt(match[1], 10),
+    windowMs: parseInt(match[2] || '1', 10) * unitMs[match[3]],
+  };
+}
+
+/**
+ * Wall-clock date and time of a timestamp in a timezone
+ */
+export function getLocalTime(timestamp: number, timezone: string): { date: string; minutes: number } {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(new Date(timestamp))
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: parseInt(parts.hour, 10) * 60 + parseInt(parts.minute, 10),
+  };
+}
@@ -0,0 +1,57 @@
+import { IValidationPolicy, PolicyRequest, PolicyResult, getLocalTime } from './policy.js';
+
+export interface QuietHoursPolicyOptions {
+  start: string;                  // "HH:mm", e.g. "22:00"
+  end: string;                    // "HH:mm", e.g. "07:00" (may wrap past midnight)
+  timezone: string;               // Default; the user's profile timezone takes precedence
+  appliesToOwnResource?: boolean; // Default false: replies to the user themselves are always allowed
+}
+
+/**
+ * Reject actions during a daily quiet period
+ */
+export class QuietHoursPolicy implements IValidationPolicy {
+  readonly name = 'quiet_hours';
+  private readonly startMinutes: number;
+  private readonly endMinutes: number;
+
+  constructor(private readonly options: QuietHoursPolicyOptions) {
+    this.startMinutes = parseClock(options.start);
+    this.endMinutes = parseClock(options.end);
+  }
+
+  async check(request: PolicyRequest): Promise<PolicyResult> {
+    if (request.isOwnResource && !this.options.appliesToOwnResource) {
+      return { allowed: true };
+    }
+
+    const timezone = request.context.user?.timezone || this.options.timezone;
+    const { minutes } = getLocalTime(request.timestamp, timezone);
+    const wraps = this.startMinutes > this.endMinutes;
+    const quiet = wraps
+      ? minutes >= this.startMinutes || minutes < this.endMinutes
+      : minutes >= this.startMinutes && minutes < this.endMinutes;
+
+    if (!quiet) {
+      return { allowed: true };
+    }
+
+    const untilEnd = (this.endMinutes - minutes + 24 * 60) % (24 * 60);
+    return {
+      allowed: false,
+      code: 'quiet_hours',
+      reason: `Quiet hours ${this.options.start}-${this.options.end} (${timezone}): ` +
+              `${request.toolName} is paused until ${this.options.end}`,
+      retryAfterMs: untilEnd * 60_000,
+      details: { start: this.options.start, end: this.options.end, timezone },
+    };
+  }
+}
+
+function parseClock(value: string): number {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || parseInt(match[1], 10) > 23 || parseInt(match[2], 10) > 59) {
+    throw new Error(`Invalid time of day: "${value}". Expected HH:mm`);
+  }
+  return parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+}
@@ -0,0 +1,87 @@
+import { IValidationPolicy, PolicyRequest, PolicyResult } from './policy.js';
+import { PolicyCounterStore, policyCounterStore } from './policy-counter-store.js';
+
+export interface RateLimitPolicyOptions {
+  scope: 'user' | 'recipient';  // Count per user, or per user + recipient pair
+  limit: number;
+  windowMs: number;
+  appliesToOwnResource?: boolean; // Default false: messages to the user themselves are not limited
+}
+
+/**
+ * Fixed-window rate limit backed by Redis counters
+ */
+export class RateLimitPolicy implements IValidationPolicy {
+  readonly name: string;
+
+  constructor(
+    private readonly options: RateLimitPolicyOptions,
+    private readonly counters: PolicyCounterStore = policyCounterStore
+  ) {
+    this.name = `rate_limit_${options.scope}`;
+  }
+
+  async check(request: PolicyRequest): Promise<PolicyResult> {
+    if (this.isExempt(request)) {
+      return { allowed: true };
+    }
+
+    const count = await this.counters.get(this.key(request));
+    return count < this.options.limit ? { allowed: true } : this.rejection(request, count);
+  }
+
+  async reserve(request: PolicyRequest): Promise<PolicyResult> {
+    if (this.isExempt(request)) {
+      return { allowed: true };
+    }
+
+    const count = await this.counters.increment(this.key(request), this.options.windowMs);
+    if (count <= this.options.limit) {
+      return { allowed: true };
+    }
+
+    await this.counters.decrement(this.key(request), this.options.windowMs);
+    return this.rejection(request, count - 1);
+  }
+
+  async release(request: PolicyRequest): Promise<void> {
+    if (this.isExempt(request)) {
+      return;
+    }
+    await this.counters.decrement(this.key(request), this.options.windowMs);
+  }
+
+  private isExempt(request: PolicyRequest): boolean {
+    return request.isOwnResource && !this.options.appliesToOwnResource;
+  }
+
+  private rejection(request: PolicyRequest, count: number): PolicyResult {
+    const { limit, windowMs, scope } = this.options;
+    const retryAfterMs = (Math.floor(request.timestamp / windowMs) + 1) * windowMs - request.timestamp;
+    const target = scope === 'recipient' ? `to ${request.resource}` : 'in total';
+
+    return {
+      allowed: false,
+      code: 'rate_limited',
+      reason: `Rate limit reached: max ${limit} ${request.toolName} call(s) ${target} per ${formatWindow(windowMs)}. ` +
+              `Try again in ${Math.ceil(retryAfterMs / 1000)}s`,
+      retryAfterMs,
+      details: { scope, limit, windowMs, count },
+    };
+  }
+
+  private key(request: PolicyRequest): string {
+    const window = Math.floor(request.timestamp / this.options.windowMs);
+    const subject = this.options.scope === 'recipient'
+      ? `${request.userId}:${request.resource}`
+      : request.userId;
+    return `rate:${request.toolName}:${this.options.scope}:${subject}:${window}`;
+  }
+}
+
+function formatWindow(windowMs: number): string {
+  if (windowMs % 86_400_000 === 0) return `${windowMs / 86_400_000}d`;
+  if (windowMs % 3_600_000 === 0) return `${windowMs / 3_600_000}h`;
+  if (windowMs % 60_000 === 0) return `${windowMs / 60_000}m`;
+  return `${windowMs / 1000}s`;
+}
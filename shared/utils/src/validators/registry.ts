@@ -1,5 +1,15 @@
 import { createLogger } from '@aspri/logger';
+import { WhitelistEntry } from '@aspri/types';
 import { IToolValidator, ValidationContext, ValidationResult } from './base.js';
+import { IValidationPolicy } from './policies/policy.js';
+import { userRegistry } from '../user-registry.js';
+import {
+  ValidatorMode,
+  ToolPolicyConfig,
+  RoleResolver,
+  defaultRoleResolver,
+  findToolPolicyRule,
+} from './tool-policy.js';
 
 const logger = createLogger('validator-registry');
 
@@ -8,6 +18,50 @@ const logger = createLogger('validator-registry');
  */
 export class ValidatorRegistry {
   private validators: Map<string, IToolValidator> = new Map();
+  private mode: ValidatorMode = 'permissive';
+  private toolPolicy: ToolPolicyConfig = { tools: {} };
+  private toolPolicySource: string | null = null;
+  private roleResolver: RoleResolver = defaultRoleResolver;
+
+  /**
+   * Set how tools without a validator or policy rule are treated
+   */
+  setMode(mode: ValidatorMode): void {
+    this.mode = mode;
+    logger.info({ mode }, 'Validator mode set');
+  }
+
+  getMode(): ValidatorMode {
+    return this.mode;
+  }
+
+  /**
+   * Apply a declarative tool policy (see loadToolPolicyFile)
+   */
+  setToolPolicy(policy: ToolPolicyConfig, source?: string): void {
+    this.toolPolicy = policy;
+    this.toolPolicySource = source ?? null;
+    if (policy.mode) {
+      this.setMode(policy.mode);
+    }
+
+    // A rule requiring a missing validator denies its tool; surface the misconfiguration early
+    for (const [pattern, rule] of Object.entries(policy.tools)) {
+      const validatorName = typeof rule.validator === 'string' ? rule.validator : pattern;
+      if (rule.validator && !this.validators.has(validatorName)) {
+        logger.warn({ pattern, validator: validatorName }, 'Tool policy requires a validator that is not registered');
+      }
+    }
+
+    logger.info({ source, rules: Object.keys(policy.tools).length }, 'Tool policy loaded');
+  }
+
+  /**
+   * Replace how user roles are resolved for tool policy rules
+   */
+  setRoleResolver(resolver: RoleResolver): void {
+    this.roleResolver = resolver;
+  }
 
   /**
    * Register a validator for a tool
@@ -48,7 +102,23 @@ export class ValidatorRegistry {
   ): Promise<ValidationResult> {
     const validator = this.validators.get(toolName);
 
+    // Validators see who is acting (role, timezone, language)
+    if (context.user === undefined) {
+      context = { ...context, user: await userRegistry.get(context.userId) };
+    }
+
+    if (context.user?.role === 'blocked') {
+      logger.warn({ toolName, userId: context.userId }, 'Blocked user, denying');
+      return this.deny(toolName, context.userId, 'blocked', `User ${context.userId} is blocked`);
+    }
+
     if (!validator) {
+      // Strict mode only allows tools explicitly listed in the tool policy
+      if (this.mode === 'strict' && !findToolPolicyRule(this.toolPolicy.tools, toolName)) {
+        logger.warn({ toolName, userId: context.userId }, 'No validator or policy rule for tool, denying (strict mode)');
+        return this.deny(toolName, context.userId, 'no_validator', `Tool ${toolName} has no validator or policy rule`);
+      }
+
       logger.debug({ toolName }, 'No validator found for tool, allowing by default');
       // If no validator, allow by default (opt-in security)
       return { valid: true };
@@ -57,6 +127,74 @@ export class ValidatorRegistry {
     return await validator.validate(resource, context);
   }
 
+  /**
+   * Check whether a user may call a tool at all, before any resource is known
+   * Applies the tool policy rule (allow, roles, required validator); without a rule,
+   * strict mode only allows tools that have a validator
+   */
+  async authorize(toolName: string, userId?: string): Promise<ValidationResult> {
+    const match = findToolPolicyRule(this.toolPolicy.tools, toolName);
+
+    if (!match) {
+      if (this.mode === 'strict' && !this.validators.has(toolName)) {
+        logger.warn({ toolName, userId }, 'Tool not covered by policy, denying (strict mode)');
+        return this.deny(toolName, userId, 'not_allowed', `Tool ${toolName} is not allowed by the tool policy`);
+      }
+      return { valid: true };
+    }
+
+    const { pattern, rule } = match;
+
+    if (rule.allow === false) {
+      logger.warn({ toolName, pattern, userId }, 'Tool disabled by policy');
+      return this.deny(toolName, userId, 'disabled', `Tool ${toolName} is disabled by the tool policy`, { pattern });
+    }
+
+    if (rule.roles && rule.roles.length > 0) {
+      const roles = userId ? await this.roleResolver(userId) : [];
+      if (!rule.roles.some((role) => roles.includes(role))) {
+        logger.warn({ toolName, pattern, userId, roles, required: rule.roles }, 'Missing required role for tool');
+        return this.deny(
+          toolName,
+          userId,
+          'missing_role',
+          `Tool ${toolName} requires one of the roles: ${rule.roles.join(', ')}`,
+          { pattern, requiredRoles: rule.roles, roles }
+        );
+      }
+    }
+
+    if (rule.validator) {
+      const validatorName = typeof rule.validator === 'string' ? rule.validator : toolName;
+      if (!this.validators.has(validatorName)) {
+        logger.error({ toolName, pattern, validator: validatorName }, 'Required validator not registered, denying');
+        return this.deny(
+          toolName,
+          userId,
+          'missing_validator',
+          `Tool ${toolName} requires validator ${validatorName}, which is not registered`,
+          { pattern }
+        );
+      }
+    }
+
+    return { valid: true };
+  }
+
+  private deny(
+    toolName: string,
+    userId: string | undefined,
+    code: string,
+    error: string,
+    details?: Record<string, any>
+  ): ValidationResult {
+    return {
+      valid: false,
+      error,
+      details: { toolName, userId, code, mode: this.mode, ...details }
+    };
+  }
+
   /**
    * Get all registered validators
    */
@@ -75,18 +213,77 @@ export class ValidatorRegistry {
     return await validator.getWhitelist(userId);
   }
 
+  /**
+   * Add a policy (rate limit, quota, quiet hours) to a tool's validator
+   */
+  addPolicy(toolName: string, policy: IValidationPolicy): void {
+    const validator = this.validators.get(toolName);
+    if (!validator) {
+      throw new Error(`No validator registered for tool: ${toolName}`);
+    }
+    if (!validator.addPolicy) {
+      throw new Error(`Validator for ${toolName} does not support policies`);
+    }
+    validator.addPolicy(policy);
+  }
+
+  /**
+   * Get persisted whitelist entries (with labels) for a tool and user
+   */
+  async getWhitelistEntries(toolName: string, userId: string): Promise<WhitelistEntry[]> {
+    return await this.getManagedValidator(toolName).getWhitelistEntries!(userId);
+  }
+
+  /**
+   * Add entries to a tool's whitelist for a user
+   */
+  async addToWhitelist(
+    toolName: string,
+    userId: string,
+    entries: Array<{ resource: string; label?: string }>,
+    addedBy?: string
+  ): Promise<WhitelistEntry[]> {
+    return await this.getManagedValidator(toolName).addToWhitelist!(userId, entries, addedBy);
+  }
+
+  /**
+   * Remove entries from a tool's whitelist for a user
+   */
+  async removeFromWhitelist(toolName: string, userId: string, resources: string[]): Promise<string[]> {
+    return await this.getManagedValidator(toolName).removeFromWhitelist!(userId, resources);
+  }
+
+  private getManagedValidator(toolName: string): IToolValidator {
+    const validator = this.validators.get(toolName);
+    if (!validator) {
+      throw new Error(`No validator registered for tool: ${toolName}`);
+    }
+    if (!validator.getWhitelistEntries || !validator.addToWhitelist || !validator.removeFromWhitelist) {
+      throw new Error(`Validator for ${toolName} does not support whitelist management`);
+    }
+    return validator;
+  }
+
   /**
    * Get statistics about registered validators
    */
-  getStats(): { totalValidators: number; validators: Array<{ toolName: string; resourceType: string }> } {
+  getStats(): {
+    mode: ValidatorMode;
+    totalValidators: number;
+    validators: Array<{ toolName: string; resourceType: string; policies: string[] }>;
+    toolPolicy: { source: string | null; tools: ToolPolicyConfig['tools'] };
+  } {
     const validators = Array.from(this.validators.values()).map(v => ({
       toolName: v.toolName,
-      resourceType: v.resourceType
+      resourceType: v.resourceType,
+      policies: v.getPolicies ? v.getPolicies().map((policy) => policy.name) : []
     }));
 
     return {
+      mode: this.mode,
       totalValidators: validators.length,
-      validators
+      validators,
+      toolPolicy: { source: this.toolPolicySource, tools: this.toolPolicy.tools }
     };
   }
 }
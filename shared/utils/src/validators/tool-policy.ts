@@ -0,0 +1,108 @@
+import { readFileSync } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { normalizeUserId } from '../user-id.js';
+
+/**
+ * How the registry treats tools without a validator or policy rule
+ * - permissive: allowed (opt-in security)
+ * - strict: denied (deny-by-default)
+ */
+export type ValidatorMode = 'permissive' | 'strict';
+
+/**
+ * Policy rule for one tool (or a tool name prefix ending in "*", e.g. "todo_*")
+ */
+export interface ToolPolicyRule {
+  allow?: boolean;            // false blocks the tool entirely
+  roles?: string[];           // Caller needs at least one of these roles
+  validator?: boolean | string; // Require a registered validator (true = the tool's own, or a tool name)
+}
+
+export interface ToolPolicyConfig {
+  mode?: ValidatorMode;
+  tools: Record<string, ToolPolicyRule>;
+}
+
+/**
+ * Resolve the roles of a user for tool policy checks
+ */
+export type RoleResolver = (userId: string) => Promise<string[]> | string[];
+
+const VALIDATOR_MODES: ValidatorMode[] = ['permissive', 'strict'];
+
+export function parseValidatorMode(value: string): ValidatorMode {
+  const mode = value.trim().toLowerCase() as ValidatorMode;
+  if (!VALIDATOR_MODES.includes(mode)) {
+    throw new Error(`Invalid validator mode: "${value}". Must be "permissive" or "strict"`);
+  }
+  return mode;
+}
+
+/**
+ * Load a tool policy file (.json, .yaml or .yml)
+ *
+ * Example (YAML):
+ *   mode: strict
+ *   tools:
+ *     whatsapp_send_message: { validator: true }
+ *     todo_*: { roles: [owner, member] }
+ *     whitelist_add: { roles: [admin] }
+ *     cronjob_delete: { allow: false }
+ */
+export function loadToolPolicyFile(path: string): ToolPolicyConfig {
+  const raw = readFileSync(path, 'utf-8');
+  const extension = extname(path).toLowerCase();
+  const parsed = extension === '.json' ? JSON.parse(raw) : parseYaml(raw);
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error(`Invalid tool policy file ${path}: expected an object`);
+  }
+
+  const tools: Record<string, ToolPolicyRule> = {};
+  for (const [toolName, rule] of Object.entries<any>(parsed.tools || {})) {
+    if (!rule || typeof rule !== 'object') {
+      throw new Error(`Invalid tool policy for ${toolName}: expected an object`);
+    }
+    if (rule.roles !== undefined && (!Array.isArray(rule.roles) || rule.roles.some((role: any) => typeof role !== 'string'))) {
+      throw new Error(`Invalid tool policy for ${toolName}: roles must be a list of strings`);
+    }
+    tools[toolName] = {
+      allow: rule.allow,
+      roles: rule.roles,
+      validator: rule.validator,
+    };
+  }
+
+  return {
+    mode: parsed.mode !== undefined ? parseValidatorMode(String(parsed.mode)) : undefined,
+    tools,
+  };
+}
+
+/**
+ * Find the rule for a tool: an exact name wins over the longest matching "prefix*" pattern
+ */
+export function findToolPolicyRule(
+  tools: Record<string, ToolPolicyRule>,
+  toolName: string
+): { pattern: string; rule: ToolPolicyRule } | undefined {
+  if (tools[toolName]) {
+    return { pattern: toolName, rule: tools[toolName] };
+  }
+
+  const pattern = Object.keys(tools)
+    .filter((key) => key.endsWith('*') && toolName.startsWith(key.slice(0, -1)))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return pattern ? { pattern, rule: tools[pattern] } : undefined;
+}
+
+/**
+ * Default roles: "admin" for ADMIN_USER_IDS, "user" for everyone
+ * initializeValidators replaces this with the user registry roles
+ */
+export const defaultRoleResolver: RoleResolver = (userId: string) => {
+  const adminIds = (process.env.ADMIN_USER_IDS || '').split(',').map(normalizeUserId).filter(Boolean);
+  return adminIds.includes(normalizeUserId(userId)) ? ['admin', 'user'] : ['user'];
+};
@@ -0,0 +1,99 @@
+import { RedisClientType } from 'redis';
+import { createLogger } from '@aspri/logger';
+import { WhitelistEntry } from '@aspri/types';
+import { getRedisClient } from '../redis-client.js';
+
+const logger = createLogger('whitelist-store');
+
+/**
+ * Redis-backed whitelist storage, scoped per tool and user
+ * Reads go straight to Redis, so changes apply to the next validation without a restart
+ *
+ * Key layout:
+ * - {prefix}:{toolName}:{userId}  HASH resource -> JSON WhitelistEntry
+ */
+export class WhitelistStore {
+  private redis: RedisClientType | null = null;
+  private readonly prefix: string;
+
+  constructor(prefix?: string) {
+    this.prefix = prefix || process.env.WHITELIST_KEY_PREFIX || 'whitelist';
+  }
+
+  async initialize(): Promise<void> {
+    this.redis = await getRedisClient();
+    logger.info({ prefix: this.prefix }, 'WhitelistStore initialized');
+  }
+
+  /**
+   * Get whitelist entries, ordered by when they were added
+   */
+  async list(toolName: string, userId: string): Promise<WhitelistEntry[]> {
+    const redis = this.getClient();
+    const entries = await redis.hGetAll(this.key(toolName, userId));
+
+    return Object.values(entries)
+      .map((raw) => JSON.parse(raw) as WhitelistEntry)
+      .sort((a, b) => a.addedAt - b.addedAt);
+  }
+
+  /**
+   * Add or relabel entries (resources must already be normalized)
+   */
+  async add(
+    toolName: string,
+    userId: string,
+    entries: Array<{ resource: string; label?: string }>,
+    addedBy?: string
+  ): Promise<WhitelistEntry[]> {
+    const redis = this.getClient();
+    const added: WhitelistEntry[] = entries.map((entry) => ({
+      resource: entry.resource,
+      label: entry.label,
+      addedAt: Date.now(),
+      addedBy,
+    }));
+
+    if (added.length > 0) {
+      await redis.hSet(
+        this.key(toolName, userId),
+        Object.fromEntries(added.map((entry) => [entry.resource, JSON.stringify(entry)]))
+      );
+    }
+
+    logger.info({ toolName, userId, resources: added.map((entry) => entry.resource) }, 'Whitelist entries added');
+    return added;
+  }
+
+  /**
+   * Remove entries (resources must already be normalized)
+   * Returns the resources that were actually removed
+   */
+  async remove(toolName: string, userId: string, resources: string[]): Promise<string[]> {
+    const redis = this.getClient();
+    const removed: string[] = [];
+
+    for (const resource of resources) {
+      if (await redis.hDel(this.key(toolName, userId), resource)) {
+        removed.push(resource);
+      }
+    }
+
+    logger.info({ toolName, userId, removed }, 'Whitelist entries removed');
+    return removed;
+  }
+
+  private key(toolName: string, userId: string): string {
+    return `${this.prefix}:${toolName}:${userId}`;
+  }
+
+  private getClient(): RedisClientType {
+    if (!this.redis) {
+      throw new Error('WhitelistStore not initialized');
+    }
+    return this.redis;
+  }
+}
+
+// Singleton instance
+export const whitelistStore = new WhitelistStore();